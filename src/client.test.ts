@@ -0,0 +1,226 @@
+import WebSocket, { WebSocketServer } from 'ws';
+import type { AddressInfo } from 'net';
+import { JsxToolClient, JsxToolClientError } from './client';
+
+interface FakeServer {
+  url: string
+  received: any[]
+  sockets: WebSocket[]
+  respond: (handler: (message: any, socket: WebSocket) => void) => void
+  close: () => Promise<void>
+}
+
+async function startFakeServer (): Promise<FakeServer> {
+  const wss = new WebSocketServer({ port: 0 });
+  await new Promise<void>(resolve => wss.once('listening', () => { resolve(); }));
+
+  const received: any[] = [];
+  const sockets: WebSocket[] = [];
+  let handler: (message: any, socket: WebSocket) => void = () => { };
+
+  wss.on('connection', (socket) => {
+    sockets.push(socket);
+    socket.on('message', (data) => {
+      const message = JSON.parse(data.toString());
+      received.push(message);
+      if (message.event_name === 'handshake') {
+        socket.send(JSON.stringify({
+          event_name: 'handshake_ack',
+          protocol_version: 2,
+          server_version: 'test',
+          capabilities: { events: ['read_file'], subsystems: {}, limits: {} }
+        }));
+        return;
+      }
+      handler(message, socket);
+    });
+  });
+
+  return {
+    url: `ws://localhost:${(wss.address() as AddressInfo).port}`,
+    received,
+    sockets,
+    respond: (next) => { handler = next; },
+    close: async () => {
+      wss.clients.forEach(client => { client.terminate(); });
+      await new Promise<void>(resolve => { wss.close(() => { resolve(); }); });
+    }
+  };
+}
+
+const waitFor = async (condition: () => boolean): Promise<void> => {
+  for (let i = 0; i < 100 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+describe('JsxToolClient', () => {
+  let server: FakeServer;
+  let client: JsxToolClient;
+
+  beforeEach(async () => {
+    server = await startFakeServer();
+  });
+
+  afterEach(async () => {
+    client?.close();
+    await server.close();
+  });
+
+  const connect = async (options: Partial<ConstructorParameters<typeof JsxToolClient>[0]> = {}) => {
+    client = new JsxToolClient({
+      url: server.url,
+      WebSocket,
+      reconnect: { initialDelayMs: 10 },
+      ...options
+    });
+    return await client.connect();
+  };
+
+  it('handshakes and correlates responses by message_id', async () => {
+    const sign = jest.fn(() => 'signed');
+    const capabilities = await connect({ sign });
+    expect(capabilities.events).toEqual(['read_file']);
+
+    server.respond((message, socket) => {
+      socket.send(JSON.stringify({
+        message_id: message.message_id,
+        event_response: 'read_file',
+        payload: { filePath: message.params.filePath, response: { success: true, data: `contents of ${message.params.filePath}` } }
+      }));
+    });
+
+    const [a, b] = await Promise.all([client.readFile('a.ts'), client.readFile('b.ts')]);
+    expect(a.data).toBe('contents of a.ts');
+    expect(b.data).toBe('contents of b.ts');
+
+    const request = server.received.find(message => message.event_name === 'read_file');
+    expect(request).toMatchObject({ signature: 'signed', nonce: expect.any(String), timestamp: expect.any(Number) });
+    const [payload, serialized] = (sign.mock.calls as unknown as Array<[any, string]>)[0];
+    expect(serialized).toBe(JSON.stringify(payload));
+    expect(Object.keys(payload)).toEqual(['event_name', 'params', 'message_id', 'nonce', 'timestamp']);
+  });
+
+  it('rejects with the server error code and field details', async () => {
+    await connect();
+    server.respond((message, socket) => {
+      socket.send(JSON.stringify({
+        message_id: message.message_id,
+        event_response: message.event_name,
+        error: { code: 'INVALID_PARAMS', message: 'Invalid params', details: [{ path: 'params.filePath', message: 'Required' }] }
+      }));
+    });
+
+    const error = await client.readFile('').catch((err: unknown) => err) as JsxToolClientError;
+    expect(error).toBeInstanceOf(JsxToolClientError);
+    expect(error.code).toBe('INVALID_PARAMS');
+    expect(error.details).toEqual([{ path: 'params.filePath', message: 'Required' }]);
+  });
+
+  it('delivers push events to typed listeners and stream handlers', async () => {
+    await connect();
+    const fileChanges = jest.fn();
+    client.on('updated_project_info', fileChanges);
+
+    server.respond((message, socket) => {
+      socket.send(JSON.stringify({ event_name: 'updated_project_info', file_changes: [] }));
+      socket.send(JSON.stringify({ event_name: 'search_stream_matches', message_id: message.message_id, root: '/p', matches: [{ line: 'x' }] }));
+      socket.send(JSON.stringify({
+        message_id: message.message_id,
+        event_response: 'search_stream',
+        payload: { success: true, totalMatches: 1, truncated: false, roots: [], durationMs: 1 }
+      }));
+    });
+
+    const onMatches = jest.fn();
+    const summary = await client.searchStream('needle', { onMatches });
+
+    expect(summary.totalMatches).toBe(1);
+    expect(onMatches).toHaveBeenCalledWith(expect.objectContaining({ root: '/p' }));
+    expect(fileChanges).toHaveBeenCalledWith({ event_name: 'updated_project_info', file_changes: [] });
+  });
+
+  it('signs each batch item individually', async () => {
+    const sign = jest.fn((payload: { message_id: string }) => `sig-${payload.message_id}`);
+    await connect({ sign });
+    server.respond((message, socket) => {
+      socket.send(JSON.stringify({
+        message_id: message.message_id,
+        event_response: 'batch',
+        payload: { responses: [] }
+      }));
+    });
+
+    await client.batch([
+      { event: 'exists', params: { filePath: 'a.ts' } },
+      { event: 'read_file', params: { filePath: 'a.ts' } }
+    ], { mode: 'parallel' });
+
+    const batch = server.received.find(message => message.event_name === 'batch');
+    expect(batch.params.mode).toBe('parallel');
+    expect(batch.params.requests).toHaveLength(2);
+    for (const request of batch.params.requests) {
+      expect(request.signature).toBe(`sig-${request.message_id as string}`);
+    }
+    expect(batch.signature).toBe(`sig-${batch.message_id as string}`);
+  });
+
+  it('cancels locally and tells the server when the signal aborts', async () => {
+    await connect();
+    const controller = new AbortController();
+    const pending = client.search('needle', {}, { signal: controller.signal });
+    await waitFor(() => server.received.some(message => message.event_name === 'search'));
+
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ code: 'CANCELLED' });
+    await waitFor(() => server.received.some(message => message.event_name === 'cancel_request'));
+    const search = server.received.find(message => message.event_name === 'search');
+    expect(server.received.find(message => message.event_name === 'cancel_request').params)
+      .toEqual({ message_id: search.message_id });
+  });
+
+  it('rejects at once when the connection closes while a request is being signed', async () => {
+    await connect({
+      reconnect: false,
+      sign: async (payload) => {
+        if (payload.event_name === 'read_file') {
+          const closed = new Promise(resolve => client.on('close', resolve));
+          server.sockets[0].terminate();
+          await closed;
+        }
+        return 'signed';
+      }
+    });
+
+    await expect(client.request('read_file', { filePath: 'a.ts' }, { timeoutMs: 60_000 })).rejects.toMatchObject({ code: 'DISCONNECTED' });
+    expect(server.received.some(message => message.event_name === 'read_file')).toBe(false);
+  });
+
+  it('rejects pending requests on disconnect, then reconnects and restores subscriptions', async () => {
+    await connect();
+    server.respond((message, socket) => {
+      if (message.event_name === 'subscribe') {
+        socket.send(JSON.stringify({
+          message_id: message.message_id,
+          event_response: 'subscribe',
+          payload: { subscription_id: `server-${server.sockets.length}`, topic: message.params.topic }
+        }));
+      }
+    });
+
+    await client.subscribe('file_changes', { globs: ['*.tsx'] });
+    const pending = client.getCapabilities();
+    const reopened = new Promise(resolve => client.on('open', resolve));
+
+    server.sockets[0].terminate();
+
+    await expect(pending).rejects.toMatchObject({ code: 'DISCONNECTED' });
+    await reopened;
+    await waitFor(() => server.received.filter(message => message.event_name === 'subscribe').length === 2);
+
+    const subscribes = server.received.filter(message => message.event_name === 'subscribe');
+    expect(subscribes[1].params).toEqual({ topic: 'file_changes', filter: { globs: ['*.tsx'] } });
+    expect(client.isConnected).toBe(true);
+  });
+});
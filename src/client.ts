@@ -0,0 +1,703 @@
+// Browser- and Node-compatible client for the dev-server WebSocket protocol.
+// Only type imports from the server side are allowed here so bundlers don't pull in Node modules.
+import { PROTOCOL_VERSION } from './protocol';
+import type {
+  BatchItemResponse,
+  EventPayloadMap,
+  HandshakeAckMessage,
+  HandshakeMessage,
+  HandshakeRejectedMessage,
+  RequestParamMap,
+  SearchStreamMatchesEvent,
+  SearchStreamProgressEvent,
+  ServerCapabilities,
+  WebSocketErrorCode,
+  WebSocketErrorResponseEvent,
+  WebSocketInboundRequest,
+  WebSocketResponseEvent
+} from './services/websocket.service';
+import type {
+  ApplyPatchResult,
+  CopyItemsResult,
+  ExistsResult,
+  LsArgs,
+  LsResult,
+  MkdirResult,
+  ReadFileRangeArgs,
+  ReadFileRangeResult,
+  ReadFileResult,
+  RenameItemResult,
+  RmDirResult,
+  RmResult,
+  StatResult,
+  TreeResult,
+  WriteExpectation,
+  WriteFileResult
+} from './services/file-system-api.service';
+import type { TransactionOperation, WriteTransactionResult } from './services/file-transaction.service';
+import type { ReadFileChunkResult, WriteFileChunkArgs, WriteFileChunkResult } from './services/file-transfer.service';
+import type {
+  ListFileHistoryResult,
+  ReadFileHistoryEntryResult,
+  RestoreFileHistoryResult
+} from './services/file-history.service';
+import type {
+  GitBlameResult,
+  GitCommitResult,
+  GitDiffResult,
+  GitLogFileResult,
+  GitPathsResult,
+  GitShowFileResult,
+  GetConflictsResult,
+  ResolveConflictResult
+} from './services/git.service';
+import type { ConflictChoice } from './utils/conflict-markers';
+import type { RipGrepSearchOptions, RipGrepSearchResult, RipGrepStreamSummary } from './services/ripgrep.service';
+import type { SubscriptionFilter, SubscriptionTopic, TopicBroadcastEvent } from './services/subscription.service';
+import type { SchemaIssue } from './utils/json-schema';
+import type { TextEdit } from './services/lsp.service';
+
+export type {
+  BatchItemResponse,
+  EventPayloadMap,
+  RequestParamMap,
+  ServerCapabilities,
+  SubscriptionFilter,
+  SubscriptionTopic
+};
+
+const SOCKET_OPEN = 1;
+const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+const DEFAULT_RECONNECT = { initialDelayMs: 500, maxDelayMs: 10000, maxAttempts: Infinity };
+
+// The subset of the WebSocket API shared by browsers and the `ws` package
+export interface WebSocketLike {
+  readonly readyState: number
+  send: (data: string) => void
+  close: (code?: number, reason?: string) => void
+  onopen: ((event: any) => void) | null
+  onmessage: ((event: any) => void) | null
+  onclose: ((event: any) => void) | null
+  onerror: ((event: any) => void) | null
+}
+
+export type WebSocketConstructor = new (url: string) => WebSocketLike;
+
+export interface SignedRequestPayload {
+  event_name: string
+  params: unknown
+  message_id: string
+  nonce: string
+  timestamp: number
+}
+
+// Receives the payload and its exact serialization; must return a base64 signature of `serialized`
+export type RequestSigner = (payload: SignedRequestPayload, serialized: string) => string | Promise<string>;
+
+export interface JsxToolClientOptions {
+  url: string
+  WebSocket?: WebSocketConstructor
+  sign?: RequestSigner
+  requestTimeoutMs?: number
+  reconnect?: boolean | Partial<typeof DEFAULT_RECONNECT>
+  clientVersion?: string
+}
+
+export type JsxToolClientErrorCode =
+  | WebSocketErrorCode
+  | 'TIMEOUT'
+  | 'DISCONNECTED'
+  | 'HANDSHAKE_REJECTED';
+
+export class JsxToolClientError extends Error {
+  constructor (
+    public readonly code: JsxToolClientErrorCode,
+    message: string,
+    public readonly details?: SchemaIssue[]
+  ) {
+    super(message);
+    this.name = 'JsxToolClientError';
+  }
+}
+
+export type ServerPushEvent =
+  | TopicBroadcastEvent
+  | SearchStreamMatchesEvent
+  | SearchStreamProgressEvent
+  | { event_name: 'host_disconnected' }
+  | { event_name: 'key_ready' };
+
+export type JsxToolClientEventMap = {
+  [E in ServerPushEvent as E['event_name']]: E
+} & {
+  open: { capabilities: ServerCapabilities }
+  close: { code: number, reason: string }
+  reconnecting: { attempt: number, delayMs: number }
+};
+
+// Events the server answers; `open_element` and `open_file` are fire-and-forget
+export type RequestEventName = Extract<keyof RequestParamMap, keyof EventPayloadMap>;
+export type NotificationEventName = Exclude<keyof RequestParamMap, keyof EventPayloadMap>;
+
+export type BatchItem = {
+  [K in Exclude<keyof RequestParamMap, 'batch'>]: { event: K, params: RequestParamMap[K] }
+}[Exclude<keyof RequestParamMap, 'batch'>];
+
+export interface RequestOptions {
+  signal?: AbortSignal
+  timeoutMs?: number
+}
+
+export interface ClientSubscription {
+  id: string
+  topic: SubscriptionTopic
+  unsubscribe: () => Promise<void>
+}
+
+interface PendingRequest {
+  resolve: (payload: any) => void
+  reject: (error: Error) => void
+  onPush?: (event: ServerPushEvent) => void
+  dispose: () => void
+}
+
+interface PendingHandshake {
+  resolve: (capabilities: ServerCapabilities) => void
+  reject: (error: Error) => void
+}
+
+// A multiple of three bytes, so the base64 of consecutive chunks can simply be concatenated
+const TRANSFER_CHUNK_BYTES = 768 * 1024;
+
+function createNonce (): string {
+  const crypto = (globalThis as { crypto?: { randomUUID?: () => string } }).crypto;
+  if (crypto?.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}-${Math.random().toString(36).slice(2)}`;
+}
+
+export class JsxToolClient {
+  capabilities: ServerCapabilities | null = null;
+  serverVersion: string | null = null;
+
+  private socket: WebSocketLike | null = null;
+  private handshake: PendingHandshake | null = null;
+  private readonly pending = new Map<string, PendingRequest>();
+  private readonly listeners = new Map<string, Set<(event: any) => void>>();
+  private readonly subscriptions = new Map<string, { topic: SubscriptionTopic, filter?: SubscriptionFilter, serverId: string }>();
+  private readonly messageIdPrefix = createNonce().slice(0, 8);
+  private messageCounter = 0;
+  private hasConnected = false;
+  private closedByUser = false;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor (private readonly options: JsxToolClientOptions) {}
+
+  get isConnected (): boolean {
+    return this.socket !== null && this.socket.readyState === SOCKET_OPEN && this.capabilities !== null;
+  }
+
+  async connect (): Promise<ServerCapabilities> {
+    this.closedByUser = false;
+    const capabilities = await this.open();
+    this.hasConnected = true;
+    return capabilities;
+  }
+
+  close (): void {
+    this.closedByUser = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close();
+  }
+
+  on<E extends keyof JsxToolClientEventMap>(event: E, listener: (event: JsxToolClientEventMap[E]) => void): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => { this.off(event, listener); };
+  }
+
+  off<E extends keyof JsxToolClientEventMap>(event: E, listener: (event: JsxToolClientEventMap[E]) => void): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  async request<K extends RequestEventName>(
+    event: K,
+    params: RequestParamMap[K],
+    options: RequestOptions & { onPush?: (event: ServerPushEvent) => void } = {}
+  ): Promise<EventPayloadMap[K]> {
+    this.requireSocket();
+    const messageId = this.nextMessageId();
+
+    if (options.signal?.aborted) {
+      throw new JsxToolClientError('CANCELLED', 'Request was cancelled');
+    }
+
+    const message = JSON.stringify(await this.buildMessage(event, params, messageId));
+    // signing is async, so the connection may have closed or been replaced in the meantime
+    const socket = this.requireSocket();
+
+    return await new Promise<EventPayloadMap[K]>((resolve, reject) => {
+      const timeoutMs = options.timeoutMs ?? this.options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+      const timer = setTimeout(() => {
+        this.pending.get(messageId)?.dispose();
+        reject(new JsxToolClientError('TIMEOUT', `${event} timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+
+      const onAbort = (): void => {
+        this.pending.get(messageId)?.dispose();
+        reject(new JsxToolClientError('CANCELLED', 'Request was cancelled'));
+        if (this.isConnected) {
+          this.request('cancel_request', { message_id: messageId }).catch(() => { });
+        }
+      };
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.pending.set(messageId, {
+        resolve,
+        reject,
+        onPush: options.onPush,
+        dispose: () => {
+          clearTimeout(timer);
+          options.signal?.removeEventListener('abort', onAbort);
+          this.pending.delete(messageId);
+        }
+      });
+
+      socket.send(message);
+    });
+  }
+
+  async notify<K extends NotificationEventName>(event: K, params: RequestParamMap[K]): Promise<void> {
+    this.requireSocket();
+    const message = JSON.stringify(await this.buildMessage(event, params, this.nextMessageId()));
+    this.requireSocket().send(message);
+  }
+
+  // Signs each item individually; responses come back in the same order as `items`
+  async batch (
+    items: BatchItem[],
+    options: RequestOptions & { mode?: 'sequential' | 'parallel', stopOnError?: boolean } = {}
+  ): Promise<BatchItemResponse[]> {
+    const { mode, stopOnError, ...requestOptions } = options;
+    const requests = await Promise.all(
+      items.map(async (item) => await this.buildMessage(item.event, item.params, this.nextMessageId()))
+    ) as RequestParamMap['batch']['requests'];
+    const { responses } = await this.request('batch', { requests, mode, stopOnError }, requestOptions);
+    return responses;
+  }
+
+  async readFile (filePath: string, encoding?: BufferEncoding): Promise<ReadFileResult> {
+    return (await this.request('read_file', { filePath, encoding })).response;
+  }
+
+  // Pass the hash/mtime from readFile to get a CONFLICT result instead of overwriting newer edits
+  async writeFile (filePath: string, content: string, encoding?: BufferEncoding, expected: WriteExpectation = {}): Promise<WriteFileResult> {
+    return (await this.request('write_file', { filePath, content, encoding, ...expected })).response;
+  }
+
+  async applyTextEdits (filePath: string, edits: TextEdit[], expected: WriteExpectation = {}): Promise<WriteFileResult> {
+    return (await this.request('apply_text_edits', { filePath, edits, ...expected })).response;
+  }
+
+  async applyPatch (patch: string, fuzz?: number): Promise<ApplyPatchResult> {
+    return await this.request('apply_patch', { patch, fuzz });
+  }
+
+  // All operations commit together or not at all
+  async writeTransaction (operations: TransactionOperation[]): Promise<WriteTransactionResult> {
+    return await this.request('write_transaction', { operations });
+  }
+
+  async readFileChunk (filePath: string, offset: number, length?: number): Promise<ReadFileChunkResult> {
+    return await this.request('read_file_chunk', { filePath, offset, length });
+  }
+
+  async writeFileChunk (args: WriteFileChunkArgs): Promise<WriteFileChunkResult> {
+    return await this.request('write_file_chunk', args);
+  }
+
+  async abortUpload (uploadId: string): Promise<{ success: boolean, error?: string }> {
+    return await this.request('abort_upload', { uploadId });
+  }
+
+  // Downloads a file of any size as base64, failing if it changes between chunks
+  async readFileBase64 (filePath: string, chunkBytes: number = TRANSFER_CHUNK_BYTES): Promise<ReadFileChunkResult> {
+    const length = Math.max(3, chunkBytes - (chunkBytes % 3));
+    const first = await this.readFileChunk(filePath, 0, length);
+    let { data = '', bytesRead = 0, eof = true } = first;
+
+    while (first.success && !eof) {
+      const next = await this.readFileChunk(filePath, bytesRead, length);
+      if (!next.success) return next;
+      if (next.mtime !== first.mtime || next.bytesRead === 0) {
+        return { success: false, error: `File changed during download: ${filePath}` };
+      }
+      data += next.data ?? '';
+      bytesRead += next.bytesRead ?? 0;
+      eof = next.eof ?? true;
+    }
+
+    return first.success ? { ...first, data, bytesRead, eof } : first;
+  }
+
+  // Uploads base64 content in chunks; the file is only replaced once the last chunk has arrived
+  async uploadFile (
+    filePath: string,
+    base64: string,
+    expected: WriteExpectation = {},
+    chunkBytes: number = TRANSFER_CHUNK_BYTES
+  ): Promise<WriteFileChunkResult> {
+    const uploadId = createNonce();
+    const chunkChars = Math.max(1, Math.floor(chunkBytes / 3)) * 4;
+    let offset = 0;
+
+    for (let start = 0; ; start += chunkChars) {
+      const done = start + chunkChars >= base64.length;
+      const result = await this.writeFileChunk({
+        filePath,
+        uploadId,
+        offset,
+        data: base64.slice(start, start + chunkChars),
+        done,
+        ...expected
+      });
+      if (!result.success) {
+        await this.abortUpload(uploadId).catch(() => { });
+        return result;
+      }
+      if (done) {
+        return result;
+      }
+      offset = result.receivedBytes ?? 0;
+    }
+  }
+
+  async exists (filePath: string): Promise<ExistsResult> {
+    return (await this.request('exists', { filePath })).response;
+  }
+
+  async readFileRange (args: ReadFileRangeArgs): Promise<ReadFileRangeResult> {
+    return await this.request('read_file_range', args);
+  }
+
+  async stat (path: string): Promise<StatResult> {
+    return (await this.request('stat', { path })).response;
+  }
+
+  async statMany (paths: string[]): Promise<StatResult[]> {
+    return (await this.request('stat_many', { paths })).responses;
+  }
+
+  async ls (dirPath: string, options?: LsArgs['options']): Promise<LsResult> {
+    return (await this.request('ls', { dirPath, options })).response;
+  }
+
+  async rm (path: string): Promise<RmResult> {
+    return (await this.request('rm', { path })).response;
+  }
+
+  async mkdir (path: string): Promise<MkdirResult> {
+    return (await this.request('mkdir', { path })).response;
+  }
+
+  // Non-empty directories are only removed with both recursive and confirm set
+  async rmDir (path: string, recursive = false, confirm = false): Promise<RmDirResult> {
+    return (await this.request('rm_dir', { path, recursive, confirm })).response;
+  }
+
+  // newPath may be a bare name (renamed in place) or a path
+  async renameItem (sourcePath: string, newPath: string): Promise<RenameItemResult> {
+    return await this.request('rename_item', { sourcePath, newPath });
+  }
+
+  async copyItems (sourcePaths: string[], targetDirectory: string): Promise<CopyItemsResult> {
+    return await this.request('copy_items', { sourcePaths, targetDirectory });
+  }
+
+  async tree (filePath: string, respectIgnore?: boolean): Promise<TreeResult> {
+    return (await this.request('tree', { filePath, respectIgnore })).response;
+  }
+
+  async listFileHistory (filePath?: string, limit?: number): Promise<ListFileHistoryResult> {
+    return await this.request('list_file_history', { filePath, limit });
+  }
+
+  async readFileHistoryEntry (id: string, encoding?: BufferEncoding): Promise<ReadFileHistoryEntryResult> {
+    return await this.request('read_file_history_entry', { id, encoding });
+  }
+
+  async restoreFileHistoryEntry (id: string): Promise<RestoreFileHistoryResult> {
+    return await this.request('restore_file_history_entry', { id });
+  }
+
+  async undoLastChange (): Promise<RestoreFileHistoryResult> {
+    return await this.request('undo_last_change', {});
+  }
+
+  async gitDiff (filePath: string, staged?: boolean, contextLines?: number): Promise<GitDiffResult> {
+    return await this.request('git_diff', { filePath, staged, contextLines });
+  }
+
+  async gitStage (paths: string[]): Promise<GitPathsResult> {
+    return await this.request('git_stage', { paths });
+  }
+
+  async gitUnstage (paths: string[]): Promise<GitPathsResult> {
+    return await this.request('git_unstage', { paths });
+  }
+
+  async gitDiscard (paths: string[]): Promise<GitPathsResult> {
+    return await this.request('git_discard', { paths });
+  }
+
+  async gitCommit (message?: string, amend?: boolean): Promise<GitCommitResult> {
+    return await this.request('git_commit', { message, amend });
+  }
+
+  async gitShowFile (filePath: string, ref?: string, encoding?: BufferEncoding): Promise<GitShowFileResult> {
+    return await this.request('git_show_file', { filePath, ref, encoding });
+  }
+
+  async gitLogFile (filePath: string, limit?: number): Promise<GitLogFileResult> {
+    return await this.request('git_log_file', { filePath, limit });
+  }
+
+  async gitBlame (filePath: string, startLine?: number, endLine?: number): Promise<GitBlameResult> {
+    return await this.request('git_blame', { filePath, startLine, endLine });
+  }
+
+  async getConflicts (filePath?: string): Promise<GetConflictsResult> {
+    return await this.request('get_conflicts', { filePath });
+  }
+
+  async resolveConflict (filePath: string, regionIndex: number, resolution: ConflictChoice | { customText: string }): Promise<ResolveConflictResult> {
+    return await this.request('resolve_conflict', typeof resolution === 'string'
+      ? { filePath, regionIndex, choice: resolution }
+      : { filePath, regionIndex, customText: resolution.customText });
+  }
+
+  async search (pattern: string, options?: RipGrepSearchOptions, requestOptions?: RequestOptions): Promise<RipGrepSearchResult> {
+    return await this.request('search', { pattern, options }, requestOptions);
+  }
+
+  async searchStream (
+    pattern: string,
+    handlers: {
+      onMatches: (event: SearchStreamMatchesEvent) => void
+      onProgress?: (event: SearchStreamProgressEvent) => void
+    },
+    options: RequestOptions & { searchOptions?: RipGrepSearchOptions, batchSize?: number } = {}
+  ): Promise<RipGrepStreamSummary> {
+    const { searchOptions, batchSize, ...requestOptions } = options;
+    return await this.request('search_stream', { pattern, options: searchOptions, batchSize }, {
+      ...requestOptions,
+      onPush: (event) => {
+        if (event.event_name === 'search_stream_matches') handlers.onMatches(event);
+        if (event.event_name === 'search_stream_progress') handlers.onProgress?.(event);
+      }
+    });
+  }
+
+  async getCapabilities (): Promise<ServerCapabilities> {
+    return await this.request('get_capabilities', {});
+  }
+
+  async getConnectionHealth (): Promise<EventPayloadMap['get_connection_health']> {
+    return await this.request('get_connection_health', {});
+  }
+
+  // Subscriptions are restored automatically after a reconnect
+  async subscribe (topic: SubscriptionTopic, filter?: SubscriptionFilter): Promise<ClientSubscription> {
+    const { subscription_id: serverId } = await this.request('subscribe', { topic, filter });
+    const id = `${this.messageIdPrefix}-sub-${++this.messageCounter}`;
+    this.subscriptions.set(id, { topic, filter, serverId });
+
+    return {
+      id,
+      topic,
+      unsubscribe: async () => {
+        const subscription = this.subscriptions.get(id);
+        this.subscriptions.delete(id);
+        if (subscription && this.isConnected) {
+          await this.request('unsubscribe', { subscription_id: subscription.serverId });
+        }
+      }
+    };
+  }
+
+  private async open (): Promise<ServerCapabilities> {
+    const Socket = this.options.WebSocket ?? (globalThis as { WebSocket?: WebSocketConstructor }).WebSocket;
+    if (!Socket) {
+      throw new Error('No WebSocket implementation available; pass one via the WebSocket option');
+    }
+
+    const socket = new Socket(this.options.url);
+    this.socket = socket;
+
+    return await new Promise<ServerCapabilities>((resolve, reject) => {
+      this.handshake = { resolve, reject };
+
+      socket.onopen = () => {
+        const handshake: HandshakeMessage = {
+          event_name: 'handshake',
+          protocol_version: PROTOCOL_VERSION,
+          client_version: this.options.clientVersion
+        };
+        socket.send(JSON.stringify(handshake));
+      };
+      socket.onmessage = (event: { data: unknown }) => {
+        this.handleMessage(String(event.data));
+      };
+      socket.onclose = (event: { code?: number, reason?: string }) => {
+        this.handleClose(socket, event.code ?? 1006, event.reason ?? '');
+      };
+      socket.onerror = () => {
+        // a close event always follows
+      };
+    });
+  }
+
+  private handleMessage (raw: string): void {
+    let message: any;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return;
+    }
+
+    if (message.event_name === 'handshake_ack') {
+      const ack = message as HandshakeAckMessage;
+      this.capabilities = ack.capabilities;
+      this.serverVersion = ack.server_version;
+      this.handshake?.resolve(ack.capabilities);
+      this.handshake = null;
+      this.emit('open', { capabilities: ack.capabilities });
+      return;
+    }
+
+    if (message.event_name === 'handshake_rejected') {
+      const rejection = message as HandshakeRejectedMessage;
+      this.closedByUser = true;
+      this.handshake?.reject(new JsxToolClientError('HANDSHAKE_REJECTED', rejection.reason));
+      this.handshake = null;
+      return;
+    }
+
+    if (typeof message.event_response === 'string') {
+      const response = message as WebSocketResponseEvent<RequestEventName> | WebSocketErrorResponseEvent;
+      const pending = this.pending.get(response.message_id);
+      if (!pending) return;
+
+      pending.dispose();
+      if ('error' in response) {
+        pending.reject(new JsxToolClientError(response.error.code, response.error.message, response.error.details));
+      } else {
+        pending.resolve(response.payload);
+      }
+      return;
+    }
+
+    if (typeof message.event_name === 'string') {
+      const event = message as ServerPushEvent;
+      if ('message_id' in event) {
+        this.pending.get(event.message_id)?.onPush?.(event);
+      }
+      this.emit(event.event_name, event);
+    }
+  }
+
+  private handleClose (socket: WebSocketLike, code: number, reason: string): void {
+    if (socket !== this.socket) return;
+
+    this.socket = null;
+    this.capabilities = null;
+
+    const error = new JsxToolClientError('DISCONNECTED', `Connection closed (${code}${reason ? `: ${reason}` : ''})`);
+    this.handshake?.reject(error);
+    this.handshake = null;
+    for (const pending of Array.from(this.pending.values())) {
+      pending.dispose();
+      pending.reject(error);
+    }
+
+    this.emit('close', { code, reason });
+
+    if (!this.closedByUser && this.hasConnected && this.options.reconnect !== false) {
+      this.scheduleReconnect();
+    }
+  }
+
+  private scheduleReconnect (): void {
+    const settings = { ...DEFAULT_RECONNECT, ...(typeof this.options.reconnect === 'object' ? this.options.reconnect : {}) };
+    if (this.reconnectAttempt >= settings.maxAttempts) return;
+
+    const attempt = ++this.reconnectAttempt;
+    const delayMs = Math.min(settings.initialDelayMs * 2 ** (attempt - 1), settings.maxDelayMs);
+    this.emit('reconnecting', { attempt, delayMs });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open()
+        .then(async () => {
+          this.reconnectAttempt = 0;
+          await this.restoreSubscriptions();
+        })
+        .catch(() => {
+          // handleClose schedules the next attempt
+        });
+    }, delayMs);
+  }
+
+  private async restoreSubscriptions (): Promise<void> {
+    for (const subscription of Array.from(this.subscriptions.values())) {
+      const { subscription_id: serverId } = await this.request('subscribe', {
+        topic: subscription.topic,
+        filter: subscription.filter
+      });
+      subscription.serverId = serverId;
+    }
+  }
+
+  private emit (event: string, payload: unknown): void {
+    this.listeners.get(event)?.forEach(listener => { listener(payload); });
+  }
+
+  private requireSocket (): WebSocketLike {
+    if (!this.socket || this.socket.readyState !== SOCKET_OPEN) {
+      throw new JsxToolClientError('DISCONNECTED', 'Client is not connected');
+    }
+    return this.socket;
+  }
+
+  private nextMessageId (): string {
+    return `${this.messageIdPrefix}-${++this.messageCounter}`;
+  }
+
+  private async buildMessage<K extends keyof RequestParamMap>(
+    eventName: K,
+    params: RequestParamMap[K],
+    messageId: string
+  ): Promise<WebSocketInboundRequest<K>> {
+    const payload: SignedRequestPayload = {
+      event_name: eventName,
+      params,
+      message_id: messageId,
+      nonce: createNonce(),
+      timestamp: Date.now()
+    };
+    const signature = this.options.sign
+      ? await this.options.sign(payload, JSON.stringify(payload))
+      : 'unsigned';
+
+    return { ...payload, event_name: eventName, params, signature };
+  }
+}
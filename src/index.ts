@@ -11,6 +11,7 @@ import { resolve, join } from 'path';
 import { existsSync, mkdirSync, writeFileSync } from 'fs';
 import { input, confirm } from '@inquirer/prompts';
 import { LocalKeyService } from './services/local-key.service';
+import { buildRequestJsonSchema } from './services/request-param-schemas';
 
 async function main () {
   const program = new Command();
@@ -448,6 +449,20 @@ async function main () {
       }
     });
 
+  program
+    .command('schema')
+    .description('Print the JSON Schema for WebSocket request params')
+    .option('-o, --output <path>', 'write the schema to a file instead of stdout')
+    .action((options) => {
+      const schema = JSON.stringify(buildRequestJsonSchema(), null, 2);
+      if (options.output) {
+        writeFileSync(resolve(options.output as string), schema + '\n');
+        console.log(pc.green(`Schema written to ${resolve(options.output as string)}`));
+        return;
+      }
+      console.log(schema);
+    });
+
   program
     .command('init')
     .description('Initialize jsx-tool configuration')
@@ -0,0 +1,10 @@
+// Version of the WebSocket protocol spoken between the dev server and its clients.
+// Bump when request params, payloads or push events change shape.
+export const PROTOCOL_VERSION = 2;
+
+// Oldest client protocol version the dev server still accepts during the handshake.
+export const MIN_CLIENT_PROTOCOL_VERSION = 1;
+
+// From this version on, clients sign {event_name, params, message_id, nonce, timestamp}
+// (in that key order) so the server can reject replayed and stale messages.
+export const REPLAY_PROTECTED_PROTOCOL_VERSION = 2;
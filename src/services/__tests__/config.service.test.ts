@@ -32,6 +32,7 @@ describe('ConfigService', () => {
     const content = readFileSync(gitignorePath, 'utf8');
     expect(content).toContain('host-keys');
     expect(content).toContain('terminal-secret');
+    expect(content).toContain('history');
   });
 
   it('should append required entries to existing .gitignore', () => {
@@ -87,6 +87,37 @@ describe('DiagnosticCheckerService', () => {
       });
     });
 
+    it('should stop checking once the signal is aborted', async () => {
+      const controller = new AbortController();
+      mockLspService.handleRequest.mockImplementation(async () => {
+        controller.abort();
+        return { success: true, data: [] } as DiagnosticResponse;
+      });
+
+      const result = await service.checkFiles(
+        ['/path/to/file1.ts', '/path/to/file2.ts'],
+        controller.signal
+      );
+
+      expect(mockLspService.handleRequest).toHaveBeenCalledTimes(1);
+      expect(result.files).toHaveLength(1);
+    });
+
+    it('should skip the remaining files when a cancel arrives while one is being checked', async () => {
+      const controller = new AbortController();
+      mockLspService.handleRequest.mockImplementation(async () => {
+        setImmediate(() => { controller.abort(); });
+        return { success: true, data: [] } as DiagnosticResponse;
+      });
+
+      await service.checkFiles(
+        ['/path/to/file1.ts', '/path/to/file2.ts', '/path/to/file3.ts'],
+        controller.signal
+      );
+
+      expect(mockLspService.handleRequest).toHaveBeenCalledTimes(1);
+    });
+
     it('should count errors correctly', async () => {
       const mockDiagnostics: Diagnostic[] = [
         createMockDiagnostic(DiagnosticSeverity.Error, 'Type error', 10, 5),
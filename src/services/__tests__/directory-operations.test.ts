@@ -0,0 +1,185 @@
+import 'reflect-metadata';
+import { container } from 'tsyringe';
+import { join } from 'path';
+import { existsSync, lstatSync, mkdirSync, readFileSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { FileSystemApiService } from '../file-system-api.service';
+import { ConfigService } from '../config.service';
+import { Logger } from '../logger.service';
+
+describe('FileSystemApiService directory operations', () => {
+  const testDir = join(__dirname, 'test-directory-operations');
+  const outsideDir = join(__dirname, 'test-directory-operations-outside');
+  const src = (...parts: string[]) => join(testDir, 'src', ...parts);
+  let fileSystemApi: FileSystemApiService;
+  let listener: jest.Mock;
+  let config: ConfigService;
+
+  beforeEach(() => {
+    container.clearInstances();
+    rmSync(testDir, { recursive: true, force: true });
+    rmSync(outsideDir, { recursive: true, force: true });
+    mkdirSync(src('components'), { recursive: true });
+    mkdirSync(outsideDir);
+    writeFileSync(join(outsideDir, 'secret.ts'), 'secret', 'utf8');
+    writeFileSync(src('app.ts'), 'app', 'utf8');
+    writeFileSync(src('components', 'button.tsx'), 'button', 'utf8');
+
+    const logger = new Logger();
+    logger.setSilence(true);
+    container.registerInstance(Logger, logger);
+
+    config = container.resolve(ConfigService);
+    config.setWorkingDirectory(testDir);
+    fileSystemApi = container.resolve(FileSystemApiService);
+    listener = jest.fn();
+    fileSystemApi.setListener(listener);
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+    rmSync(outsideDir, { recursive: true, force: true });
+  });
+
+  describe('mkdir', () => {
+    it('creates nested directories and reports them', () => {
+      expect(fileSystemApi.mkdir(src('a', 'b'))).toEqual({ success: true, path: src('a', 'b') });
+      expect(existsSync(src('a', 'b'))).toBe(true);
+      expect(listener).toHaveBeenCalledWith([{ type: 'added', absolutePath: src('a', 'b') }]);
+    });
+
+    it('succeeds for an existing directory and fails for an existing file', () => {
+      expect(fileSystemApi.mkdir(src('components')).success).toBe(true);
+      expect(fileSystemApi.mkdir(src('app.ts')).error).toContain('A file already exists');
+    });
+
+    it('rejects directories outside the project', () => {
+      expect(fileSystemApi.mkdir(join(testDir, '..', 'outside-directory-operations')).success).toBe(false);
+    });
+  });
+
+  describe('rmDir', () => {
+    it('removes an empty directory without flags', () => {
+      mkdirSync(src('empty'));
+      expect(fileSystemApi.rmDir(src('empty')).success).toBe(true);
+      expect(existsSync(src('empty'))).toBe(false);
+    });
+
+    it('requires recursive and confirm for a non-empty directory', () => {
+      expect(fileSystemApi.rmDir(src('components')).error).toContain('not empty');
+      expect(fileSystemApi.rmDir(src('components'), true).error).toContain('confirm');
+      expect(existsSync(src('components', 'button.tsx'))).toBe(true);
+
+      const result = fileSystemApi.rmDir(src('components'), true, true);
+      expect(result).toEqual({ success: true, removedPaths: [src('components', 'button.tsx')] });
+      expect(existsSync(src('components'))).toBe(false);
+      expect(listener).toHaveBeenCalledWith([
+        { type: 'removed', absolutePath: src('components', 'button.tsx') },
+        { type: 'removed', absolutePath: src('components') }
+      ]);
+    });
+
+    it('unlinks links inside the directory without touching what they point at', () => {
+      symlinkSync(outsideDir, src('components', 'outside'));
+
+      const result = fileSystemApi.rmDir(src('components'), true, true);
+      expect(result).toEqual({ success: true, removedPaths: [src('components', 'button.tsx'), src('components', 'outside')] });
+      expect(existsSync(src('components'))).toBe(false);
+      expect(readFileSync(join(outsideDir, 'secret.ts'), 'utf8')).toBe('secret');
+    });
+
+    it('refuses to remove a link to a directory', () => {
+      symlinkSync(src('components'), src('linked'));
+      expect(fileSystemApi.rmDir(src('linked'), true, true).error).toContain('not a directory');
+      expect(existsSync(src('components', 'button.tsx'))).toBe(true);
+    });
+
+    it('refuses to remove the project root or a directory containing it', () => {
+      expect(fileSystemApi.rmDir(testDir, true, true).success).toBe(false);
+      expect(existsSync(src('app.ts'))).toBe(true);
+    });
+  });
+
+  describe('renameItem', () => {
+    it('renames in place when given a bare name', () => {
+      const result = fileSystemApi.renameItem(src('app.ts'), 'main.ts');
+      expect(result).toEqual({ success: true, from: src('app.ts'), to: src('main.ts') });
+      expect(readFileSync(src('main.ts'), 'utf8')).toBe('app');
+      expect(listener).toHaveBeenCalledWith([
+        { type: 'removed', absolutePath: src('app.ts') },
+        { type: 'added', absolutePath: src('main.ts') }
+      ]);
+    });
+
+    it('moves a directory to a new path', () => {
+      expect(fileSystemApi.renameItem(src('components'), src('ui', 'widgets')).success).toBe(true);
+      expect(readFileSync(src('ui', 'widgets', 'button.tsx'), 'utf8')).toBe('button');
+    });
+
+    it('rejects existing targets, disallowed extensions and moves into itself', () => {
+      writeFileSync(src('main.ts'), 'main', 'utf8');
+      expect(fileSystemApi.renameItem(src('app.ts'), 'main.ts').error).toContain('Target already exists');
+      expect(fileSystemApi.renameItem(src('app.ts'), 'app.exe').error).toContain("File type '.exe' is not allowed");
+      expect(fileSystemApi.renameItem(src('components'), src('components', 'nested')).error).toContain('into itself');
+    });
+    it('refuses to move the .jsxtool directory or a project root', () => {
+      mkdirSync(join(testDir, '.jsxtool'));
+      writeFileSync(join(testDir, '.jsxtool', 'terminal-secret'), 'secret', 'utf8');
+      mkdirSync(join(testDir, 'shared'));
+      config.setFromCliOptions({ additionalDirectories: [join(testDir, 'shared')] });
+
+      expect(fileSystemApi.renameItem(join(testDir, '.jsxtool'), src('stolen')).error).toContain('.jsxtool directory');
+      expect(fileSystemApi.renameItem(join(testDir, 'shared'), src('shared')).success).toBe(false);
+      expect(fileSystemApi.moveItems([join(testDir, '.jsxtool')], src()).success).toBe(false);
+      expect(readFileSync(join(testDir, '.jsxtool', 'terminal-secret'), 'utf8')).toBe('secret');
+      expect(existsSync(join(testDir, 'shared'))).toBe(true);
+    });
+  });
+
+  describe('copyItems', () => {
+    it('copies files and directories, numbering clashing names', () => {
+      const first = fileSystemApi.copyItems([src('app.ts'), src('components')], src());
+      expect(first.copiedPaths).toEqual([
+        { from: src('app.ts'), to: src('app copy.ts') },
+        { from: src('components'), to: src('components copy') }
+      ]);
+      expect(fileSystemApi.copyItems([src('app.ts')], src()).copiedPaths?.[0].to).toBe(src('app copy 2.ts'));
+      expect(readFileSync(src('components copy', 'button.tsx'), 'utf8')).toBe('button');
+      expect(listener).toHaveBeenCalledWith([
+        { type: 'added', absolutePath: src('app copy.ts') },
+        { type: 'added', absolutePath: src('components copy', 'button.tsx') }
+      ]);
+    });
+
+    it('reports missing sources without stopping other copies', () => {
+      mkdirSync(src('target'));
+      const result = fileSystemApi.copyItems([src('missing.ts'), src('app.ts')], src('target'));
+      expect(result.success).toBe(false);
+      expect(result.errors?.[0]).toContain('Source not found');
+      expect(existsSync(src('target', 'app.ts'))).toBe(true);
+    });
+
+    it('skips links that point outside the project', () => {
+      symlinkSync(outsideDir, src('components', 'outside'));
+      symlinkSync(join(outsideDir, 'secret.ts'), src('components', 'secret.ts'));
+
+      expect(fileSystemApi.copyItems([src('components')], src()).success).toBe(true);
+      expect(readFileSync(src('components copy', 'button.tsx'), 'utf8')).toBe('button');
+      expect(lstatSync(src('components copy', 'outside'), { throwIfNoEntry: false })).toBeUndefined();
+      expect(lstatSync(src('components copy', 'secret.ts'), { throwIfNoEntry: false })).toBeUndefined();
+    });
+
+    it('refuses to copy the .jsxtool directory or a directory containing a project root', () => {
+      mkdirSync(join(testDir, '.jsxtool'));
+      writeFileSync(join(testDir, '.jsxtool', 'terminal-secret'), 'secret', 'utf8');
+
+      const result = fileSystemApi.copyItems([join(testDir, '.jsxtool'), testDir], src());
+      expect(result.success).toBe(false);
+      expect(result.errors).toHaveLength(2);
+      expect(existsSync(src('.jsxtool'))).toBe(false);
+    });
+
+    it('rejects copying a directory into itself', () => {
+      expect(fileSystemApi.copyItems([src('components')], src('components')).errors?.[0]).toContain('into itself');
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import 'reflect-metadata';
+import { container } from 'tsyringe';
+import { join } from 'path';
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { FileSystemApiService } from '../file-system-api.service';
+import { ConfigService } from '../config.service';
+import { Logger } from '../logger.service';
+
+describe('File access policy', () => {
+  const testDir = join(__dirname, 'test-file-access-policy');
+  const file = (...parts: string[]) => join(testDir, ...parts);
+  let config: ConfigService;
+  let fileSystemApi: FileSystemApiService;
+
+  beforeEach(() => {
+    container.clearInstances();
+    rmSync(testDir, { recursive: true, force: true });
+    mkdirSync(file('src'), { recursive: true });
+    mkdirSync(file('certs'), { recursive: true });
+    writeFileSync(file('package.json'), '{}', 'utf8');
+    writeFileSync(file('src', 'App.vue'), '<template />', 'utf8');
+    writeFileSync(file('src', 'schema.prisma'), 'model User {}', 'utf8');
+    writeFileSync(file('src', 'tool.exe'), 'binary', 'utf8');
+    writeFileSync(file('.env'), 'SECRET=1', 'utf8');
+    writeFileSync(file('.env.example'), 'SECRET=', 'utf8');
+    writeFileSync(file('certs', 'server.pem'), 'key', 'utf8');
+    writeFileSync(file('.gitignore'), 'dist', 'utf8');
+
+    const logger = new Logger();
+    logger.setSilence(true);
+    container.registerInstance(Logger, logger);
+
+    config = container.resolve(ConfigService);
+    config.setWorkingDirectory(testDir);
+    fileSystemApi = container.resolve(FileSystemApiService);
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('allows framework files and denies secrets by default', () => {
+    expect(fileSystemApi.readFile(file('src', 'App.vue')).success).toBe(true);
+    expect(fileSystemApi.readFile(file('src', 'schema.prisma')).success).toBe(true);
+    expect(fileSystemApi.readFile(file('.gitignore')).success).toBe(true);
+    expect(fileSystemApi.readFile(file('src', 'tool.exe')).error).toContain("File type '.exe' is not allowed");
+    expect(fileSystemApi.readFile(file('.env')).error).toContain("denied by the file access rule '.env*'");
+    expect(fileSystemApi.writeToFile(file('certs', 'server.pem'), 'x').error).toContain("'*.pem'");
+  });
+
+  it('keeps denied files out of ls and tree', () => {
+    const listed = fileSystemApi.ls(testDir, { recursive: true }).files?.map(entry => entry.path);
+    expect(listed).toEqual(expect.arrayContaining([file('src', 'App.vue'), file('.gitignore')]));
+    expect(listed).not.toContain(file('.env'));
+    expect(listed).not.toContain(file('certs', 'server.pem'));
+
+    const tree = fileSystemApi.tree(testDir).files;
+    expect(tree).toContain(file('src', 'schema.prisma'));
+    expect(tree).not.toContain(file('.env'));
+    expect(tree).not.toContain(file('src', 'tool.exe'));
+  });
+
+  it('does not copy denied files along with a directory', () => {
+    writeFileSync(file('src', '.env.local'), 'SECRET=2', 'utf8');
+    expect(fileSystemApi.copyItems([file('src')], file('certs')).success).toBe(true);
+    expect(existsSync(file('certs', 'src', 'App.vue'))).toBe(true);
+    expect(existsSync(file('certs', 'src', '.env.local'))).toBe(false);
+  });
+
+  it('applies configured deny rules first and lets configured allow rules override the defaults', () => {
+    config.setFromCliOptions({ fileAccess: { allow: ['.env.example', '*.exe'], deny: ['src/*.vue'] } });
+
+    expect(fileSystemApi.isFileAccessAllowed(file('.env.example'))).toBe(true);
+    expect(fileSystemApi.isFileAccessAllowed(file('src', 'tool.exe'))).toBe(true);
+    expect(fileSystemApi.isFileAccessAllowed(file('.env'))).toBe(false);
+    expect(fileSystemApi.readFile(file('src', 'App.vue')).error).toContain("'src/*.vue'");
+  });
+
+  it('matches rules case-insensitively', () => {
+    writeFileSync(file('KEYS.PEM'), 'key', 'utf8');
+    expect(fileSystemApi.isFileAccessAllowed(file('KEYS.PEM'))).toBe(false);
+    expect(fileSystemApi.isFileAccessAllowed(file('src', 'Logo.SVG'))).toBe(true);
+  });
+
+  it('rejects malformed rules during validation', () => {
+    config.setFromCliOptions({ fileAccess: { deny: '.env' as unknown as string[] } });
+    expect(config.validate().errors).toContain('fileAccess.allow and fileAccess.deny must be arrays of glob strings');
+  });
+});
@@ -0,0 +1,179 @@
+import 'reflect-metadata';
+import { container } from 'tsyringe';
+import { join } from 'path';
+import { existsSync, mkdirSync, readFileSync, readdirSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { FileHistoryService } from '../file-history.service';
+import { FileSystemApiService } from '../file-system-api.service';
+import { ConfigService } from '../config.service';
+import { PathResolverService } from '../path-resolver.service';
+import { Logger } from '../logger.service';
+
+describe('FileHistoryService', () => {
+  const testDir = join(__dirname, 'test-file-history');
+  const filePath = join(testDir, 'src', 'app.ts');
+  let config: ConfigService;
+  let logger: Logger;
+  let fileSystemApi: FileSystemApiService;
+  let history: FileHistoryService;
+
+  const write = (content: string, changeId: string, target = filePath) => {
+    const snapshot = history.capture(target);
+    expect(fileSystemApi.writeToFile(target, content).success).toBe(true);
+    history.record('write_file', changeId, [snapshot]);
+  };
+
+  beforeEach(() => {
+    container.clearInstances();
+    rmSync(testDir, { recursive: true, force: true });
+    mkdirSync(join(testDir, 'src'), { recursive: true });
+    mkdirSync(join(testDir, 'lib'), { recursive: true });
+    writeFileSync(filePath, 'v1', 'utf8');
+
+    logger = new Logger();
+    logger.setSilence(true);
+    container.registerInstance(Logger, logger);
+
+    config = container.resolve(ConfigService);
+    config.setWorkingDirectory(testDir);
+    fileSystemApi = container.resolve(FileSystemApiService);
+    history = container.resolve(FileHistoryService);
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('records the previous content of each write and lists newest first', () => {
+    write('v2', 'change-1');
+    write('v3', 'change-2');
+
+    const { entries } = history.list(filePath);
+    expect(entries.map(entry => entry.changeId)).toEqual(['change-2', 'change-1']);
+    expect(history.read(entries[0].id).content).toBe('v2');
+    expect(history.read(entries[1].id)).toMatchObject({ success: true, content: 'v1', entry: { event: 'write_file', existed: true } });
+  });
+
+  it('persists the index under .jsxtool/history', () => {
+    write('v2', 'change-1');
+
+    const reloaded = new FileHistoryService(config, logger, fileSystemApi, container.resolve(PathResolverService));
+    expect(reloaded.list().entries).toHaveLength(1);
+    expect(existsSync(join(testDir, '.jsxtool', 'history', 'index.json'))).toBe(true);
+    expect(readFileSync(join(testDir, '.jsxtool', '.gitignore'), 'utf8')).toContain('history');
+  });
+
+  it('restores an entry and records the restore so it can be reverted', () => {
+    write('v2', 'change-1');
+    const [entry] = history.list(filePath).entries;
+
+    expect(history.restore(entry.id, 'restore-1')).toMatchObject({ success: true, restoredPaths: [filePath] });
+    expect(readFileSync(filePath, 'utf8')).toBe('v1');
+
+    const [restoreEntry] = history.list(filePath).entries;
+    expect(restoreEntry).toMatchObject({ event: 'restore_file_history_entry', changeId: 'restore-1' });
+    expect(history.read(restoreEntry.id).content).toBe('v2');
+  });
+
+  it('undoes every file of the last change, then the change before it', () => {
+    const otherPath = join(testDir, 'src', 'new.ts');
+    write('v2', 'change-1');
+    const snapshots = [history.capture(filePath), history.capture(otherPath)];
+    fileSystemApi.writeToFile(filePath, 'v3');
+    fileSystemApi.writeToFile(otherPath, 'created');
+    history.record('write_file_many', 'bulk', snapshots);
+
+    expect(history.undoLastChange('undo-1')).toMatchObject({ success: true, changeId: 'bulk' });
+    expect(readFileSync(filePath, 'utf8')).toBe('v2');
+    expect(existsSync(otherPath)).toBe(false);
+
+    expect(history.undoLastChange('undo-2')).toMatchObject({ success: true, changeId: 'change-1' });
+    expect(readFileSync(filePath, 'utf8')).toBe('v1');
+
+    expect(history.undoLastChange('undo-3')).toEqual({ success: false, errors: ['Nothing to undo'] });
+  });
+
+  it('undoes moves by moving the item back', () => {
+    const result = fileSystemApi.moveItems([filePath], join(testDir, 'lib'));
+    history.recordMoves('move_items', 'move-1', result.movedPaths ?? []);
+
+    expect(history.list(join(testDir, 'lib', 'app.ts')).entries).toHaveLength(1);
+    expect(history.undoLastChange('undo-1').success).toBe(true);
+    expect(readFileSync(filePath, 'utf8')).toBe('v1');
+  });
+
+  it('undoes a recursive directory removal and a copy', () => {
+    writeFileSync(join(testDir, 'src', 'util.ts'), 'util', 'utf8');
+    const snapshots = history.captureDirectory(join(testDir, 'src'));
+    expect(fileSystemApi.rmDir(join(testDir, 'src'), true, true).success).toBe(true);
+    history.record('rm_dir', 'rm-1', snapshots);
+
+    const copied = fileSystemApi.copyItems([join(testDir, 'lib')], testDir);
+    history.record('copy_items', 'copy-1', (copied.copiedPaths ?? []).map(({ to }) => ({ filePath: to, existed: false })));
+    expect(existsSync(join(testDir, 'lib copy'))).toBe(true);
+
+    expect(history.undoLastChange('undo-1').success).toBe(true);
+    expect(existsSync(join(testDir, 'lib copy'))).toBe(false);
+    expect(history.undoLastChange('undo-2').success).toBe(true);
+    expect(readFileSync(filePath, 'utf8')).toBe('v1');
+    expect(readFileSync(join(testDir, 'src', 'util.ts'), 'utf8')).toBe('util');
+  });
+
+  it('only snapshots project files the access rules allow', () => {
+    mkdirSync(join(testDir, 'src', 'node_modules', 'pkg'), { recursive: true });
+    writeFileSync(join(testDir, 'src', 'node_modules', 'pkg', 'index.js'), 'pkg', 'utf8');
+    mkdirSync(join(testDir, 'src', '.git'));
+    writeFileSync(join(testDir, 'src', '.git', 'HEAD'), 'ref', 'utf8');
+    writeFileSync(join(testDir, 'src', '.env'), 'SECRET=1', 'utf8');
+    symlinkSync(join(testDir, 'missing'), join(testDir, 'src', 'dangling'));
+
+    expect(history.captureDirectory(join(testDir, 'src')).map(snapshot => snapshot.filePath)).toEqual([filePath]);
+    expect(history.captureDirectory(join(testDir, '..'))).toEqual([]);
+    expect(history.capture(join(testDir, 'src', '.env'))).toBeNull();
+  });
+
+  it('refuses to read an entry once the access rules deny its file', () => {
+    write('v2', 'change-1');
+    config.setFromCliOptions({ fileAccess: { deny: ['src/app.ts'] } });
+
+    const [entry] = history.list(filePath).entries;
+    expect(history.read(entry.id)).toMatchObject({ success: false });
+  });
+
+  it('keeps requests from rewriting the history it restores from', () => {
+    write('v2', 'change-1');
+    const indexPath = join(testDir, '.jsxtool', 'history', 'index.json');
+    const before = readFileSync(indexPath, 'utf8');
+
+    expect(fileSystemApi.writeToFile(indexPath, '{"version":1,"entries":[]}').success).toBe(false);
+    expect(fileSystemApi.readFile(indexPath).success).toBe(false);
+    expect(fileSystemApi.rm(indexPath).success).toBe(false);
+    expect(readFileSync(indexPath, 'utf8')).toBe(before);
+  });
+
+  it('drops the oldest entries beyond the size limit and deletes their content', () => {
+    config.setFromCliOptions({ historyMaxBytes: 5 });
+    write('v2', 'change-1');
+    write('v3', 'change-2');
+    write('v4', 'change-3');
+
+    expect(history.list().entries.map(entry => entry.changeId)).toEqual(['change-3', 'change-2']);
+    expect(readdirSync(join(testDir, '.jsxtool', 'history', 'blobs'))).toHaveLength(2);
+  });
+
+  it('drops entries older than the age limit', () => {
+    write('v2', 'change-1');
+    config.setFromCliOptions({ historyMaxAgeMs: 0 });
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 1);
+    write('v3', 'change-2');
+    jest.restoreAllMocks();
+
+    expect(history.list().entries.map(entry => entry.changeId)).toEqual(['change-2']);
+  });
+
+  it('records nothing when history is disabled', () => {
+    config.setFromCliOptions({ historyMaxBytes: 0 });
+    expect(history.capture(filePath)).toBeNull();
+    history.recordMoves('move_items', 'move-1', [{ from: filePath, to: join(testDir, 'lib', 'app.ts') }]);
+    expect(history.list().entries).toHaveLength(0);
+  });
+});
@@ -0,0 +1,138 @@
+import 'reflect-metadata';
+import { container } from 'tsyringe';
+import { join } from 'path';
+import { mkdirSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { FileSystemApiService, MAX_RANGE_BYTES, hashContent } from '../file-system-api.service';
+import { ConfigService } from '../config.service';
+import { Logger } from '../logger.service';
+
+describe('FileSystemApiService ranged reads and stat', () => {
+  const testDir = join(__dirname, 'test-file-range');
+  const file = (name: string) => join(testDir, 'src', name);
+  let fileSystemApi: FileSystemApiService;
+
+  beforeEach(() => {
+    container.clearInstances();
+    rmSync(testDir, { recursive: true, force: true });
+    mkdirSync(join(testDir, 'src'), { recursive: true });
+
+    const logger = new Logger();
+    logger.setSilence(true);
+    container.registerInstance(Logger, logger);
+
+    container.resolve(ConfigService).setWorkingDirectory(testDir);
+    fileSystemApi = container.resolve(FileSystemApiService);
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('readFileRange', () => {
+    const content = 'line 1\nline 2\nline 3\nline 4';
+
+    beforeEach(() => {
+      writeFileSync(file('notes.txt'), content);
+    });
+
+    it('reads an inclusive line range with totals', () => {
+      expect(fileSystemApi.readFileRange({ filePath: file('notes.txt'), startLine: 2, endLine: 3 })).toEqual({
+        success: true,
+        data: 'line 2\nline 3\n',
+        startByte: 7,
+        endByte: 21,
+        startLine: 2,
+        endLine: 3,
+        totalSize: content.length,
+        totalLines: 4,
+        mtime: expect.any(Number),
+        eof: false
+      });
+    });
+
+    it('clamps line ranges past the end of the file', () => {
+      const result = fileSystemApi.readFileRange({ filePath: file('notes.txt'), startLine: 4, endLine: 100 });
+
+      expect(result).toMatchObject({ success: true, data: 'line 4', startLine: 4, endLine: 4, eof: true });
+    });
+
+    it('reads a byte range', () => {
+      const result = fileSystemApi.readFileRange({ filePath: file('notes.txt'), byteOffset: 7, byteLength: 6 });
+
+      expect(result).toMatchObject({ success: true, data: 'line 2', startByte: 7, endByte: 13, totalLines: 4, eof: false });
+      expect(result.startLine).toBeUndefined();
+    });
+
+    it('does not split multi-byte characters in utf8 byte ranges', () => {
+      // "é" is two bytes, so a range ending after its first byte stops before it
+      writeFileSync(file('accents.txt'), 'abé');
+
+      expect(fileSystemApi.readFileRange({ filePath: file('accents.txt'), byteOffset: 0, byteLength: 3 }))
+        .toMatchObject({ data: 'ab', startByte: 0, endByte: 2, eof: false });
+      expect(fileSystemApi.readFileRange({ filePath: file('accents.txt'), byteOffset: 2, byteLength: 2 }))
+        .toMatchObject({ data: 'é', startByte: 2, endByte: 4, eof: true });
+    });
+
+    it('rejects line ranges larger than the maximum', () => {
+      writeFileSync(file('big.txt'), `${'x'.repeat(MAX_RANGE_BYTES)}\nend`);
+
+      const result = fileSystemApi.readFileRange({ filePath: file('big.txt'), startLine: 1, endLine: 2 });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('request fewer lines');
+    });
+
+    it('rejects an end line before the start line', () => {
+      const result = fileSystemApi.readFileRange({ filePath: file('notes.txt'), startLine: 3, endLine: 2 });
+
+      expect(result).toEqual({ success: false, error: 'endLine 2 is before startLine 3' });
+    });
+
+    it('applies the file access rules', () => {
+      writeFileSync(file('.env'), 'SECRET=1');
+
+      expect(fileSystemApi.readFileRange({ filePath: file('.env') }).success).toBe(false);
+    });
+  });
+
+  describe('stat', () => {
+    it('reports size, mtime, hash and MIME type of files', () => {
+      writeFileSync(file('index.ts'), 'export {};\n');
+
+      expect(fileSystemApi.stat(file('index.ts'))).toEqual({
+        success: true,
+        path: file('index.ts'),
+        isFile: true,
+        isDirectory: false,
+        isSymlink: false,
+        size: 11,
+        mtime: expect.any(Number),
+        hash: hashContent('export {};\n', 'utf8'),
+        mimeType: 'text/typescript'
+      });
+    });
+
+    it('reports directories without a hash', () => {
+      const result = fileSystemApi.stat(join(testDir, 'src'));
+
+      expect(result).toMatchObject({ success: true, isFile: false, isDirectory: true, isSymlink: false });
+      expect(result.hash).toBeUndefined();
+    });
+
+    it('flags symlinks and describes their target', () => {
+      writeFileSync(file('index.ts'), 'export {};\n');
+      symlinkSync(file('index.ts'), file('alias.ts'));
+
+      expect(fileSystemApi.stat(file('alias.ts'))).toMatchObject({ success: true, isFile: true, isSymlink: true, size: 11 });
+    });
+
+    it('stats many paths, reporting failures per path', () => {
+      writeFileSync(file('index.ts'), 'export {};\n');
+
+      const [found, missing] = fileSystemApi.statMany([file('index.ts'), file('missing.ts')]);
+
+      expect(found.success).toBe(true);
+      expect(missing).toEqual({ success: false, path: file('missing.ts'), error: `File not found: ${file('missing.ts')}` });
+    });
+  });
+});
@@ -15,7 +15,7 @@ jest.mock('child_process');
 
 import 'reflect-metadata';
 import { container } from 'tsyringe';
-import { FileSystemApiService } from '../file-system-api.service';
+import { FileSystemApiService, hashContent } from '../file-system-api.service';
 import { ConfigService } from '../config.service';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -84,11 +84,14 @@ describe('FileSystemApiService', () => {
       loadFromFile: jest.fn(),
       setFromCliOptions: jest.fn(),
       validate: jest.fn(),
-      getTerminalSecretPath: jest.fn().mockReturnValue(undefined)
+      getTerminalSecretPath: jest.fn().mockReturnValue(undefined),
+      getHistoryDirectory: jest.fn().mockReturnValue('/project/root/.jsxtool/history'),
+      getTempDirectory: jest.fn().mockReturnValue('/project/root/.jsxtool/tmp')
     } as any;
 
     container.registerInstance(ConfigService, mockConfigService);
     service = container.resolve(FileSystemApiService);
+    (fs.realpathSync as unknown as jest.Mock).mockImplementation((p) => p);
 
     jest.clearAllMocks();
   });
@@ -103,9 +106,10 @@ describe('FileSystemApiService', () => {
 
     beforeEach(() => {
       const pathMock = path as jest.Mocked<typeof path>;
-      pathMock.resolve.mockImplementation((p) =>
-        p.startsWith('/') ? p : `/project/root/${p}`
-      );
+      pathMock.resolve.mockImplementation((...parts) => {
+        const p = parts[parts.length - 1];
+        return p.startsWith('/') ? p : `/project/root/${p}`;
+      });
       pathMock.relative.mockImplementation((from, to) => {
         if (to.startsWith(from)) {
           return to.slice(from.length + 1);
@@ -134,6 +138,22 @@ describe('FileSystemApiService', () => {
       expect(fs.readFileSync).toHaveBeenCalledWith(mockPath, 'utf8');
     });
 
+    it('should return the content hash and mtime', () => {
+      (fs.existsSync as jest.Mock).mockReturnValue(true);
+      (fs.statSync as jest.Mock).mockReturnValue({
+        isFile: () => true,
+        isDirectory: () => false,
+        mtimeMs: 1700000000000
+      });
+      (fs.readFileSync as jest.Mock).mockReturnValue(mockContent);
+
+      const result = service.readFile('src/app.tsx');
+
+      expect(result.hash).toBe(hashContent(mockContent));
+      expect(result.hash).toMatch(/^[0-9a-f]{64}$/);
+      expect(result.mtime).toBe(1700000000000);
+    });
+
     it('should fail when file does not exist', () => {
       (fs.existsSync as jest.Mock).mockReturnValue(false);
 
@@ -219,9 +239,10 @@ describe('FileSystemApiService', () => {
 
     beforeEach(() => {
       const pathMock = path as jest.Mocked<typeof path>;
-      pathMock.resolve.mockImplementation((p) =>
-        p.startsWith('/') ? p : `/project/root/${p}`
-      );
+      pathMock.resolve.mockImplementation((...parts) => {
+        const p = parts[parts.length - 1];
+        return p.startsWith('/') ? p : `/project/root/${p}`;
+      });
       pathMock.relative.mockImplementation((from, to) => {
         if (to.startsWith(from)) {
           return to.slice(from.length + 1);
@@ -331,14 +352,72 @@ describe('FileSystemApiService', () => {
       expect(result.error).toContain('Error writing file: Cannot create directory');
       expect(fs.writeFileSync).not.toHaveBeenCalled();
     });
+
+    describe('with expected hash or mtime', () => {
+      const diskContent = 'console.log("edited in the editor");';
+
+      beforeEach(() => {
+        (fs.statSync as jest.Mock).mockReturnValue({
+          isFile: () => true,
+          isDirectory: () => false,
+          mtimeMs: 2000
+        });
+        (fs.readFileSync as jest.Mock).mockReturnValue(diskContent);
+        (fs.writeFileSync as jest.Mock).mockImplementation(() => { });
+      });
+
+      it('should write when the disk content still matches', () => {
+        const result = service.writeToFile('src/app.js', mockContent, 'utf8', {
+          expectedHash: hashContent(diskContent),
+          expectedMtime: 2000
+        });
+
+        expect(result.success).toBe(true);
+        expect(result.hash).toBe(hashContent(mockContent));
+        expect(fs.writeFileSync).toHaveBeenCalled();
+      });
+
+      it('should reject a stale hash with the current disk content', () => {
+        const result = service.writeToFile('src/app.js', mockContent, 'utf8', {
+          expectedHash: hashContent('console.log("stale");')
+        });
+
+        expect(result).toMatchObject({
+          success: false,
+          code: 'CONFLICT',
+          currentContent: diskContent,
+          currentHash: hashContent(diskContent),
+          currentMtime: 2000
+        });
+        expect(fs.writeFileSync).not.toHaveBeenCalled();
+      });
+
+      it('should reject a stale mtime', () => {
+        const result = service.writeToFile('src/app.js', mockContent, 'utf8', { expectedMtime: 1000 });
+
+        expect(result.code).toBe('CONFLICT');
+        expect(fs.writeFileSync).not.toHaveBeenCalled();
+      });
+
+      it('should reject when the file was deleted since it was read', () => {
+        (fs.existsSync as jest.Mock).mockReturnValue(false);
+
+        const result = service.writeToFile('src/app.js', mockContent, 'utf8', { expectedHash: hashContent(diskContent) });
+
+        expect(result.code).toBe('CONFLICT');
+        expect(result.error).toContain('deleted');
+        expect(fs.writeFileSync).not.toHaveBeenCalled();
+      });
+    });
   });
 
   describe('exists', () => {
     beforeEach(() => {
       const pathMock = path as jest.Mocked<typeof path>;
-      pathMock.resolve.mockImplementation((p) =>
-        p.startsWith('/') ? p : `/project/root/${p}`
-      );
+      pathMock.resolve.mockImplementation((...parts) => {
+        const p = parts[parts.length - 1];
+        return p.startsWith('/') ? p : `/project/root/${p}`;
+      });
       pathMock.relative.mockImplementation((from, to) => {
         if (to.startsWith(from)) {
           return to.slice(from.length + 1);
@@ -414,9 +493,10 @@ describe('FileSystemApiService', () => {
   describe('ls', () => {
     beforeEach(() => {
       const pathMock = path as jest.Mocked<typeof path>;
-      pathMock.resolve.mockImplementation((p) =>
-        p.startsWith('/') ? p : `/project/root/${p}`
-      );
+      pathMock.resolve.mockImplementation((...parts) => {
+        const p = parts[parts.length - 1];
+        return p.startsWith('/') ? p : `/project/root/${p}`;
+      });
       pathMock.relative.mockImplementation((from, to) => {
         if (to.startsWith(from)) {
           return to.slice(from.length + 1);
@@ -428,6 +508,7 @@ describe('FileSystemApiService', () => {
         return parts.length > 1 ? `.${parts[parts.length - 1]}` : '';
       });
       pathMock.join.mockImplementation((...args) => args.join('/'));
+      pathMock.dirname.mockImplementation((p) => p.slice(0, p.lastIndexOf('/')) || '/');
       pathMock.isAbsolute.mockImplementation((p) => {
         return p.startsWith('/');
       });
@@ -564,9 +645,10 @@ describe('FileSystemApiService', () => {
   describe('rm', () => {
     beforeEach(() => {
       const pathMock = path as jest.Mocked<typeof path>;
-      pathMock.resolve.mockImplementation((p) =>
-        p.startsWith('/') ? p : `/project/root/${p}`
-      );
+      pathMock.resolve.mockImplementation((...parts) => {
+        const p = parts[parts.length - 1];
+        return p.startsWith('/') ? p : `/project/root/${p}`;
+      });
       pathMock.relative.mockImplementation((from, to) => {
         if (to.startsWith(from)) {
           return to.slice(from.length + 1);
@@ -795,9 +877,10 @@ describe('FileSystemApiService', () => {
   describe('Batch Methods', () => {
     beforeEach(() => {
       const pathMock = path as jest.Mocked<typeof path>;
-      pathMock.resolve.mockImplementation((p) =>
-        p.startsWith('/') ? p : `/project/root/${p}`
-      );
+      pathMock.resolve.mockImplementation((...parts) => {
+        const p = parts[parts.length - 1];
+        return p.startsWith('/') ? p : `/project/root/${p}`;
+      });
       pathMock.relative.mockImplementation((from, to) => {
         if (to.startsWith(from)) {
           return to.slice(from.length + 1);
@@ -809,6 +892,7 @@ describe('FileSystemApiService', () => {
         return parts.length > 1 ? `.${parts[parts.length - 1]}` : '';
       });
       pathMock.join.mockImplementation((...args) => args.join('/'));
+      pathMock.dirname.mockImplementation((p) => p.slice(0, p.lastIndexOf('/')) || '/');
       pathMock.isAbsolute.mockImplementation((p) => p.startsWith('/'));
     });
 
@@ -950,19 +1034,31 @@ describe('FileSystemApiService', () => {
         const mockFiles = {
           '/project/root/package.json': JSON.stringify({ dependencies: {}, devDependencies: {} }),
           '/project/root/app.ts': 'export default app',
-          '/project/build/package.json': JSON.stringify({ dependencies: {}, devDependencies: {} }),
-          '/project/build/bundle.js': 'bundled code'
+          '/project/root/build/package.json': JSON.stringify({ dependencies: {}, devDependencies: {} }),
+          '/project/root/build/bundle.js': 'bundled code'
         };
 
         setupMockFileSystem(mockFiles);
 
-        const results = service.treeMany(['/project/root', '/project/build']);
+        const results = service.treeMany(['/project/root', '/project/root/build']);
 
         expect(results).toHaveLength(2);
         expect(results[0].success).toBe(true);
         expect(results[0].files).toContain('/project/root/app.ts');
         expect(results[1].success).toBe(true);
-        expect(results[1].files).toContain('/project/build/bundle.js');
+        expect(results[1].files).toContain('/project/root/build/bundle.js');
+      });
+
+      it('should reject directories outside the working directory', () => {
+        setupMockFileSystem({
+          '/project/build/package.json': JSON.stringify({ dependencies: {}, devDependencies: {} }),
+          '/project/build/bundle.js': 'bundled code'
+        });
+
+        const [result] = service.treeMany(['/project/build']);
+
+        expect(result.success).toBe(false);
+        expect(result.error).toContain('Directory must be within working directory');
       });
     });
   });
@@ -1252,4 +1348,156 @@ describe('FileSystemApiService', () => {
       expect(result.statusInfo?.headCommit).toBe('abc123def456');
     });
   });
+
+  describe('applyTextEdits and applyPatch', () => {
+    const appPath = '/project/root/src/app.ts';
+    let files: Record<string, string>;
+
+    beforeEach(() => {
+      const actualPath = jest.requireActual('path');
+      const pathMock = path as jest.Mocked<typeof path>;
+      pathMock.resolve.mockImplementation(actualPath.resolve);
+      pathMock.relative.mockImplementation(actualPath.relative);
+      pathMock.extname.mockImplementation(actualPath.extname);
+      pathMock.dirname.mockImplementation(actualPath.dirname);
+      pathMock.isAbsolute.mockImplementation(actualPath.isAbsolute);
+
+      files = {
+        [appPath]: 'one\ntwo\nthree\nfour\nfive\nsix\n',
+        '/project/root/src/util.ts': 'export const a = 1;\n'
+      };
+      setupMockFileSystem(files);
+      (fs.writeFileSync as jest.Mock).mockImplementation((target, content) => {
+        files[target.toString()] = content;
+      });
+      (fs.unlinkSync as jest.Mock).mockImplementation((target) => {
+        delete files[target.toString()];
+      });
+    });
+
+    it('applies edits against the original positions and returns the new hash', () => {
+      const result = service.applyTextEdits(appPath, [
+        { range: { start: { line: 3, character: 0 }, end: { line: 3, character: 4 } }, newText: 'FOUR' },
+        { range: { start: { line: 0, character: 0 }, end: { line: 1, character: 0 } }, newText: '' },
+        { range: { start: { line: 6, character: 0 }, end: { line: 6, character: 0 } }, newText: 'seven\n' }
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(files[appPath]).toBe('two\nthree\nFOUR\nfive\nsix\nseven\n');
+      expect(result.hash).toBe(hashContent(files[appPath]));
+      expect(fs.writeFileSync).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects out-of-range and overlapping edits without writing', () => {
+      const outOfRange = service.applyTextEdits(appPath, [
+        { range: { start: { line: 1, character: 0 }, end: { line: 1, character: 9 } }, newText: 'x' }
+      ]);
+      const overlapping = service.applyTextEdits(appPath, [
+        { range: { start: { line: 0, character: 0 }, end: { line: 1, character: 2 } }, newText: 'x' },
+        { range: { start: { line: 1, character: 1 }, end: { line: 2, character: 0 } }, newText: 'y' }
+      ]);
+
+      expect(outOfRange.error).toContain('line 1, which has 3 characters');
+      expect(overlapping.error).toContain('overlaps');
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
+    });
+
+    it('returns a conflict when the expected hash is stale', () => {
+      const result = service.applyTextEdits(appPath, [], { expectedHash: hashContent('old') });
+
+      expect(result).toMatchObject({ success: false, code: 'CONFLICT', currentContent: files[appPath] });
+    });
+
+    it('applies hunks that drifted and need fuzz', () => {
+      files[appPath] = 'zero\none\ntwo\nthree\nfour\nFIVE\nsix\n';
+      const patch = [
+        '--- a/src/app.ts',
+        '+++ b/src/app.ts',
+        '@@ -2,4 +2,4 @@',
+        ' two',
+        ' three',
+        '-four',
+        '+4',
+        ' five'
+      ].join('\n');
+
+      const result = service.applyPatch(patch);
+
+      expect(result.success).toBe(true);
+      expect(files[appPath]).toBe('zero\none\ntwo\nthree\n4\nFIVE\nsix\n');
+      expect(result.files?.[0]).toMatchObject({ filePath: appPath, created: false, hash: hashContent(files[appPath]) });
+      expect(result.files?.[0].hunks[0]).toMatchObject({ offset: 1, fuzz: 1 });
+    });
+
+    it('creates files and honours the missing newline marker', () => {
+      const patch = [
+        '--- /dev/null',
+        '+++ b/src/new.ts',
+        '@@ -0,0 +1,2 @@',
+        '+export const b = 2;',
+        '+export const c = 3;',
+        '\\ No newline at end of file'
+      ].join('\n');
+
+      const result = service.applyPatch(patch);
+
+      expect(result.files?.[0]).toMatchObject({ filePath: '/project/root/src/new.ts', created: true });
+      expect(files['/project/root/src/new.ts']).toBe('export const b = 2;\nexport const c = 3;');
+    });
+
+    it('writes nothing when a hunk in any file does not apply', () => {
+      const patch = [
+        '--- a/src/util.ts',
+        '+++ b/src/util.ts',
+        '@@ -1 +1 @@',
+        '-export const a = 1;',
+        '+export const a = 2;',
+        '--- a/src/app.ts',
+        '+++ b/src/app.ts',
+        '@@ -1,2 +1,2 @@',
+        '-uno',
+        '+1',
+        ' two'
+      ].join('\n');
+
+      const result = service.applyPatch(patch);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain(`${appPath}: Hunk 1`);
+      expect(fs.writeFileSync).not.toHaveBeenCalled();
+    });
+
+    it('reverts files already written when a later write fails', () => {
+      (fs.writeFileSync as jest.Mock).mockImplementation((target, content) => {
+        if (target === appPath && content !== files[appPath] && content.startsWith('1')) {
+          throw new Error('Disk full');
+        }
+        files[target.toString()] = content;
+      });
+      const patch = [
+        '--- a/src/util.ts',
+        '+++ b/src/util.ts',
+        '@@ -1 +1 @@',
+        '-export const a = 1;',
+        '+export const a = 2;',
+        '--- a/src/app.ts',
+        '+++ b/src/app.ts',
+        '@@ -1 +1 @@',
+        '-one',
+        '+1'
+      ].join('\n');
+
+      const result = service.applyPatch(patch);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Disk full');
+      expect(files['/project/root/src/util.ts']).toBe('export const a = 1;\n');
+    });
+
+    it('rejects malformed patches', () => {
+      expect(service.applyPatch('not a diff').error).toContain('Invalid patch');
+      expect(service.applyPatch('--- a/x.ts\n+++ b/x.ts\n@@ -1,2 +1,2 @@\n-a\n').error)
+        .toContain('does not match its line counts');
+    });
+  });
 });
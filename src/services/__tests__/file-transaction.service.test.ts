@@ -0,0 +1,113 @@
+import 'reflect-metadata';
+import { container } from 'tsyringe';
+import { join } from 'path';
+import { existsSync, mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { FileTransactionService } from '../file-transaction.service';
+import { FileSystemApiService, hashContent } from '../file-system-api.service';
+import { ConfigService } from '../config.service';
+import { Logger } from '../logger.service';
+
+describe('FileTransactionService', () => {
+  const testDir = join(__dirname, 'test-file-transaction');
+  const src = (name: string) => join(testDir, 'src', name);
+  let fileSystemApi: FileSystemApiService;
+  let transactions: FileTransactionService;
+  let listener: jest.Mock;
+
+  beforeEach(() => {
+    container.clearInstances();
+    rmSync(testDir, { recursive: true, force: true });
+    mkdirSync(join(testDir, 'src'), { recursive: true });
+    writeFileSync(src('a.ts'), 'a1', 'utf8');
+    writeFileSync(src('b.ts'), 'b1', 'utf8');
+
+    const logger = new Logger();
+    logger.setSilence(true);
+    container.registerInstance(Logger, logger);
+
+    container.resolve(ConfigService).setWorkingDirectory(testDir);
+    fileSystemApi = container.resolve(FileSystemApiService);
+    transactions = container.resolve(FileTransactionService);
+    listener = jest.fn();
+    fileSystemApi.setListener(listener);
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  const stagingEntries = () => readdirSync(join(testDir, '.jsxtool', 'tmp'));
+
+  it('commits writes, deletes and renames and reports one batch of changes', () => {
+    const result = transactions.run([
+      { type: 'write', filePath: src('a.ts'), content: 'a2' },
+      { type: 'write', filePath: src('nested/c.ts'), content: 'c1' },
+      { type: 'rename', fromPath: src('b.ts'), toPath: src('renamed.ts') },
+      { type: 'delete', filePath: src('a.ts') },
+      { type: 'rename', fromPath: src('renamed.ts'), toPath: src('a.ts') }
+    ]);
+
+    expect(result.success).toBe(true);
+    expect(readFileSync(src('a.ts'), 'utf8')).toBe('b1');
+    expect(readFileSync(src('nested/c.ts'), 'utf8')).toBe('c1');
+    expect(existsSync(src('b.ts'))).toBe(false);
+    expect(existsSync(src('renamed.ts'))).toBe(false);
+    expect(result.hashes?.[src('nested/c.ts')]).toBe(hashContent('c1'));
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][0]).toEqual(expect.arrayContaining([
+      { type: 'changed', absolutePath: src('a.ts') },
+      { type: 'added', absolutePath: src('nested/c.ts') },
+      { type: 'removed', absolutePath: src('b.ts') }
+    ]));
+    expect(listener.mock.calls[0][0]).toHaveLength(3);
+    expect(stagingEntries()).toEqual([]);
+  });
+
+  it('validates every operation before touching any file', () => {
+    const result = transactions.run([
+      { type: 'write', filePath: src('a.ts'), content: 'a2' },
+      { type: 'write', filePath: src('virus.exe'), content: 'x' }
+    ]);
+
+    expect(result).toMatchObject({ success: false, failedOperation: 1 });
+    expect(result.error).toContain("File type '.exe' is not allowed");
+    expect(readFileSync(src('a.ts'), 'utf8')).toBe('a1');
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('rejects operations that depend on missing or existing files', () => {
+    expect(transactions.run([{ type: 'delete', filePath: src('missing.ts') }]).error).toContain('File not found');
+    expect(transactions.run([{ type: 'rename', fromPath: src('a.ts'), toPath: src('b.ts') }]).error).toContain('Target already exists');
+  });
+
+  it('returns a conflict when an expected hash is stale', () => {
+    const result = transactions.run([
+      { type: 'write', filePath: src('a.ts'), content: 'a2', expectedHash: hashContent('stale') }
+    ]);
+
+    expect(result).toMatchObject({ success: false, code: 'CONFLICT', currentContent: 'a1', failedOperation: 0 });
+  });
+
+  it('rolls everything back when a commit step fails', () => {
+    // the last rename targets a "directory" that is really a file, so it only fails at commit time
+    writeFileSync(src('blocker.ts'), 'blocker', 'utf8');
+
+    const result = transactions.run([
+      { type: 'write', filePath: src('a.ts'), content: 'a2' },
+      { type: 'delete', filePath: src('b.ts') },
+      { type: 'write', filePath: src('nested/deep/c.ts'), content: 'c1' },
+      { type: 'write', filePath: src('d.ts'), content: 'd1' },
+      { type: 'rename', fromPath: src('d.ts'), toPath: src('blocker.ts/renamed.ts') }
+    ]);
+
+    expect(result).toMatchObject({ success: false, failedOperation: 4 });
+    expect(result.error).toContain('Failed to commit operation 4');
+    expect(readFileSync(src('a.ts'), 'utf8')).toBe('a1');
+    expect(readFileSync(src('b.ts'), 'utf8')).toBe('b1');
+    expect(existsSync(src('nested'))).toBe(false);
+    expect(existsSync(src('d.ts'))).toBe(false);
+    expect(listener).not.toHaveBeenCalled();
+    expect(stagingEntries()).toEqual([]);
+  });
+});
@@ -0,0 +1,171 @@
+import 'reflect-metadata';
+import { container } from 'tsyringe';
+import { join } from 'path';
+import { existsSync, mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { FileTransferService, MAX_TRANSFER_CHUNK_BYTES } from '../file-transfer.service';
+import { FileSystemApiService, hashContent } from '../file-system-api.service';
+import { ConfigService } from '../config.service';
+import { Logger } from '../logger.service';
+
+// PNG signature and IHDR chunk, which is all the dimension probe needs
+const png = (width: number, height: number): Buffer => {
+  const header = Buffer.alloc(33);
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(header);
+  header.writeUInt32BE(13, 8);
+  header.write('IHDR', 12, 'ascii');
+  header.writeUInt32BE(width, 16);
+  header.writeUInt32BE(height, 20);
+  return header;
+};
+
+const jpeg = (width: number, height: number): Buffer => Buffer.from([
+  0xff, 0xd8,
+  0xff, 0xe0, 0x00, 0x04, 0x00, 0x00,
+  0xff, 0xc0, 0x00, 0x0b, 0x08, height >> 8, height & 0xff, width >> 8, width & 0xff, 0x01, 0x01, 0x11, 0x00
+]);
+
+describe('FileTransferService', () => {
+  const testDir = join(__dirname, 'test-file-transfer');
+  const asset = (name: string) => join(testDir, 'public', name);
+  let fileSystemApi: FileSystemApiService;
+  let transfers: FileTransferService;
+  let listener: jest.Mock;
+
+  beforeEach(() => {
+    container.clearInstances();
+    rmSync(testDir, { recursive: true, force: true });
+    mkdirSync(join(testDir, 'public'), { recursive: true });
+
+    const logger = new Logger();
+    logger.setSilence(true);
+    container.registerInstance(Logger, logger);
+
+    container.resolve(ConfigService).setWorkingDirectory(testDir);
+    fileSystemApi = container.resolve(FileSystemApiService);
+    transfers = container.resolve(FileTransferService);
+    listener = jest.fn();
+    fileSystemApi.setListener(listener);
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('readFile metadata', () => {
+    it('reports MIME type, size and dimensions of raster images', () => {
+      writeFileSync(asset('logo.png'), png(640, 480));
+      writeFileSync(asset('photo.jpg'), jpeg(300, 200));
+
+      expect(fileSystemApi.readFile(asset('logo.png'), 'base64')).toMatchObject({
+        success: true,
+        data: png(640, 480).toString('base64'),
+        size: 33,
+        mimeType: 'image/png',
+        dimensions: { width: 640, height: 480 }
+      });
+      expect(fileSystemApi.readFile(asset('photo.jpg'), 'base64')).toMatchObject({
+        mimeType: 'image/jpeg',
+        dimensions: { width: 300, height: 200 }
+      });
+    });
+
+    it('reads SVG dimensions from width/height or the viewBox', () => {
+      writeFileSync(asset('sized.svg'), '<svg xmlns="http://www.w3.org/2000/svg" width="24px" height="32"></svg>');
+      writeFileSync(asset('boxed.svg'), '<?xml version="1.0"?>\n<svg width="100%" viewBox="0 0 48 16"></svg>');
+
+      expect(fileSystemApi.readFile(asset('sized.svg'))).toMatchObject({ mimeType: 'image/svg+xml', dimensions: { width: 24, height: 32 } });
+      expect(fileSystemApi.readFile(asset('boxed.svg')).dimensions).toEqual({ width: 48, height: 16 });
+    });
+
+    it('detects renamed binaries by content and leaves text files alone', () => {
+      writeFileSync(asset('actually-a-png.jpg'), png(1, 1));
+      writeFileSync(asset('BMW.md'), 'BMW notes');
+
+      expect(fileSystemApi.readFile(asset('actually-a-png.jpg'), 'base64').mimeType).toBe('image/png');
+      expect(fileSystemApi.readFile(asset('BMW.md'))).toMatchObject({ mimeType: 'text/markdown', dimensions: undefined });
+    });
+  });
+
+  describe('readChunk', () => {
+    it('reads a file in base64 chunks that concatenate to the whole file', () => {
+      const content = Buffer.from(Array.from({ length: 1000 }, (_, i) => i % 256));
+      writeFileSync(asset('font.woff2'), content);
+
+      const first = transfers.readChunk(asset('font.woff2'), 0, 300);
+      expect(first).toMatchObject({ success: true, offset: 0, bytesRead: 300, size: 1000, eof: false, mimeType: 'font/woff2' });
+
+      let data = first.data!;
+      for (let offset = 300; offset < 1000; offset += 300) {
+        const chunk = transfers.readChunk(asset('font.woff2'), offset, 300);
+        expect(chunk.mimeType).toBeUndefined();
+        data += chunk.data!;
+        expect(chunk.eof).toBe(offset + 300 >= 1000);
+      }
+      expect(Buffer.from(data, 'base64').equals(content)).toBe(true);
+    });
+
+    it('returns an empty final chunk past the end and applies the access policy', () => {
+      writeFileSync(asset('a.txt'), 'abc');
+      expect(transfers.readChunk(asset('a.txt'), 10)).toMatchObject({ success: true, data: '', bytesRead: 0, eof: true });
+      expect(transfers.readChunk(join(testDir, '.env'), 0).error).toContain('denied');
+    });
+  });
+
+  describe('writeChunk', () => {
+    const bytes = Buffer.from(Array.from({ length: 500 }, (_, i) => (i * 7) % 256));
+
+    it('stages chunks and only replaces the target after the last one', () => {
+      writeFileSync(asset('video.mp4'), 'old');
+
+      const first = transfers.writeChunk({ filePath: asset('video.mp4'), uploadId: 'up-1', offset: 0, data: bytes.subarray(0, 300).toString('base64') });
+      expect(first).toMatchObject({ success: true, receivedBytes: 300, done: false });
+      expect(readFileSync(asset('video.mp4'), 'utf8')).toBe('old');
+
+      const last = transfers.writeChunk({ filePath: asset('video.mp4'), uploadId: 'up-1', offset: 300, data: bytes.subarray(300).toString('base64'), done: true });
+      expect(last).toMatchObject({ success: true, receivedBytes: 500, done: true, hash: hashContent(bytes.toString('base64'), 'base64') });
+      expect(readFileSync(asset('video.mp4')).equals(bytes)).toBe(true);
+      expect(listener).toHaveBeenCalledWith([{ type: 'changed', absolutePath: asset('video.mp4') }]);
+      expect(readdirSync(join(testDir, '.jsxtool', 'tmp'))).toEqual([]);
+    });
+
+    it('reports the received offset when a chunk arrives out of order', () => {
+      transfers.writeChunk({ filePath: asset('a.png'), uploadId: 'up-2', offset: 0, data: bytes.subarray(0, 100).toString('base64') });
+
+      const skipped = transfers.writeChunk({ filePath: asset('a.png'), uploadId: 'up-2', offset: 200, data: 'AAAA' });
+      expect(skipped).toMatchObject({ success: false, offsetMismatch: true, receivedBytes: 100 });
+      expect(transfers.writeChunk({ filePath: asset('a.png'), uploadId: 'unknown', offset: 100, data: 'AAAA' }).error).toContain('Unknown upload');
+    });
+
+    it('rejects oversized chunks, bad upload ids and denied targets', () => {
+      const oversized = Buffer.alloc(MAX_TRANSFER_CHUNK_BYTES + 1).toString('base64');
+      expect(transfers.writeChunk({ filePath: asset('a.png'), uploadId: 'up-3', offset: 0, data: oversized }).error).toContain('may not exceed');
+      expect(transfers.writeChunk({ filePath: asset('a.png'), uploadId: '../x', offset: 0, data: '' }).error).toContain('uploadId');
+      expect(transfers.writeChunk({ filePath: asset('key.pem'), uploadId: 'up-4', offset: 0, data: '' }).error).toContain('denied');
+    });
+
+    it('returns a conflict without content when the target changed, and discards the upload', () => {
+      writeFileSync(asset('logo.png'), png(1, 1));
+
+      const result = transfers.writeChunk({
+        filePath: asset('logo.png'),
+        uploadId: 'up-5',
+        offset: 0,
+        data: bytes.toString('base64'),
+        done: true,
+        expectedHash: hashContent('stale')
+      });
+
+      expect(result).toMatchObject({ success: false, code: 'CONFLICT', currentHash: hashContent(png(1, 1).toString('base64'), 'base64') });
+      expect(result.currentContent).toBeUndefined();
+      expect(readFileSync(asset('logo.png')).equals(png(1, 1))).toBe(true);
+      expect(transfers.abort('up-5').success).toBe(false);
+    });
+
+    it('removes the staged data on abort', () => {
+      transfers.writeChunk({ filePath: asset('new.webm'), uploadId: 'up-6', offset: 0, data: bytes.toString('base64') });
+      expect(transfers.abort('up-6').success).toBe(true);
+      expect(existsSync(asset('new.webm'))).toBe(false);
+      expect(readdirSync(join(testDir, '.jsxtool', 'tmp'))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,421 @@
+import 'reflect-metadata';
+import { container } from 'tsyringe';
+import { join } from 'path';
+import { execFileSync } from 'child_process';
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { GitService } from '../git.service';
+import { FileSystemApiService } from '../file-system-api.service';
+import { ConfigService } from '../config.service';
+import { Logger } from '../logger.service';
+
+describe('GitService', () => {
+  const testDir = join(__dirname, 'test-git-service');
+  const file = (name: string) => join(testDir, name);
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: testDir, encoding: 'utf8' });
+  let service: GitService;
+
+  beforeEach(() => {
+    container.clearInstances();
+    rmSync(testDir, { recursive: true, force: true });
+    mkdirSync(testDir, { recursive: true });
+
+    git('init', '--quiet');
+    git('config', 'user.name', 'Test');
+    git('config', 'user.email', 'test@example.com');
+    git('config', 'commit.gpgsign', 'false');
+    writeFileSync(file('app.ts'), 'one\ntwo\nthree\n');
+    git('add', '.');
+    git('commit', '--quiet', '-m', 'initial');
+
+    const logger = new Logger();
+    logger.setSilence(true);
+    container.registerInstance(Logger, logger);
+
+    container.resolve(ConfigService).setWorkingDirectory(testDir);
+    service = container.resolve(GitService);
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('diff', () => {
+    it('returns unstaged changes as hunks', () => {
+      writeFileSync(file('app.ts'), 'one\n2\nthree\n');
+
+      const result = service.diff('app.ts');
+
+      expect(result).toMatchObject({ success: true, absolutePath: file('app.ts'), staged: false, status: 'modified', binary: false });
+      expect(result.hunks).toEqual([{
+        oldStart: 1,
+        oldLines: 3,
+        newStart: 1,
+        newLines: 3,
+        lines: [
+          { type: ' ', text: 'one' },
+          { type: '-', text: 'two' },
+          { type: '+', text: '2' },
+          { type: ' ', text: 'three' }
+        ],
+        oldNoNewlineAtEnd: false,
+        newNoNewlineAtEnd: false
+      }]);
+    });
+
+    it('separates staged from unstaged changes', () => {
+      writeFileSync(file('app.ts'), 'one\n2\nthree\n');
+      git('add', 'app.ts');
+
+      expect(service.diff('app.ts').status).toBe('unchanged');
+      expect(service.diff('app.ts', true).hunks?.[0].lines).toContainEqual({ type: '+', text: '2' });
+    });
+
+    it('diffs untracked files as added', () => {
+      writeFileSync(file('new.ts'), 'fresh\n');
+
+      expect(service.diff('new.ts')).toMatchObject({
+        success: true,
+        status: 'added',
+        hunks: [{ oldStart: 0, oldLines: 0, newStart: 1, newLines: 1, lines: [{ type: '+', text: 'fresh' }] }]
+      });
+    });
+
+    it('flags binary files without hunks', () => {
+      writeFileSync(file('image.png'), Buffer.from([0x89, 0x50, 0x4e, 0x47, 0, 0, 0, 0]));
+      git('add', 'image.png');
+
+      expect(service.diff('image.png', true)).toMatchObject({ success: true, status: 'added', binary: true, hunks: [] });
+    });
+  });
+
+  describe('showFile', () => {
+    it('reads the content at HEAD', () => {
+      writeFileSync(file('app.ts'), 'edited\n');
+
+      expect(service.showFile('app.ts')).toMatchObject({
+        success: true,
+        absolutePath: file('app.ts'),
+        ref: 'HEAD',
+        tracked: true,
+        data: 'one\ntwo\nthree\n',
+        size: 14,
+        mimeType: 'text/typescript'
+      });
+    });
+
+    it('reads older revisions', () => {
+      writeFileSync(file('app.ts'), 'second\n');
+      git('commit', '--quiet', '-am', 'second');
+
+      expect(service.showFile('app.ts', 'HEAD~1').data).toBe('one\ntwo\nthree\n');
+      expect(service.showFile('app.ts').data).toBe('second\n');
+    });
+
+    it('reports files that did not exist at the revision', () => {
+      writeFileSync(file('new.ts'), 'fresh\n');
+
+      expect(service.showFile('new.ts')).toEqual({ success: true, absolutePath: file('new.ts'), ref: 'HEAD', tracked: false });
+    });
+
+    it('rejects unknown revisions and option-like refs', () => {
+      expect(service.showFile('app.ts', 'no-such-branch')).toEqual({ success: false, error: 'Unknown revision: no-such-branch' });
+      expect(service.showFile('app.ts', '--output=/tmp/x')).toEqual({ success: false, error: 'Invalid revision: --output=/tmp/x' });
+    });
+
+    it('applies the file access rules', () => {
+      expect(service.showFile('.env').success).toBe(false);
+    });
+  });
+
+  describe('logFile', () => {
+    it('lists the commits that touched a file, newest first', () => {
+      writeFileSync(file('app.ts'), 'second\n');
+      git('commit', '--quiet', '-am', 'Second\n\nWith details');
+      writeFileSync(file('other.ts'), 'other\n');
+      git('add', 'other.ts');
+      git('commit', '--quiet', '-m', 'Unrelated');
+
+      const result = service.logFile('app.ts');
+
+      expect(result.success).toBe(true);
+      expect(result.commits?.map(commit => commit.summary)).toEqual(['Second', 'initial']);
+      expect(result.commits?.[0]).toEqual({
+        commit: git('rev-parse', 'HEAD~1').trim(),
+        author: 'Test',
+        email: 'test@example.com',
+        date: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+        summary: 'Second',
+        message: 'Second\n\nWith details'
+      });
+    });
+
+    it('follows renames and honours the limit', () => {
+      git('mv', 'app.ts', 'main.ts');
+      git('commit', '--quiet', '-m', 'Rename');
+
+      expect(service.logFile('main.ts').commits?.map(commit => commit.summary)).toEqual(['Rename', 'initial']);
+      expect(service.logFile('main.ts', 1).commits).toHaveLength(1);
+    });
+  });
+
+  describe('blame', () => {
+    beforeEach(() => {
+      writeFileSync(file('app.ts'), 'one\nTWO\nthree\nfour\n');
+      git('commit', '--quiet', '-am', 'Shout two');
+    });
+
+    it('attributes each line in the range to its last commit', () => {
+      const result = service.blame('app.ts', 2, 3);
+
+      expect(result).toMatchObject({ success: true, absolutePath: file('app.ts'), head: git('rev-parse', 'HEAD').trim(), startLine: 2, endLine: 3, totalLines: 4 });
+      expect(result.lines).toEqual([
+        {
+          line: 2,
+          commit: git('rev-parse', 'HEAD').trim(),
+          author: 'Test',
+          email: 'test@example.com',
+          timestamp: expect.any(Number),
+          summary: 'Shout two',
+          uncommitted: false
+        },
+        expect.objectContaining({ line: 3, commit: git('rev-parse', 'HEAD~1').trim(), summary: 'initial' })
+      ]);
+    });
+
+    it('clamps the range to the end of the file', () => {
+      expect(service.blame('app.ts', 4, 100)).toMatchObject({ success: true, endLine: 4, lines: [expect.objectContaining({ line: 4 })] });
+    });
+
+    it('serves repeated requests from the cache until the file changes', () => {
+      service.blame('app.ts');
+      writeFileSync(file('app.ts'), 'one\nedited\nthree\nfour\n');
+
+      expect(service.blame('app.ts', 2, 2).lines?.[0].uncommitted).toBe(false);
+
+      container.resolve(FileSystemApiService).notifyFileChanges([{ type: 'changed', absolutePath: file('app.ts') }]);
+
+      expect(service.blame('app.ts', 2, 2).lines?.[0]).toMatchObject({ uncommitted: true });
+    });
+
+    it('recomputes after HEAD moves', () => {
+      service.blame('app.ts');
+      git('commit', '--quiet', '--allow-empty', '-m', 'Empty');
+
+      expect(service.blame('app.ts').head).toBe(git('rev-parse', 'HEAD').trim());
+    });
+
+    it('rejects an end line before the start line', () => {
+      expect(service.blame('app.ts', 3, 2)).toEqual({ success: false, error: 'endLine 2 is before startLine 3' });
+    });
+  });
+
+  describe('lineHunks', () => {
+    it('marks added, modified and deleted lines against the index', async () => {
+      writeFileSync(file('app.ts'), 'one\nTWO\nthree\nfour\nfive\n');
+      git('commit', '--quiet', '-am', 'More lines');
+      writeFileSync(file('app.ts'), 'zero\none\n2\nthree\nfive\n');
+
+      expect(await service.lineHunks([file('app.ts')])).toEqual([{
+        absolutePath: file('app.ts'),
+        hunks: [
+          { type: 'added', startLine: 1, lineCount: 1 },
+          { type: 'modified', startLine: 3, lineCount: 1 },
+          { type: 'deleted', startLine: 4, lineCount: 1 }
+        ]
+      }]);
+    });
+
+    it('compares against the index, so staged edits clear their markers', async () => {
+      writeFileSync(file('app.ts'), 'one\n2\nthree\n');
+      git('add', 'app.ts');
+
+      expect(await service.lineHunks(['app.ts'])).toEqual([{ absolutePath: file('app.ts'), hunks: [] }]);
+    });
+
+    it('marks untracked files as added and skips directories', async () => {
+      writeFileSync(file('new.ts'), 'a\nb\n');
+      mkdirSync(file('dir'));
+
+      expect(await service.lineHunks(['new.ts', 'dir'])).toEqual([
+        { absolutePath: file('new.ts'), hunks: [{ type: 'added', startLine: 1, lineCount: 2 }] }
+      ]);
+    });
+
+    it('pushes hunks for changed files to listeners', async () => {
+      const listener = jest.fn();
+      service.setHunksListener(listener);
+      writeFileSync(file('app.ts'), 'one\n2\nthree\n');
+
+      container.resolve(FileSystemApiService).notifyFileChanges([{ type: 'changed', absolutePath: file('app.ts') }]);
+      await new Promise(resolve => setTimeout(resolve, 300));
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith([{ absolutePath: file('app.ts'), hunks: [{ type: 'modified', startLine: 2, lineCount: 1 }] }]);
+    });
+
+    it('computes nothing while no listener is active', async () => {
+      const listener = jest.fn();
+      service.setHunksListener(listener, () => false);
+      const lineHunks = jest.spyOn(service, 'lineHunks');
+      writeFileSync(file('app.ts'), 'one\n2\nthree\n');
+
+      container.resolve(FileSystemApiService).notifyFileChanges([{ type: 'changed', absolutePath: file('app.ts') }]);
+      await new Promise(resolve => setTimeout(resolve, 300));
+
+      expect(lineHunks).not.toHaveBeenCalled();
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('conflicts', () => {
+    beforeEach(() => {
+      git('checkout', '--quiet', '-b', 'feature');
+      writeFileSync(file('app.ts'), 'one\nfeature two\nthree\n');
+      git('commit', '--quiet', '-am', 'Feature');
+      git('checkout', '--quiet', '-');
+      writeFileSync(file('app.ts'), 'one\nmain two\nthree\n');
+      git('commit', '--quiet', '-am', 'Main');
+      try {
+        git('-c', 'merge.conflictStyle=diff3', 'merge', '--quiet', 'feature');
+      } catch {
+        // the merge stops on the conflict
+      }
+    });
+
+    it('lists unmerged files with their ours, base and theirs regions', () => {
+      expect(service.getConflicts()).toEqual({
+        success: true,
+        files: [{
+          absolutePath: file('app.ts'),
+          regions: [{
+            index: 0,
+            startLine: 2,
+            endLine: 8,
+            oursLabel: 'HEAD',
+            theirsLabel: 'feature',
+            ours: 'main two\n',
+            base: 'two\n',
+            theirs: 'feature two\n'
+          }]
+        }]
+      });
+    });
+
+    it('detects markers in a single file whatever its git state', () => {
+      writeFileSync(file('notes.md'), 'a\n<<<<<<< mine\nb\n=======\nc\n>>>>>>> theirs\n');
+
+      expect(service.getConflicts('notes.md').files?.[0].regions).toEqual([
+        { index: 0, startLine: 2, endLine: 6, oursLabel: 'mine', theirsLabel: 'theirs', ours: 'b\n', theirs: 'c\n' }
+      ]);
+    });
+
+    it('rewrites the region and stages the file once no regions are left', () => {
+      const result = service.resolveConflict('app.ts', 0, 'both');
+
+      expect(result).toMatchObject({ success: true, absolutePath: file('app.ts'), remaining: 0, staged: true });
+      expect(readFileSync(file('app.ts'), 'utf8')).toBe('one\nmain two\nfeature two\nthree\n');
+      expect(service.getConflicts().files).toEqual([]);
+    });
+
+    it('accepts custom text and leaves files with regions left unstaged', () => {
+      writeFileSync(file('app.ts'), '<<<<<<< HEAD\na\n=======\nb\n>>>>>>> x\nmid\n<<<<<<< HEAD\nc\n=======\nd\n>>>>>>> x\n');
+
+      expect(service.resolveConflict('app.ts', 1, { text: 'merged\n' })).toMatchObject({ success: true, remaining: 1, staged: false });
+      expect(readFileSync(file('app.ts'), 'utf8')).toBe('<<<<<<< HEAD\na\n=======\nb\n>>>>>>> x\nmid\nmerged\n');
+      expect(service.getConflicts().files?.map(conflict => conflict.absolutePath)).toEqual([file('app.ts')]);
+    });
+
+    it('rejects regions that do not exist', () => {
+      expect(service.resolveConflict('app.ts', 3, 'ours')).toEqual({ success: false, error: 'Conflict region 3 does not exist' });
+    });
+  });
+
+  describe('stage and unstage', () => {
+    it('moves paths in and out of the index', () => {
+      writeFileSync(file('app.ts'), 'changed\n');
+
+      expect(service.stage(['app.ts'])).toEqual({ success: true, paths: [file('app.ts')] });
+      expect(git('diff', '--cached', '--name-only').trim()).toBe('app.ts');
+
+      expect(service.unstage(['app.ts']).success).toBe(true);
+      expect(git('diff', '--cached', '--name-only').trim()).toBe('');
+    });
+
+    it('unstages before the first commit', () => {
+      rmSync(join(testDir, '.git'), { recursive: true, force: true });
+      git('init', '--quiet');
+      service.stage(['app.ts']);
+
+      expect(service.unstage(['app.ts']).success).toBe(true);
+      expect(git('status', '--porcelain').trim()).toBe('?? app.ts');
+    });
+
+    it('rejects paths outside the working directory', () => {
+      const result = service.stage(['../outside.ts']);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Path must be within working directory');
+    });
+  });
+
+  describe('discard', () => {
+    it('restores tracked files to their staged content', () => {
+      writeFileSync(file('app.ts'), 'changed\n');
+
+      expect(service.discard(['app.ts']).success).toBe(true);
+      expect(readFileSync(file('app.ts'), 'utf8')).toBe('one\ntwo\nthree\n');
+    });
+
+    it('refuses to discard untracked files', () => {
+      writeFileSync(file('new.ts'), 'fresh\n');
+
+      const result = service.discard(['new.ts']);
+
+      expect(result).toEqual({ success: false, error: 'Cannot discard untracked files: new.ts' });
+      expect(readFileSync(file('new.ts'), 'utf8')).toBe('fresh\n');
+    });
+  });
+
+  describe('listDiscardable', () => {
+    it('lists only the files whose working copy differs from the index', () => {
+      writeFileSync(file('lib.ts'), 'lib\n');
+      git('add', 'lib.ts');
+      writeFileSync(file('app.ts'), 'changed\n');
+      writeFileSync(file('new.ts'), 'fresh\n');
+
+      expect(service.listDiscardable(['.'])).toEqual([file('app.ts')]);
+      expect(service.listDiscardable(['../outside.ts'])).toEqual([]);
+    });
+  });
+
+  describe('commit', () => {
+    it('commits the index and reports the new commit', () => {
+      writeFileSync(file('app.ts'), 'changed\n');
+      service.stage(['app.ts']);
+
+      const result = service.commit('Update app\n\nLonger description');
+
+      expect(result).toEqual({ success: true, commit: git('rev-parse', 'HEAD').trim(), summary: 'Update app' });
+      expect(git('log', '-1', '--pretty=%B').trim()).toBe('Update app\n\nLonger description');
+    });
+
+    it('amends the last commit, keeping its message when none is given', () => {
+      writeFileSync(file('app.ts'), 'changed\n');
+      service.stage(['app.ts']);
+
+      expect(service.commit(undefined, true)).toMatchObject({ success: true, summary: 'initial' });
+      expect(git('rev-list', '--count', 'HEAD').trim()).toBe('1');
+    });
+
+    it('requires a message for new commits', () => {
+      expect(service.commit('  ')).toEqual({ success: false, error: 'A commit message is required' });
+    });
+
+    it('surfaces git errors', () => {
+      const result = service.commit('Nothing staged');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('nothing to commit');
+    });
+  });
+});
@@ -41,7 +41,8 @@ describe('HostClientService - Path Translation', () => {
         mockFileSystemApi = {
             gitStatus: jest.fn(),
             copyToClipboard: jest.fn(),
-            importItems: jest.fn()
+            importItems: jest.fn(),
+            setListener: jest.fn()
         } as any;
 
         container.registerInstance(Logger, mockLogger);
@@ -318,6 +319,51 @@ describe('HostClientService - Path Translation', () => {
         });
     });
 
+    describe('git operations', () => {
+        const devServerWorkingDir = '/app/web';
+        const hostWorkingDir = '/Users/jamie/jsx-tool/web';
+
+        it('should translate staged paths to the host and back', () => {
+            expect(
+                (service as any).translateRequestParams(
+                    { paths: ['/app/web/src/app.tsx', '/app/web/package.json'] },
+                    devServerWorkingDir,
+                    hostWorkingDir,
+                    'git_stage'
+                )
+            ).toEqual({ paths: ['/Users/jamie/jsx-tool/web/src/app.tsx', '/Users/jamie/jsx-tool/web/package.json'] });
+
+            expect(
+                (service as any).translateResponsePayload(
+                    { success: true, paths: ['/Users/jamie/jsx-tool/web/src/app.tsx'] },
+                    devServerWorkingDir,
+                    hostWorkingDir,
+                    'git_stage'
+                )
+            ).toEqual({ success: true, paths: ['/app/web/src/app.tsx'] });
+        });
+
+        it('should translate the diffed file path', () => {
+            expect(
+                (service as any).translateRequestParams(
+                    { filePath: '/app/web/src/app.tsx', staged: true },
+                    devServerWorkingDir,
+                    hostWorkingDir,
+                    'git_diff'
+                )
+            ).toEqual({ filePath: '/Users/jamie/jsx-tool/web/src/app.tsx', staged: true });
+
+            expect(
+                (service as any).translateResponsePayload(
+                    { success: true, absolutePath: '/Users/jamie/jsx-tool/web/src/app.tsx', status: 'unchanged', hunks: [] },
+                    devServerWorkingDir,
+                    hostWorkingDir,
+                    'git_diff'
+                ).absolutePath
+            ).toBe('/app/web/src/app.tsx');
+        });
+    });
+
     describe('different working directory configurations', () => {
         it('should handle trailing slashes', () => {
             const devServerWorkingDir = '/app/web/';
@@ -0,0 +1,99 @@
+import 'reflect-metadata';
+import { container } from 'tsyringe';
+import { join } from 'path';
+import { mkdirSync, rmSync, writeFileSync } from 'fs';
+import { FileSystemApiService } from '../file-system-api.service';
+import { ConfigService } from '../config.service';
+import { Logger } from '../logger.service';
+import { IgnoreMatcher } from '../../utils/ignore-rules';
+
+describe('ignore files', () => {
+  const testDir = join(__dirname, 'test-ignore-files');
+  const file = (...parts: string[]) => join(testDir, ...parts);
+  const put = (relativePath: string, content = '') => {
+    mkdirSync(join(testDir, relativePath, '..'), { recursive: true });
+    writeFileSync(file(relativePath), content, 'utf8');
+  };
+  let fileSystemApi: FileSystemApiService;
+
+  beforeEach(() => {
+    container.clearInstances();
+    rmSync(testDir, { recursive: true, force: true });
+    put('package.json', '{}');
+    put('.gitignore', '# build output\ndist/\n*.txt\n!keep.txt\n/coverage\n');
+    put('.jsxtoolignore', 'src/generated/**\n');
+    put('src/app.ts');
+    put('src/generated/types.ts');
+    put('src/legacy/.gitignore', '*.js\n!entry.js\n');
+    put('src/legacy/old.js');
+    put('src/legacy/entry.js');
+    put('src/coverage/report.html');
+    put('dist/bundle.js');
+    put('coverage/index.html');
+    put('debug.txt');
+    put('keep.txt');
+    put('.git/config');
+
+    const logger = new Logger();
+    logger.setSilence(true);
+    container.registerInstance(Logger, logger);
+
+    container.resolve(ConfigService).setWorkingDirectory(testDir);
+    fileSystemApi = container.resolve(FileSystemApiService);
+  });
+
+  afterEach(() => {
+    rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('leaves ignored files out of tree', () => {
+    const files = fileSystemApi.tree(testDir).files;
+    expect(files).toEqual([
+      file('.gitignore'),
+      file('.jsxtoolignore'),
+      file('keep.txt'),
+      file('package.json'),
+      file('src', 'app.ts'),
+      file('src', 'coverage', 'report.html'),
+      file('src', 'legacy', '.gitignore'),
+      file('src', 'legacy', 'entry.js')
+    ]);
+  });
+
+  it('includes everything when respectIgnore is false', () => {
+    const files = fileSystemApi.tree(testDir, { respectIgnore: false }).files;
+    expect(files).toEqual(expect.arrayContaining([file('dist', 'bundle.js'), file('src', 'generated', 'types.ts'), file('debug.txt')]));
+  });
+
+  it('applies ignore files above the listed directory to ls', () => {
+    expect(fileSystemApi.ls(file('src', 'legacy')).files?.map(entry => entry.name).sort()).toEqual(['.gitignore', 'entry.js']);
+    expect(fileSystemApi.ls(testDir).files?.map(entry => entry.name)).not.toContain('dist');
+
+    const recursive = fileSystemApi.ls(file('src'), { recursive: true, filesOnly: true }).files?.map(entry => entry.path);
+    expect(recursive).not.toContain(file('src', 'generated', 'types.ts'));
+    expect(recursive).toContain(file('src', 'app.ts'));
+
+    const unfiltered = fileSystemApi.ls(file('src'), { recursive: true, respectIgnore: false }).files?.map(entry => entry.path);
+    expect(unfiltered).toContain(file('src', 'generated', 'types.ts'));
+  });
+
+  describe('IgnoreMatcher', () => {
+    it('matches paths below ignored directories, including deleted ones', () => {
+      const matcher = new IgnoreMatcher(testDir);
+      expect(matcher.isIgnored(file('dist', 'nested', 'gone.js'))).toBe(true);
+      expect(matcher.isIgnored(file('.git', 'HEAD'))).toBe(true);
+      expect(matcher.isIgnored(file('src', 'app.ts'))).toBe(false);
+      expect(matcher.isIgnored(file('keep.txt'))).toBe(false);
+    });
+
+    it('picks up changed ignore files after reset', () => {
+      const matcher = new IgnoreMatcher(testDir);
+      expect(matcher.isIgnored(file('src', 'app.ts'))).toBe(false);
+
+      put('src/.jsxtoolignore', 'app.ts\n');
+      expect(matcher.isIgnored(file('src', 'app.ts'))).toBe(false);
+      matcher.reset();
+      expect(matcher.isIgnored(file('src', 'app.ts'))).toBe(true);
+    });
+  });
+});
@@ -4,6 +4,7 @@ import { LspService } from '../lsp.service';
 import { ConfigService } from '../config.service';
 import { Logger } from '../logger.service';
 import { FileSystemApiService } from '../file-system-api.service';
+import { PathResolverService } from '../path-resolver.service';
 import type {
   CompletionResponse,
   HoverResponse,
@@ -102,6 +103,9 @@ describe('LspService', () => {
     container.registerInstance(ConfigService, mockConfigService);
     container.registerInstance(Logger, mockLogger);
     container.registerInstance(FileSystemApiService, mockFileSystemApi);
+    container.registerInstance(PathResolverService, {
+      locate: jest.fn((filePath: string) => ({ root: filePath.startsWith(mockWorkingDir) ? mockWorkingDir : null }))
+    } as unknown as PathResolverService);
 
     mockLanguageService = {
       getCompletionsAtPosition: jest.fn(),
@@ -659,6 +663,21 @@ describe('LspService', () => {
       expect(mockLogger.error).toHaveBeenCalledWith(expect.stringContaining('Error handling completion'));
     });
 
+    it('should not run a json-rpc request that was cancelled before it started', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await service.handleJsonRpc({
+        jsonrpc: '2.0',
+        id: 7,
+        method: 'textDocument/hover',
+        params: { textDocument: { uri: 'file:///project/root/src/app.ts' }, position: { line: 0, character: 5 } }
+      } as any, controller.signal);
+
+      expect(result).toEqual({ jsonrpc: '2.0', id: 7, error: { code: -32800, message: 'Request cancelled' } });
+      expect(mockLanguageService.getQuickInfoAtPosition).not.toHaveBeenCalled();
+    });
+
     it('should initialize language service if not already initialized', async () => {
       service.cleanup();
       (ts.createLanguageService as jest.Mock).mockClear();
@@ -0,0 +1,169 @@
+import 'reflect-metadata';
+import { container } from 'tsyringe';
+import { join } from 'path';
+import { existsSync, lstatSync, mkdirSync, readFileSync, rmSync, symlinkSync, writeFileSync } from 'fs';
+import { PathResolverService } from '../path-resolver.service';
+import { FileSystemApiService } from '../file-system-api.service';
+import { FileHistoryService } from '../file-history.service';
+import { ConfigService } from '../config.service';
+import { Logger } from '../logger.service';
+import * as pathContainment from '../../utils/path-containment';
+
+describe('PathResolverService', () => {
+  const testDir = join(__dirname, 'test-path-resolver');
+  const outsideDir = join(__dirname, 'test-path-resolver-outside');
+  let paths: PathResolverService;
+  let fileSystemApi: FileSystemApiService;
+
+  beforeEach(() => {
+    container.clearInstances();
+    for (const dir of [testDir, outsideDir]) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+    mkdirSync(join(testDir, 'src'), { recursive: true });
+    mkdirSync(outsideDir, { recursive: true });
+    writeFileSync(join(testDir, 'src', 'app.ts'), 'app');
+    writeFileSync(join(outsideDir, 'secret.txt'), 'secret');
+
+    const logger = new Logger();
+    logger.setSilence(true);
+    container.registerInstance(Logger, logger);
+
+    container.resolve(ConfigService).setWorkingDirectory(testDir);
+    paths = container.resolve(PathResolverService);
+    fileSystemApi = container.resolve(FileSystemApiService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    for (const dir of [testDir, outsideDir]) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  describe('resolve', () => {
+    it('resolves relative paths against the working directory, not the process cwd', () => {
+      expect(paths.resolve('src/app.ts')).toBe(join(testDir, 'src', 'app.ts'));
+      expect(fileSystemApi.readFile('src/app.ts').data).toBe('app');
+    });
+
+    it('uses the working directory for relative move sources', () => {
+      mkdirSync(join(testDir, 'lib'));
+
+      const result = fileSystemApi.moveItems(['src/app.ts'], 'lib');
+
+      expect(result.success).toBe(true);
+      expect(existsSync(join(testDir, 'lib', 'app.ts'))).toBe(true);
+    });
+  });
+
+  describe('.. segments', () => {
+    it('accepts paths that stay inside the project', () => {
+      expect(paths.locate('src/../src/app.ts').root).toBe(testDir);
+    });
+
+    it('rejects paths that climb out of the project', () => {
+      const escaping = join('..', 'test-path-resolver-outside', 'secret.txt');
+
+      expect(paths.locate(escaping).root).toBeNull();
+      expect(fileSystemApi.readFile(escaping).error).toContain('Path must be within working directory');
+    });
+  });
+
+  describe('symlinks', () => {
+    it('rejects files reached through a link that points outside the project', () => {
+      symlinkSync(join(outsideDir, 'secret.txt'), join(testDir, 'src', 'secret.txt'));
+
+      const result = fileSystemApi.readFile(join(testDir, 'src', 'secret.txt'));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('through a symbolic link');
+    });
+
+    it('rejects reads and writes below a linked directory outside the project', () => {
+      symlinkSync(outsideDir, join(testDir, 'linked'), 'dir');
+
+      expect(fileSystemApi.readFile(join(testDir, 'linked', 'secret.txt')).success).toBe(false);
+      expect(fileSystemApi.writeToFile(join(testDir, 'linked', 'new.txt'), 'x').success).toBe(false);
+      expect(existsSync(join(outsideDir, 'new.txt'))).toBe(false);
+      expect(fileSystemApi.ls(join(testDir, 'linked')).success).toBe(false);
+    });
+
+    it('rejects writes through a dangling link that points outside the project', () => {
+      symlinkSync(join(outsideDir, 'planted.txt'), join(testDir, 'src', 'planted.txt'));
+
+      expect(fileSystemApi.writeToFile(join(testDir, 'src', 'planted.txt'), 'x').success).toBe(false);
+      expect(existsSync(join(outsideDir, 'planted.txt'))).toBe(false);
+    });
+
+    it('leaves escaping links out of listings and trees', () => {
+      writeFileSync(join(testDir, 'package.json'), '{}');
+      symlinkSync(outsideDir, join(testDir, 'linked'), 'dir');
+      symlinkSync(join(outsideDir, 'secret.txt'), join(testDir, 'src', 'secret.txt'));
+
+      const listed = fileSystemApi.ls(testDir, { recursive: true }).files?.map(file => file.path);
+      const tree = fileSystemApi.tree(testDir).files;
+
+      expect(listed).toContain(join(testDir, 'src', 'app.ts'));
+      expect(listed).not.toContain(join(testDir, 'linked'));
+      expect(listed).not.toContain(join(testDir, 'src', 'secret.txt'));
+      expect(tree).toContain(join(testDir, 'src', 'app.ts'));
+      expect(tree).not.toContain(join(testDir, 'src', 'secret.txt'));
+      expect(tree?.some(file => file.startsWith(join(testDir, 'linked')))).toBe(false);
+    });
+
+    it('never follows escaping links when removing, copying or snapshotting a directory', () => {
+      symlinkSync(outsideDir, join(testDir, 'src', 'linked'), 'dir');
+      symlinkSync(join(outsideDir, 'secret.txt'), join(testDir, 'src', 'secret.txt'));
+      mkdirSync(join(testDir, 'lib'));
+
+      const history = container.resolve(FileHistoryService);
+      expect(history.captureDirectory(join(testDir, 'src')).map(snapshot => snapshot.filePath))
+        .toEqual([join(testDir, 'src', 'app.ts')]);
+
+      expect(fileSystemApi.copyItems([join(testDir, 'src')], join(testDir, 'lib')).success).toBe(true);
+      expect(existsSync(join(testDir, 'lib', 'src', 'app.ts'))).toBe(true);
+      expect(lstatSync(join(testDir, 'lib', 'src', 'linked'), { throwIfNoEntry: false })).toBeUndefined();
+      expect(lstatSync(join(testDir, 'lib', 'src', 'secret.txt'), { throwIfNoEntry: false })).toBeUndefined();
+
+      expect(fileSystemApi.rmDir(join(testDir, 'src'), true, true).success).toBe(true);
+      expect(existsSync(join(testDir, 'src'))).toBe(false);
+      expect(readFileSync(join(outsideDir, 'secret.txt'), 'utf8')).toBe('secret');
+    });
+
+    it('allows links that stay inside the project', () => {
+      symlinkSync(join(testDir, 'src', 'app.ts'), join(testDir, 'alias.ts'));
+
+      expect(fileSystemApi.readFile(join(testDir, 'alias.ts')).data).toBe('app');
+    });
+
+    it('applies the file access rules to the link target', () => {
+      writeFileSync(join(testDir, '.env'), 'TOKEN=1');
+      symlinkSync(join(testDir, '.env'), join(testDir, 'src', 'env.txt'));
+
+      expect(fileSystemApi.readFile(join(testDir, 'src', 'env.txt')).error).toContain("file access rule '.env*'");
+    });
+  });
+
+  describe('case-insensitive filesystems', () => {
+    it('compares paths ignoring case only when asked to', () => {
+      expect(pathContainment.isWithin('/Users/Dev/Project', '/users/dev/project/src/App.tsx', true)).toBe(true);
+      expect(pathContainment.isWithin('/Users/Dev/Project', '/users/dev/project/src/App.tsx')).toBe(false);
+      expect(pathContainment.isWithin('/Users/Dev/Project', '/Users/Dev/Other/App.tsx', true)).toBe(false);
+    });
+
+    it('detects whether the filesystem folds case', () => {
+      const folds = existsSync(testDir.toUpperCase());
+
+      expect(pathContainment.isCaseInsensitiveFs(testDir)).toBe(folds);
+    });
+
+    it('contains differently cased paths when the root folds case', () => {
+      jest.spyOn(pathContainment, 'isCaseInsensitiveFs').mockReturnValue(true);
+      const differentlyCased = join(testDir, 'SRC', 'App.ts');
+
+      expect(paths.findRoot(differentlyCased.toUpperCase())).toBe(testDir);
+      expect(paths.findRoot(join(outsideDir, 'secret.txt').toUpperCase())).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import 'reflect-metadata';
+import { REPLAY_WINDOW_MS, ReplayGuardService } from '../replay-guard.service';
+import type { KeyManager } from '../key-manager.service';
+
+describe('ReplayGuardService', () => {
+  let currentKey: { uuid: string } | null;
+  let guard: ReplayGuardService;
+
+  beforeEach(() => {
+    currentKey = { uuid: 'key-a' };
+    const keyManager = {
+      getCurrentKey: jest.fn(() => currentKey)
+    } as unknown as KeyManager;
+    guard = new ReplayGuardService(keyManager);
+  });
+
+  it('accepts a message once and rejects duplicates', () => {
+    const now = Date.now();
+    expect(guard.check('m1', now, undefined, now)).toEqual({ accepted: true });
+    expect(guard.check('m1', now, undefined, now)).toMatchObject({ accepted: false, code: 'REPLAYED_MESSAGE' });
+  });
+
+  it('rejects timestamps outside the window in either direction', () => {
+    const now = Date.now();
+    expect(guard.check('old', now - REPLAY_WINDOW_MS - 1, undefined, now)).toMatchObject({ code: 'STALE_MESSAGE' });
+    expect(guard.check('future', now + REPLAY_WINDOW_MS + 1, undefined, now)).toMatchObject({ code: 'STALE_MESSAGE' });
+    expect(guard.check('edge', now - REPLAY_WINDOW_MS, undefined, now)).toEqual({ accepted: true });
+  });
+
+  it('tracks seen messages per key', () => {
+    expect(guard.check('m1')).toEqual({ accepted: true });
+    currentKey = { uuid: 'key-b' };
+    expect(guard.check('m1')).toEqual({ accepted: true });
+    currentKey = { uuid: 'key-a' };
+    expect(guard.check('m1')).toMatchObject({ code: 'REPLAYED_MESSAGE' });
+  });
+
+  it('rejects a reused nonce under a new message id', () => {
+    const now = Date.now();
+    expect(guard.check('m1', now, 'nonce-1', now)).toEqual({ accepted: true });
+    expect(guard.check('m2', now, 'nonce-1', now)).toMatchObject({ code: 'REPLAYED_MESSAGE' });
+  });
+
+  it('forgets messages only once their timestamp has left the window', () => {
+    const now = Date.now();
+    for (let i = 0; i < 2500; i++) {
+      expect(guard.check(`m${i}`, now, `n${i}`, now)).toEqual({ accepted: true });
+    }
+
+    expect(guard.check('extra', now, 'n-extra', now)).toMatchObject({ code: 'RATE_LIMITED' });
+    expect(guard.check('m0', now, 'n0', now)).toMatchObject({ code: 'REPLAYED_MESSAGE' });
+
+    const later = now + REPLAY_WINDOW_MS + 1;
+    expect(guard.check('extra', later, 'n-extra', later)).toEqual({ accepted: true });
+  });
+
+  it('never forgets legacy message ids, which cannot go stale', () => {
+    for (let i = 0; i < 5000; i++) {
+      guard.check(`m${i}`);
+    }
+
+    expect(guard.check('m0', undefined, undefined, Date.now() + 10 * REPLAY_WINDOW_MS)).toMatchObject({ code: 'REPLAYED_MESSAGE' });
+    expect(guard.check('m5000')).toMatchObject({ code: 'RATE_LIMITED' });
+  });
+});
@@ -0,0 +1,146 @@
+jest.mock('child_process');
+jest.mock('@vscode/ripgrep', () => ({ rgPath: '/mock/rg' }));
+
+import 'reflect-metadata';
+import { EventEmitter } from 'events';
+import { spawn } from 'child_process';
+import { RipGrepService } from '../ripgrep.service';
+import type { ConfigService } from '../config.service';
+import type { FileSystemApiService } from '../file-system-api.service';
+import type { Logger } from '../logger.service';
+
+class MockChild extends EventEmitter {
+  stdout = new EventEmitter();
+  stderr = new EventEmitter();
+  kill = jest.fn(() => {
+    setImmediate(() => this.emit('close', null));
+  });
+}
+
+const matchLine = (file: string, line: number, text: string) => JSON.stringify({
+  type: 'match',
+  data: {
+    path: { text: file },
+    lines: { text: `${text}\n` },
+    line_number: line,
+    absolute_offset: 0,
+    submatches: [{ match: { text: 'needle' }, start: 0, end: 6 }]
+  }
+}) + '\n';
+
+describe('RipGrepService', () => {
+  let service: RipGrepService;
+  let children: MockChild[];
+  let additionalDirectories: string[];
+
+  beforeEach(() => {
+    children = [];
+    additionalDirectories = [];
+    (spawn as jest.Mock).mockImplementation(() => {
+      const child = new MockChild();
+      children.push(child);
+      return child;
+    });
+
+    const config = {
+      getConfig: jest.fn(() => ({ workingDirectory: '/project', additionalDirectories }))
+    } as unknown as ConfigService;
+    const fsApi = {
+      isPathSafe: jest.fn().mockReturnValue({ safe: true }),
+      isFileAccessAllowed: jest.fn((filePath: string) => !filePath.endsWith('.env'))
+    } as unknown as FileSystemApiService;
+    const logger = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      success: jest.fn()
+    } as unknown as Logger;
+
+    service = new RipGrepService(config, fsApi, logger);
+  });
+
+  const flush = async () => { await new Promise(resolve => setImmediate(resolve)); };
+
+  it('emits matches as JSON lines arrive, including lines split across chunks', async () => {
+    const batches: string[][] = [];
+    const done = service.searchStream('needle', {}, {
+      onMatches: (_root, matches) => { batches.push(matches.map(m => m.line)); }
+    });
+    await flush();
+
+    const [child] = children;
+    const second = matchLine('b.ts', 2, 'needle two');
+    child.stdout.emit('data', Buffer.from(matchLine('a.ts', 1, 'needle one') + second.slice(0, 10)));
+    expect(batches).toEqual([['needle one']]);
+
+    child.stdout.emit('data', Buffer.from(second.slice(10)));
+    child.emit('close', 0);
+
+    const summary = await done;
+    expect(batches).toEqual([['needle one'], ['needle two']]);
+    expect(summary).toMatchObject({ success: true, totalMatches: 2, truncated: false });
+  });
+
+  it('stops at exactly maxResults and kills ripgrep', async () => {
+    const done = service.search('needle', { maxResults: 2 });
+    await flush();
+
+    const [child] = children;
+    child.stdout.emit('data', Buffer.from(
+      matchLine('a.ts', 1, 'one') + matchLine('a.ts', 2, 'two') + matchLine('a.ts', 3, 'three')
+    ));
+
+    const result = await done;
+    expect(result.matches.map(m => m.line)).toEqual(['one', 'two']);
+    expect(result.truncated).toBe(true);
+    expect(child.kill).toHaveBeenCalled();
+    expect((spawn as jest.Mock).mock.calls[0][1]).not.toContain('--max-count');
+  });
+
+  it('drops matches in files denied by the file access policy', async () => {
+    const done = service.search('needle', {});
+    await flush();
+
+    const [child] = children;
+    child.stdout.emit('data', Buffer.from(matchLine('.env', 1, 'SECRET=needle') + matchLine('a.ts', 1, 'needle')));
+    child.emit('close', 0);
+
+    const result = await done;
+    expect(result.matches.map(m => m.absolutePath)).toEqual(['/project/a.ts']);
+  });
+
+  it('reports per-root progress and carries the remaining limit across roots', async () => {
+    additionalDirectories = ['packages/ui'];
+    const progress: Array<[number, number, number]> = [];
+    const done = service.searchStream('needle', { maxResults: 2 }, {
+      onMatches: () => { },
+      onRootComplete: (_root, index, count, matchCount) => { progress.push([index, count, matchCount]); }
+    });
+    await flush();
+
+    children[0].stdout.emit('data', Buffer.from(matchLine('a.ts', 1, 'one')));
+    children[0].emit('close', 0);
+    await flush();
+
+    children[1].stdout.emit('data', Buffer.from(matchLine('b.ts', 1, 'two') + matchLine('b.ts', 2, 'three')));
+
+    const summary = await done;
+    expect(progress).toEqual([[0, 2, 1], [1, 2, 1]]);
+    expect(summary.totalMatches).toBe(2);
+    expect(summary.truncated).toBe(true);
+  });
+
+  it('kills ripgrep when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const done = service.search('needle', {}, controller.signal);
+    await flush();
+
+    controller.abort();
+    const result = await done;
+
+    expect(children[0].kill).toHaveBeenCalled();
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Search failed: Search cancelled');
+  });
+});
@@ -0,0 +1,101 @@
+import 'reflect-metadata';
+import { SubscriptionService } from '../subscription.service';
+import type { ConfigService } from '../config.service';
+
+describe('SubscriptionService', () => {
+  let service: SubscriptionService;
+  const client = {};
+
+  beforeEach(() => {
+    const config = {
+      getConfig: jest.fn(() => ({ workingDirectory: '/project' }))
+    } as unknown as ConfigService;
+    service = new SubscriptionService(config);
+  });
+
+  it('delivers everything to clients that never subscribed', () => {
+    const event = { event_name: 'terminal_output_available' as const, session_id: 's1' };
+    expect(service.select(client, event)).toBe(event);
+  });
+
+  it('sends opt-in topics only to clients that subscribed to them', () => {
+    const event = { event_name: 'git_hunks_changed' as const, files: [] };
+    expect(service.select(client, event)).toBeNull();
+    expect(service.hasSubscribers('git_hunks')).toBe(false);
+
+    service.subscribe(client, 'git_hunks');
+    expect(service.select(client, event)).toBe(event);
+    expect(service.hasSubscribers('git_hunks')).toBe(true);
+    expect(service.hasSubscribers('terminal')).toBe(false);
+  });
+
+  it('drops topics the client has not subscribed to', () => {
+    service.subscribe(client, 'diagnostics');
+    expect(service.select(client, { event_name: 'updated_unix_client_info' })).toBeNull();
+  });
+
+  it('narrows file changes to the subscribed globs', () => {
+    service.subscribe(client, 'file_changes', { globs: ['src/**/*.tsx', '*.css'] });
+
+    const selected = service.select(client, {
+      event_name: 'updated_project_info',
+      file_changes: [
+        { type: 'changed', absolutePath: '/project/src/components/App.tsx' },
+        { type: 'changed', absolutePath: '/project/src/index.ts' },
+        { type: 'added', absolutePath: '/project/styles/main.css' }
+      ]
+    });
+
+    expect(selected).toEqual({
+      event_name: 'updated_project_info',
+      file_changes: [
+        { type: 'changed', absolutePath: '/project/src/components/App.tsx' },
+        { type: 'added', absolutePath: '/project/styles/main.css' }
+      ]
+    });
+
+    expect(service.select(client, {
+      event_name: 'updated_project_info',
+      file_changes: [{ type: 'changed', absolutePath: '/project/README.md' }]
+    })).toBeNull();
+  });
+
+  it('narrows git hunks to the subscribed globs', () => {
+    service.subscribe(client, 'git_hunks', { globs: ['src/**'] });
+    const hunks = [{ type: 'modified' as const, startLine: 3, lineCount: 1 }];
+
+    expect(service.select(client, {
+      event_name: 'git_hunks_changed',
+      files: [
+        { absolutePath: '/project/src/App.tsx', hunks },
+        { absolutePath: '/project/README.md', hunks }
+      ]
+    })).toEqual({ event_name: 'git_hunks_changed', files: [{ absolutePath: '/project/src/App.tsx', hunks }] });
+    expect(service.select(client, { event_name: 'updated_project_info', file_changes: [] })).toBeNull();
+  });
+
+  it('filters diagnostics by uri and terminal events by session id', () => {
+    service.subscribe(client, 'diagnostics', { uris: ['file:///project/a.ts'] });
+    service.subscribe(client, 'terminal', { session_ids: ['s1'] });
+
+    const diagnostics = (uri: string) => ({
+      event_name: 'lsp_update' as const,
+      lsp_response: { jsonrpc: '2.0', method: 'textDocument/publishDiagnostics', params: { uri, diagnostics: [] } } as any
+    });
+
+    expect(service.select(client, diagnostics('file:///project/a.ts'))).not.toBeNull();
+    expect(service.select(client, diagnostics('file:///project/b.ts'))).toBeNull();
+    expect(service.select(client, { event_name: 'terminal_output_available', session_id: 's2' })).toBeNull();
+    expect(service.select(client, { event_name: 'terminal_session_closed', session_id: 's1', exit_code: 0 })).not.toBeNull();
+    expect(service.select(client, { event_name: 'terminal_session_created', session_id: 's3' })).not.toBeNull();
+  });
+
+  it('stops delivering once the subscription is removed', () => {
+    const subscription = service.subscribe(client, 'unix_client_info');
+    expect(service.select(client, { event_name: 'updated_unix_client_info' })).not.toBeNull();
+
+    expect(service.unsubscribe(client, subscription.id)).toBe(true);
+    expect(service.unsubscribe(client, subscription.id)).toBe(false);
+    expect(service.select(client, { event_name: 'updated_unix_client_info' })).toBeNull();
+  });
+});
@@ -7,6 +7,10 @@ import { KeyFetcher } from '../key-fetcher.service';
 import { KeyManager } from '../key-manager.service';
 import { SignatureVerifierService } from '../signature-verifier.service';
 import { FileSystemApiService } from '../file-system-api.service';
+import { RipGrepService } from '../ripgrep.service';
+import { GitService } from '../git.service';
+import { FileHistoryService } from '../file-history.service';
+import { MIN_CLIENT_PROTOCOL_VERSION, PROTOCOL_VERSION } from '../../protocol';
 import WebSocket from 'ws';
 
 jest.setTimeout(10_000);
@@ -171,4 +175,664 @@ describe('WebSocketService', () => {
     expect(mockSocket.send).toHaveBeenCalledWith(expect.stringContaining('"isMatching":false'));
     expect(mockSocket.send).toHaveBeenCalledWith(expect.stringContaining('"message_id":"2"'));
   });
+
+  describe('handshake', () => {
+    const mkSocket = () => ({
+      send: jest.fn(),
+      on: jest.fn(),
+      close: jest.fn(),
+    }) as unknown as WebSocket & { send: jest.Mock, close: jest.Mock };
+
+    it('advertises the protocol version in the init message', done => {
+      wsService.start().then(() => {
+        const client = new WebSocket('ws://localhost:9999');
+        client.on('message', data => {
+          const init = JSON.parse(data.toString());
+          expect(init).toMatchObject({
+            event_name: 'init',
+            key_ready: false,
+            protocol_version: PROTOCOL_VERSION,
+            min_client_protocol_version: MIN_CLIENT_PROTOCOL_VERSION
+          });
+          client.close();
+          done();
+        });
+      });
+    });
+
+    it('acknowledges compatible clients with capabilities', async () => {
+      const socket = mkSocket();
+      await (wsService as any).handleMessage(JSON.stringify({
+        event_name: 'handshake',
+        protocol_version: PROTOCOL_VERSION,
+        client_version: '1.2.3'
+      }), socket);
+
+      const ack = JSON.parse(socket.send.mock.calls[0][0]);
+      expect(ack.event_name).toBe('handshake_ack');
+      expect(ack.protocol_version).toBe(PROTOCOL_VERSION);
+      expect(ack.capabilities.events).toEqual(expect.arrayContaining(['read_file', 'search_stream', 'get_capabilities']));
+      expect(ack.capabilities.subsystems).toEqual(expect.objectContaining({
+        hostClient: false,
+        eslint: false
+      }));
+      expect(ack.capabilities.limits.hostRequestTimeoutMs).toBe(10000);
+      expect(socket.close).not.toHaveBeenCalled();
+    });
+
+    it('rejects clients with an unsupported protocol version and closes the socket', async () => {
+      const socket = mkSocket();
+      await (wsService as any).handleMessage(JSON.stringify({
+        event_name: 'handshake',
+        protocol_version: MIN_CLIENT_PROTOCOL_VERSION - 1
+      }), socket);
+
+      const rejection = JSON.parse(socket.send.mock.calls[0][0]);
+      expect(rejection.event_name).toBe('handshake_rejected');
+      expect(rejection.code).toBe('UNSUPPORTED_PROTOCOL');
+      expect(rejection.min_client_protocol_version).toBe(MIN_CLIENT_PROTOCOL_VERSION);
+      expect(socket.close).toHaveBeenCalledWith(4000, 'Incompatible protocol version');
+    });
+
+    it('rejects clients that announce a newer protocol than the server speaks', async () => {
+      const socket = mkSocket();
+      await (wsService as any).handleMessage(JSON.stringify({
+        event_name: 'handshake',
+        protocol_version: PROTOCOL_VERSION + 1
+      }), socket);
+
+      const rejection = JSON.parse(socket.send.mock.calls[0][0]);
+      expect(rejection).toMatchObject({
+        event_name: 'handshake_rejected',
+        code: 'UNSUPPORTED_PROTOCOL',
+        protocol_version: PROTOCOL_VERSION,
+        reason: expect.stringContaining('newer than this server supports')
+      });
+      expect((wsService as any).clientHandshakes.has(socket)).toBe(false);
+      expect(socket.close).toHaveBeenCalledWith(4000, 'Incompatible protocol version');
+    });
+  });
+
+  describe('subscriptions', () => {
+    const mkSocket = () => ({
+      readyState: WebSocket.OPEN,
+      send: jest.fn(),
+      on: jest.fn(),
+      close: jest.fn(),
+    }) as unknown as WebSocket & { send: jest.Mock };
+
+    const sentEvents = (socket: { send: jest.Mock }) =>
+      socket.send.mock.calls.map(([raw]) => JSON.parse(raw));
+
+    it('routes topic broadcasts only to matching subscribers', async () => {
+      const subscriber = mkSocket();
+      const legacy = mkSocket();
+      (wsService as any).clients.add(subscriber);
+      (wsService as any).clients.add(legacy);
+
+      await (wsService as any).handleMessage(JSON.stringify({
+        event_name: 'subscribe',
+        params: { topic: 'file_changes', filter: { globs: ['*.tsx'] } },
+        message_id: 'sub1',
+        signature: 'mock-signature'
+      }), subscriber);
+
+      const [ack] = sentEvents(subscriber);
+      expect(ack.payload).toEqual({ subscription_id: expect.any(String), topic: 'file_changes' });
+      subscriber.send.mockClear();
+
+      wsService.broadcastProjectInfoChanged([
+        { type: 'changed', absolutePath: `${process.cwd()}/src/App.tsx` },
+        { type: 'changed', absolutePath: `${process.cwd()}/src/util.ts` }
+      ]);
+      wsService.broadcastUnixConnectionsChanged();
+
+      expect(sentEvents(subscriber)).toEqual([{
+        event_name: 'updated_project_info',
+        file_changes: [{ type: 'changed', absolutePath: `${process.cwd()}/src/App.tsx` }]
+      }]);
+      expect(sentEvents(legacy).map(event => event.event_name)).toEqual([
+        'updated_project_info',
+        'updated_unix_client_info'
+      ]);
+      expect(sentEvents(legacy)[0].file_changes).toHaveLength(2);
+    });
+
+    it('rejects unknown topics with INVALID_PARAMS', async () => {
+      const socket = mkSocket();
+      await (wsService as any).handleMessage(JSON.stringify({
+        event_name: 'subscribe',
+        params: { topic: 'everything' },
+        message_id: 'sub2',
+        signature: 'mock-signature'
+      }), socket);
+
+      expect(sentEvents(socket)[0].error.code).toBe('INVALID_PARAMS');
+    });
+  });
+
+  describe('batch', () => {
+    const mkSocket = () => ({
+      send: jest.fn(),
+      on: jest.fn(),
+      close: jest.fn(),
+    }) as unknown as WebSocket & { send: jest.Mock };
+
+    const item = (event_name: string, params: unknown, message_id: string, signature = 'mock-signature') =>
+      ({ event_name, params, message_id, signature });
+
+    const runBatch = async (params: Record<string, unknown>) => {
+      const socket = mkSocket();
+      await (wsService as any).handleMessage(JSON.stringify({
+        event_name: 'batch',
+        params,
+        message_id: 'batch-1',
+        signature: 'mock-signature'
+      }), socket);
+      expect(socket.send).toHaveBeenCalledTimes(1);
+      return JSON.parse(socket.send.mock.calls[0][0]);
+    };
+
+    it('runs mixed sub-requests and returns per-item responses in order', async () => {
+      const fsApi = container.resolve(FileSystemApiService);
+      jest.spyOn(fsApi, 'exists').mockReturnValue({ exists: true } as any);
+      jest.spyOn(fsApi, 'readFile').mockReturnValue({ success: true, data: 'hello' });
+
+      const response = await runBatch({
+        requests: [
+          item('exists', { filePath: 'a.ts' }, 'i1'),
+          item('read_file', { filePath: 'a.ts' }, 'i2'),
+          item('read_file', {}, 'i3')
+        ]
+      });
+
+      expect(response.message_id).toBe('batch-1');
+      const [exists, read, invalid] = response.payload.responses;
+      expect(exists).toMatchObject({ message_id: 'i1', event_response: 'exists', payload: { response: { exists: true } } });
+      expect(read).toMatchObject({ message_id: 'i2', event_response: 'read_file', payload: { response: { data: 'hello' } } });
+      expect(invalid).toMatchObject({ message_id: 'i3', error: { code: 'INVALID_PARAMS' } });
+    });
+
+    it('verifies the signature of every item', async () => {
+      const verifier = container.resolve(SignatureVerifierService) as unknown as MockSigVerifier;
+      verifier.verify.mockImplementation((_payload: unknown, signature: string) => signature !== 'forged');
+
+      const response = await runBatch({
+        requests: [
+          item('get_version', {}, 'v1'),
+          item('get_version', {}, 'v2', 'forged')
+        ]
+      });
+
+      expect(response.payload.responses[0].payload).toBeDefined();
+      expect(response.payload.responses[1].error.code).toBe('INVALID_SIGNATURE');
+    });
+
+    it('skips the remaining items after a failure when stopOnError is set', async () => {
+      const response = await runBatch({
+        stopOnError: true,
+        requests: [
+          item('get_version', {}, 's1'),
+          item('does_not_exist', {}, 's2'),
+          item('get_version', {}, 's3')
+        ]
+      });
+
+      expect(response.payload.responses.map((r: any) => r.error?.code ?? 'OK')).toEqual(['OK', 'UNKNOWN_EVENT', 'SKIPPED']);
+    });
+
+    it('stops after an item whose handler reports a failure', async () => {
+      const fsApi = container.resolve(FileSystemApiService);
+      jest.spyOn(fsApi, 'writeToFile').mockReturnValue({ success: false, error: 'denied' } as any);
+      const rm = jest.spyOn(fsApi, 'rm');
+
+      const response = await runBatch({
+        stopOnError: true,
+        requests: [
+          item('write_file', { filePath: 'a.ts', content: 'x' }, 'f1'),
+          item('rm', { filePath: 'b.ts' }, 'f2'),
+          item('get_version', {}, 'f3')
+        ]
+      });
+
+      expect(response.payload.responses[0].payload.response.success).toBe(false);
+      expect(response.payload.responses.slice(1).map((r: any) => r.error?.code)).toEqual(['SKIPPED', 'SKIPPED']);
+      expect(rm).not.toHaveBeenCalled();
+    });
+
+    it('rejects nested batches', async () => {
+      const response = await runBatch({
+        mode: 'parallel',
+        requests: [item('batch', { requests: [] }, 'n1')]
+      });
+
+      expect(response.payload.responses[0].error).toEqual({
+        code: 'INVALID_PARAMS',
+        message: 'Batches cannot be nested'
+      });
+    });
+  });
+
+  describe('heartbeat', () => {
+    const mkSocket = () => ({
+      readyState: WebSocket.OPEN,
+      send: jest.fn(),
+      on: jest.fn(),
+      close: jest.fn(),
+      ping: jest.fn(),
+      terminate: jest.fn(),
+    }) as unknown as WebSocket & { send: jest.Mock, ping: jest.Mock, terminate: jest.Mock };
+
+    const track = (socket: WebSocket) => {
+      (wsService as any).clients.add(socket);
+      (wsService as any).heartbeats.set(socket, { lastPingAt: null, lastPongAt: null, rttMs: null });
+    };
+
+    it('pings clients, records RTT and terminates those that stop answering', () => {
+      const alive = mkSocket();
+      const dead = mkSocket();
+      track(alive);
+      track(dead);
+
+      (wsService as any).checkHeartbeats(1000);
+      expect(alive.ping).toHaveBeenCalledTimes(1);
+      expect(dead.ping).toHaveBeenCalledTimes(1);
+
+      (wsService as any).recordPong(alive, 1040);
+      (wsService as any).checkHeartbeats(16000);
+      expect(alive.ping).toHaveBeenCalledTimes(2);
+      expect(dead.ping).toHaveBeenCalledTimes(1);
+      expect(dead.terminate).not.toHaveBeenCalled();
+
+      (wsService as any).checkHeartbeats(31000);
+      expect(dead.terminate).toHaveBeenCalled();
+      expect(alive.terminate).not.toHaveBeenCalled();
+
+      expect(wsService.getConnectionHealth(alive).client).toEqual({ last_pong_at: 1040, rtt_ms: 40 });
+    });
+
+    it('fails pending host requests and broadcasts when the host disconnects', async () => {
+      const host = mkSocket();
+      const browser = mkSocket();
+      (wsService as any).clients.add(browser);
+      (wsService as any).hostClient = host;
+
+      const pending = (wsService as any).sendToHost({
+        event_name: 'get_git_status',
+        params: {},
+        message_id: 'h1',
+        signature: 'mock-signature'
+      });
+
+      (wsService as any).handleHostDisconnected();
+
+      await expect(pending).rejects.toMatchObject({ code: 'HOST_UNAVAILABLE', message: 'Host client disconnected' });
+      expect(JSON.parse(browser.send.mock.calls[0][0])).toEqual({ event_name: 'host_disconnected' });
+      expect(wsService.hasHostClient()).toBe(false);
+    });
+  });
+
+  describe('replay protection', () => {
+    const mkSocket = () => ({
+      send: jest.fn(),
+      on: jest.fn(),
+      close: jest.fn(),
+    }) as unknown as WebSocket & { send: jest.Mock };
+
+    const lastResponse = (socket: { send: jest.Mock }) =>
+      JSON.parse(socket.send.mock.calls[socket.send.mock.calls.length - 1][0]);
+
+    const signedMessage = (messageId: string, extra: Record<string, unknown> = {}) => JSON.stringify({
+      event_name: 'get_version',
+      params: {},
+      message_id: messageId,
+      signature: 'mock-signature',
+      ...extra
+    });
+
+    it('verifies nonce and timestamp as part of the signed payload', async () => {
+      const verifier = container.resolve(SignatureVerifierService) as unknown as MockSigVerifier;
+      const socket = mkSocket();
+      const timestamp = Date.now();
+
+      await (wsService as any).handleMessage(signedMessage('r1', { nonce: 'n1', timestamp }), socket);
+
+      expect(verifier.verify).toHaveBeenCalledWith(
+        { event_name: 'get_version', params: {}, message_id: 'r1', nonce: 'n1', timestamp },
+        'mock-signature'
+      );
+      expect(lastResponse(socket).payload).toBeDefined();
+    });
+
+    it('rejects a replayed message_id with REPLAYED_MESSAGE', async () => {
+      const socket = mkSocket();
+      const message = signedMessage('r2', { nonce: 'n2', timestamp: Date.now() });
+
+      await (wsService as any).handleMessage(message, socket);
+      await (wsService as any).handleMessage(message, socket);
+
+      expect(socket.send).toHaveBeenCalledTimes(2);
+      expect(lastResponse(socket).error.code).toBe('REPLAYED_MESSAGE');
+    });
+
+    it('rejects messages outside the timestamp window with STALE_MESSAGE', async () => {
+      const socket = mkSocket();
+      await (wsService as any).handleMessage(
+        signedMessage('r3', { nonce: 'n3', timestamp: Date.now() - 5 * 60 * 1000 }),
+        socket
+      );
+
+      expect(lastResponse(socket).error.code).toBe('STALE_MESSAGE');
+    });
+
+    it('accepts legacy signatures from clients that predate replay protection', async () => {
+      const socket = mkSocket();
+      await (wsService as any).handleMessage(signedMessage('r4'), socket);
+      expect(lastResponse(socket).payload).toBeDefined();
+
+      await (wsService as any).handleMessage(signedMessage('r4'), socket);
+      expect(lastResponse(socket).error.code).toBe('REPLAYED_MESSAGE');
+    });
+
+    it('requires nonce and timestamp once the client has handshaken with a newer protocol', async () => {
+      const socket = mkSocket();
+      await (wsService as any).handleMessage(JSON.stringify({
+        event_name: 'handshake',
+        protocol_version: PROTOCOL_VERSION
+      }), socket);
+
+      await (wsService as any).handleMessage(signedMessage('r5'), socket);
+
+      expect(lastResponse(socket).error).toEqual({
+        code: 'INVALID_SIGNATURE',
+        message: 'Signed messages must include a nonce and timestamp'
+      });
+    });
+  });
+
+  describe('error responses', () => {
+    const mkSocket = () => ({
+      send: jest.fn(),
+      on: jest.fn(),
+      close: jest.fn(),
+    }) as unknown as WebSocket & { send: jest.Mock };
+
+    const lastResponse = (socket: { send: jest.Mock }) =>
+      JSON.parse(socket.send.mock.calls[socket.send.mock.calls.length - 1][0]);
+
+    it('rejects unknown events with UNKNOWN_EVENT', async () => {
+      const socket = mkSocket();
+      await (wsService as any).handleMessage(JSON.stringify({
+        event_name: 'does_not_exist',
+        params: {},
+        message_id: 'u1',
+        signature: 'mock-signature'
+      }), socket);
+
+      expect(lastResponse(socket)).toEqual({
+        message_id: 'u1',
+        event_response: 'does_not_exist',
+        error: { code: 'UNKNOWN_EVENT', message: 'Unknown event: does_not_exist' }
+      });
+    });
+
+    it('rejects invalid signatures with INVALID_SIGNATURE', async () => {
+      const verifier = container.resolve(SignatureVerifierService) as unknown as MockSigVerifier;
+      verifier.verify.mockReturnValueOnce(false);
+
+      const socket = mkSocket();
+      await (wsService as any).handleMessage(JSON.stringify({
+        event_name: 'get_version',
+        params: {},
+        message_id: 's1',
+        signature: 'bad-signature'
+      }), socket);
+
+      const response = lastResponse(socket);
+      expect(response.message_id).toBe('s1');
+      expect(response.error.code).toBe('INVALID_SIGNATURE');
+      expect(response.payload).toBeUndefined();
+    });
+
+    it('rejects terminal requests with a mismatched secret', async () => {
+      const config = container.resolve(ConfigService);
+      jest.spyOn(config, 'getTerminalSecretPath').mockReturnValue('/path/to/terminal-secret');
+      const fsApi = container.resolve(FileSystemApiService);
+      jest.spyOn(fsApi, 'readFile').mockReturnValue({ success: true, data: 'correct-secret' });
+
+      const socket = mkSocket();
+      await (wsService as any).handleMessage(JSON.stringify({
+        event_name: 'fetch_terminal_sessions',
+        params: { secret: 'wrong-secret' },
+        message_id: 't1',
+        signature: 'mock-signature'
+      }), socket);
+
+      expect(lastResponse(socket).error.code).toBe('TERMINAL_SECRET_MISMATCH');
+    });
+
+    it('rejects malformed params with field-level INVALID_PARAMS details', async () => {
+      const fsApi = container.resolve(FileSystemApiService);
+      const readFile = jest.spyOn(fsApi, 'readFile');
+
+      const socket = mkSocket();
+      await (wsService as any).handleMessage(JSON.stringify({
+        event_name: 'read_file',
+        params: { encoding: 'utf9' },
+        message_id: 'p1',
+        signature: 'mock-signature'
+      }), socket);
+
+      const response = lastResponse(socket);
+      expect(response.error.code).toBe('INVALID_PARAMS');
+      expect(response.error.details).toEqual([
+        { path: 'params.filePath', message: 'Required' },
+        { path: 'params.encoding', message: expect.stringContaining('Expected one of') }
+      ]);
+      expect(readFile).not.toHaveBeenCalled();
+    });
+
+    it('rejects empty git paths instead of resolving them to the working directory', async () => {
+      const discard = jest.spyOn(container.resolve(GitService), 'discard');
+
+      const socket = mkSocket();
+      await (wsService as any).handleMessage(JSON.stringify({
+        event_name: 'git_discard',
+        params: { paths: [''] },
+        message_id: 'p-git',
+        signature: 'mock-signature'
+      }), socket);
+
+      expect(lastResponse(socket).error).toMatchObject({ code: 'INVALID_PARAMS', details: [{ path: 'params.paths[0]' }] });
+      expect(discard).not.toHaveBeenCalled();
+    });
+
+    it('leaves history alone when git_discard and resolve_conflict run on the host', async () => {
+      const history = container.resolve(FileHistoryService);
+      const capture = jest.spyOn(history, 'capture');
+      const record = jest.spyOn(history, 'record');
+      const listDiscardable = jest.spyOn(container.resolve(GitService), 'listDiscardable');
+      jest.spyOn(wsService as any, 'hasHostClient').mockReturnValue(true);
+      const sendToHost = jest.spyOn(wsService as any, 'sendToHost').mockResolvedValue({ success: true });
+
+      const socket = mkSocket();
+      await (wsService as any).handleMessage(JSON.stringify({
+        event_name: 'git_discard',
+        params: { paths: ['app.ts'] },
+        message_id: 'host-discard',
+        signature: 'mock-signature'
+      }), socket);
+      await (wsService as any).handleMessage(JSON.stringify({
+        event_name: 'resolve_conflict',
+        params: { filePath: 'app.ts', regionIndex: 0, choice: 'ours' },
+        message_id: 'host-resolve',
+        signature: 'mock-signature'
+      }), socket);
+
+      expect(sendToHost).toHaveBeenCalledTimes(2);
+      expect(lastResponse(socket).payload).toEqual({ success: true });
+      expect(listDiscardable).not.toHaveBeenCalled();
+      expect(capture).not.toHaveBeenCalled();
+      expect(record).not.toHaveBeenCalled();
+    });
+
+    it('reports the path of invalid nested fields', async () => {
+      const socket = mkSocket();
+      await (wsService as any).handleMessage(JSON.stringify({
+        event_name: 'pull_terminal_changes',
+        params: { secret: 's', session_id: 'abc', cursor: '3' },
+        message_id: 'p2',
+        signature: 'mock-signature'
+      }), socket);
+
+      expect(lastResponse(socket).error.details).toEqual([
+        { path: 'params.cursor', message: 'Expected integer, received string' }
+      ]);
+
+      await (wsService as any).handleMessage(JSON.stringify({
+        event_name: 'check_diagnostics',
+        params: { files: ['a.ts', { buffer: 'x' }] },
+        message_id: 'p3',
+        signature: 'mock-signature'
+      }), socket);
+
+      expect(lastResponse(socket).error.details).toEqual([
+        { path: 'params.files[1].filePath', message: 'Required' }
+      ]);
+    });
+
+    it('reports handler exceptions as HANDLER_FAILED', async () => {
+      const fsApi = container.resolve(FileSystemApiService);
+      jest.spyOn(fsApi, 'projectInfo').mockImplementation(() => {
+        throw new Error('boom');
+      });
+
+      const socket = mkSocket();
+      await (wsService as any).handleMessage(JSON.stringify({
+        event_name: 'get_project_info',
+        params: {},
+        message_id: 'h1',
+        signature: 'mock-signature'
+      }), socket);
+
+      expect(lastResponse(socket)).toEqual({
+        message_id: 'h1',
+        event_response: 'get_project_info',
+        error: { code: 'HANDLER_FAILED', message: 'boom' }
+      });
+    });
+
+    it('maps failed host responses to the forwarded error', async () => {
+      const pending = new Promise((resolve, reject) => {
+        (wsService as any).pendingHostRequests.set('uuid-1', {
+          resolve,
+          reject,
+          timeout: setTimeout(() => { }, 0)
+        });
+      });
+
+      (wsService as any).handleHostResponse({
+        event_name: 'host_response',
+        request_uuid: 'uuid-1',
+        wrapped_response: {
+          message_id: 'g1',
+          event_response: 'get_git_status',
+          error: { code: 'HANDLER_FAILED', message: 'git exploded' }
+        }
+      });
+
+      await expect(pending).rejects.toMatchObject({ code: 'HANDLER_FAILED', message: 'git exploded' });
+    });
+
+    it('cancels an in-flight search and reports CANCELLED', async () => {
+      const ripgrep = container.resolve(RipGrepService);
+      jest.spyOn(ripgrep, 'search').mockImplementation(async (_pattern, _options, signal) =>
+        await new Promise((resolve) => {
+          signal!.addEventListener('abort', () => {
+            resolve({ success: false, matches: [], error: 'Search failed: Search cancelled' });
+          });
+        })
+      );
+
+      const socket = mkSocket();
+      const searching = (wsService as any).handleMessage(JSON.stringify({
+        event_name: 'search',
+        params: { pattern: 'needle' },
+        message_id: 'search-1',
+        signature: 'mock-signature'
+      }), socket);
+
+      await (wsService as any).handleMessage(JSON.stringify({
+        event_name: 'cancel_request',
+        params: { message_id: 'search-1' },
+        message_id: 'cancel-1',
+        signature: 'mock-signature'
+      }), socket);
+      await searching;
+
+      const responses = socket.send.mock.calls.map(([raw]) => JSON.parse(raw));
+      expect(responses).toContainEqual({
+        message_id: 'cancel-1',
+        event_response: 'cancel_request',
+        payload: { message_id: 'search-1', cancelled: true }
+      });
+      expect(responses).toContainEqual({
+        message_id: 'search-1',
+        event_response: 'search',
+        error: { code: 'CANCELLED', message: 'Request was cancelled' }
+      });
+    });
+
+    it('only lets a client cancel its own requests', async () => {
+      const ripgrep = container.resolve(RipGrepService);
+      let searchSignal: AbortSignal | undefined;
+      jest.spyOn(ripgrep, 'search').mockImplementation(async (_pattern, _options, signal) =>
+        await new Promise((resolve) => {
+          searchSignal = signal;
+          setTimeout(() => { resolve({ success: true, matches: [] }); }, 20);
+        })
+      );
+
+      const owner = mkSocket();
+      const other = mkSocket();
+      const searching = (wsService as any).handleMessage(JSON.stringify({
+        event_name: 'search',
+        params: { pattern: 'needle' },
+        message_id: 'search-2',
+        signature: 'mock-signature'
+      }), owner);
+
+      await (wsService as any).handleMessage(JSON.stringify({
+        event_name: 'cancel_request',
+        params: { message_id: 'search-2' },
+        message_id: 'cancel-3',
+        signature: 'mock-signature'
+      }), other);
+      await searching;
+
+      expect(lastResponse(other).payload).toEqual({ message_id: 'search-2', cancelled: false });
+      expect(searchSignal?.aborted).toBe(false);
+      expect(lastResponse(owner)).toMatchObject({ message_id: 'search-2', payload: { success: true } });
+    });
+
+    it('reports cancelled false for unknown message ids', async () => {
+      const socket = mkSocket();
+      await (wsService as any).handleMessage(JSON.stringify({
+        event_name: 'cancel_request',
+        params: { message_id: 'missing' },
+        message_id: 'cancel-2',
+        signature: 'mock-signature'
+      }), socket);
+
+      expect(lastResponse(socket).payload).toEqual({ message_id: 'missing', cancelled: false });
+    });
+
+    it('ignores messages that are not valid JSON', async () => {
+      const socket = mkSocket();
+      await (wsService as any).handleMessage('{not json', socket);
+
+      expect(socket.send).not.toHaveBeenCalled();
+      expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('Failed to parse WebSocket message'));
+    });
+  });
 });
\ No newline at end of file
@@ -77,6 +77,14 @@ export class ConfigService {
     return this.terminalSecretPath;
   }
 
+  getHistoryDirectory (): string {
+    return join(this.config.workingDirectory, '.jsxtool', 'history');
+  }
+
+  getTempDirectory (): string {
+    return join(this.config.workingDirectory, '.jsxtool', 'tmp');
+  }
+
   setShouldModifyNextObjectCounter (shouldModifyNextObjectCounter: boolean) {
     this.shouldModifyNextObjectCounter = shouldModifyNextObjectCounter;
   }
@@ -128,6 +136,19 @@ export class ConfigService {
       errors.push('WebSocket protocol must be ws or wss');
     }
 
+    if (this.config.heartbeatIntervalMs < 0 || this.config.heartbeatTimeoutMs < 0) {
+      errors.push('Heartbeat interval and timeout must not be negative');
+    }
+
+    if (this.config.historyMaxBytes < 0 || this.config.historyMaxAgeMs < 0) {
+      errors.push('History size and age limits must not be negative');
+    }
+
+    const { fileAccess } = this.config;
+    if (fileAccess && [fileAccess.allow, fileAccess.deny].some(rules => rules !== undefined && (!Array.isArray(rules) || rules.some(rule => typeof rule !== 'string')))) {
+      errors.push('fileAccess.allow and fileAccess.deny must be arrays of glob strings');
+    }
+
     if (this.config.nodeModulesDir) {
       const nodeModulesPath = join(this.config.nodeModulesDir, 'node_modules');
       if (!existsSync(nodeModulesPath)) {
@@ -148,7 +169,7 @@ export class ConfigService {
     }
 
     const gitignorePath = join(jsxToolDir, '.gitignore');
-    const requiredEntries = ['host-keys', 'terminal-secret'];
+    const requiredEntries = ['host-keys', 'terminal-secret', 'history', 'tmp'];
 
     let content = '';
     if (existsSync(gitignorePath)) {
@@ -86,7 +86,7 @@ export class DiagnosticCheckerService {
     return languageMap[ext || ''] || 'plaintext';
   }
 
-  async checkFiles (files: Array<string | FileCheckRequest>): Promise<DiagnosticCheckResult> {
+  async checkFiles (files: Array<string | FileCheckRequest>, signal?: AbortSignal): Promise<DiagnosticCheckResult> {
     const normalizedFiles = files.map(f =>
       typeof f === 'string' ? { filePath: f } : f
     );
@@ -99,6 +99,15 @@ export class DiagnosticCheckerService {
     let filesWithIssues = 0;
 
     for (const file of normalizedFiles) {
+      if (signal) {
+        // each file is checked synchronously, so give a cancel message the chance to arrive in between
+        await new Promise<void>(resolve => setImmediate(resolve));
+      }
+      if (signal?.aborted) {
+        this.logger.info('Diagnostic check cancelled');
+        break;
+      }
+
       const uri = this.lspService.fileNameToUri(file.filePath);
 
       try {
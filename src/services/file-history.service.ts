@@ -0,0 +1,391 @@
+import { injectable, inject, singleton } from 'tsyringe';
+import { existsSync, lstatSync, mkdirSync, readFileSync, readdirSync, statSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { ConfigService } from './config.service';
+import { Logger } from './logger.service';
+import { FileSystemApiService } from './file-system-api.service';
+import { PathResolverService } from './path-resolver.service';
+import { IgnoreMatcher } from '../utils/ignore-rules';
+
+export interface FileHistoryEntry {
+  id: string
+  // every entry recorded by one request (or one batch) shares a changeId, so bulk edits undo together
+  changeId: string
+  event: string
+  filePath: string
+  timestamp: number
+  kind: 'content' | 'move'
+  // content entries: whether the file existed before the change; restoring a created file deletes it
+  existed: boolean
+  size: number
+  hash?: string
+  movedTo?: string
+  undone?: boolean
+}
+
+export interface FileSnapshot {
+  filePath: string
+  existed: boolean
+  content?: Buffer
+}
+
+export interface ListFileHistoryResult {
+  entries: FileHistoryEntry[]
+}
+
+export interface ReadFileHistoryEntryResult {
+  success: boolean
+  entry?: FileHistoryEntry
+  content?: string
+  error?: string
+}
+
+export interface RestoreFileHistoryResult {
+  success: boolean
+  changeId?: string
+  restoredPaths?: string[]
+  errors?: string[]
+}
+
+interface HistoryIndex {
+  version: 1
+  entries: FileHistoryEntry[]
+}
+
+@singleton()
+@injectable()
+export class FileHistoryService {
+  // oldest first; loaded lazily from the index on disk
+  private entries: FileHistoryEntry[] | null = null;
+
+  constructor (
+    @inject(ConfigService) private readonly configService: ConfigService,
+    @inject(Logger) private readonly logger: Logger,
+    @inject(FileSystemApiService) private readonly fileSystemApi: FileSystemApiService,
+    @inject(PathResolverService) private readonly paths: PathResolverService
+  ) {}
+
+  isEnabled (): boolean {
+    return this.configService.getConfig().historyMaxBytes > 0;
+  }
+
+  // Reads the file's current state before a change; pass the result to record() once the change succeeds
+  capture (filePath: string): FileSnapshot | null {
+    if (!this.isEnabled()) {
+      return null;
+    }
+
+    const absolutePath = this.paths.resolve(filePath);
+    if (!this.isReadable(absolutePath)) {
+      return null;
+    }
+
+    try {
+      if (!existsSync(absolutePath)) {
+        return { filePath: absolutePath, existed: false };
+      }
+
+      const stats = statSync(absolutePath);
+      if (!stats.isFile() || stats.size > this.configService.getConfig().historyMaxBytes) {
+        return null;
+      }
+
+      return { filePath: absolutePath, existed: true, content: readFileSync(absolutePath) };
+    } catch (error) {
+      this.logger.debug(`Skipping history snapshot for ${absolutePath}: ${(error as Error).message}`);
+      return null;
+    }
+  }
+
+  // Snapshots every file below a directory that is about to be removed
+  captureDirectory (dirPath: string): FileSnapshot[] {
+    const absolutePath = this.paths.resolve(dirPath);
+    if (!this.isEnabled() || !this.fileSystemApi.isPathSafe(absolutePath, undefined, true).safe) {
+      return [];
+    }
+
+    return this.captureTree(absolutePath, new IgnoreMatcher(this.paths.findRoot(absolutePath) ?? absolutePath));
+  }
+
+  record (event: string, changeId: string, snapshots: Array<FileSnapshot | null>): FileHistoryEntry[] {
+    const recorded: FileHistoryEntry[] = [];
+
+    for (const snapshot of snapshots) {
+      if (!snapshot) continue;
+
+      const entry: FileHistoryEntry = {
+        id: randomUUID(),
+        changeId,
+        event,
+        filePath: snapshot.filePath,
+        timestamp: Date.now(),
+        kind: 'content',
+        existed: snapshot.existed,
+        size: snapshot.content?.length ?? 0
+      };
+
+      try {
+        if (snapshot.content) {
+          entry.hash = createHash('sha256').update(snapshot.content).digest('hex');
+          this.ensureDir(this.getBlobDir());
+          writeFileSync(this.getBlobPath(entry.id), snapshot.content);
+        }
+        recorded.push(entry);
+      } catch (error) {
+        this.logger.warn(`Failed to record history for ${snapshot.filePath}: ${(error as Error).message}`);
+      }
+    }
+
+    return this.append(recorded);
+  }
+
+  recordMoves (event: string, changeId: string, moves: Array<{ from: string, to: string }>): FileHistoryEntry[] {
+    if (!this.isEnabled()) {
+      return [];
+    }
+
+    return this.append(moves.map(({ from, to }) => ({
+      id: randomUUID(),
+      changeId,
+      event,
+      filePath: from,
+      timestamp: Date.now(),
+      kind: 'move' as const,
+      existed: true,
+      size: 0,
+      movedTo: to
+    })));
+  }
+
+  // Newest first, optionally filtered to one file (as either source or destination of a move)
+  list (filePath?: string, limit?: number): ListFileHistoryResult {
+    const absolutePath = filePath ? this.paths.resolve(filePath) : undefined;
+    const entries = this.getEntries()
+      .filter(entry => !absolutePath || entry.filePath === absolutePath || entry.movedTo === absolutePath)
+      .reverse();
+
+    return { entries: limit !== undefined ? entries.slice(0, limit) : entries };
+  }
+
+  read (id: string, encoding: BufferEncoding = 'utf8'): ReadFileHistoryEntryResult {
+    const entry = this.getEntries().find(candidate => candidate.id === id);
+    if (!entry) {
+      return { success: false, error: `History entry not found: ${id}` };
+    }
+
+    if (entry.kind !== 'content' || !entry.existed) {
+      return { success: true, entry };
+    }
+
+    // the access rules may have changed since the snapshot was taken
+    if (!this.isReadable(entry.filePath)) {
+      return { success: false, error: `Access to '${entry.filePath}' is not allowed` };
+    }
+
+    try {
+      return { success: true, entry, content: readFileSync(this.getBlobPath(id)).toString(encoding) };
+    } catch (error) {
+      return { success: false, entry, error: `Error reading history entry: ${(error as Error).message}` };
+    }
+  }
+
+  // Restoring is itself recorded, so a restore can be rolled back the same way
+  restore (id: string, changeId: string): RestoreFileHistoryResult {
+    const entry = this.getEntries().find(candidate => candidate.id === id);
+    if (!entry) {
+      return { success: false, errors: [`History entry not found: ${id}`] };
+    }
+
+    const error = this.restoreEntry(entry, 'restore_file_history_entry', changeId);
+    return error
+      ? { success: false, changeId: entry.changeId, errors: [error] }
+      : { success: true, changeId: entry.changeId, restoredPaths: [entry.filePath] };
+  }
+
+  // Reverts every entry of the most recent change that has not been undone yet, newest entry first
+  undoLastChange (changeId: string): RestoreFileHistoryResult {
+    const entries = this.getEntries();
+    const last = [...entries].reverse().find(entry => !entry.undone && entry.event !== 'undo_last_change');
+    if (!last) {
+      return { success: false, errors: ['Nothing to undo'] };
+    }
+
+    const group = entries.filter(entry => entry.changeId === last.changeId).reverse();
+    const restoredPaths: string[] = [];
+    const errors: string[] = [];
+
+    for (const entry of group) {
+      const error = this.restoreEntry(entry, 'undo_last_change', changeId);
+      if (error) {
+        errors.push(error);
+      } else {
+        restoredPaths.push(entry.filePath);
+      }
+      entry.undone = true;
+    }
+    this.save();
+
+    return {
+      success: errors.length === 0,
+      changeId: last.changeId,
+      restoredPaths,
+      errors: errors.length > 0 ? errors : undefined
+    };
+  }
+
+  private captureTree (dirPath: string, ignore: IgnoreMatcher): FileSnapshot[] {
+    if (lstatSync(dirPath, { throwIfNoEntry: false })?.isDirectory() !== true) {
+      return [];
+    }
+
+    return readdirSync(dirPath).flatMap(entry => {
+      const entryPath = join(dirPath, entry);
+      try {
+        // removing a directory unlinks the links in it, so there is nothing behind them to keep
+        const stats = lstatSync(entryPath);
+        if (stats.isSymbolicLink() || entry === 'node_modules' || this.fileSystemApi.isInternalPath(entryPath) ||
+          ignore.isIgnored(entryPath, stats.isDirectory())) {
+          return [];
+        }
+        if (stats.isDirectory()) {
+          return this.captureTree(entryPath, ignore);
+        }
+        const snapshot = this.capture(entryPath);
+        return snapshot ? [snapshot] : [];
+      } catch (error) {
+        this.logger.debug(`Skipping history snapshot for ${entryPath}: ${(error as Error).message}`);
+        return [];
+      }
+    });
+  }
+
+  private restoreEntry (entry: FileHistoryEntry, event: string, changeId: string): string | null {
+    if (entry.kind === 'move') {
+      const movedTo = entry.movedTo!;
+      if (!existsSync(movedTo)) {
+        return `Cannot move back ${movedTo}: it no longer exists`;
+      }
+      const result = this.fileSystemApi.renameItem(movedTo, entry.filePath);
+      if (!result.success) {
+        return result.error ?? `Failed to move back ${movedTo}`;
+      }
+      this.recordMoves(event, changeId, [{ from: movedTo, to: entry.filePath }]);
+      return null;
+    }
+
+    const snapshot = this.capture(entry.filePath);
+
+    if (!entry.existed) {
+      if (!existsSync(entry.filePath)) {
+        return null;
+      }
+      const result = statSync(entry.filePath).isDirectory()
+        ? this.fileSystemApi.rmDir(entry.filePath, true, true)
+        : this.fileSystemApi.rm(entry.filePath);
+      if (!result.success) {
+        return result.error ?? `Failed to remove ${entry.filePath}`;
+      }
+    } else {
+      let content: Buffer;
+      try {
+        content = readFileSync(this.getBlobPath(entry.id));
+      } catch (error) {
+        return `History content for ${entry.filePath} is missing: ${(error as Error).message}`;
+      }
+      const result = this.fileSystemApi.writeToFile(entry.filePath, content.toString('base64'), 'base64');
+      if (!result.success) {
+        return result.error ?? `Failed to restore ${entry.filePath}`;
+      }
+    }
+
+    this.record(event, changeId, [snapshot]);
+    return null;
+  }
+
+  private isReadable (absolutePath: string): boolean {
+    return absolutePath !== this.configService.getTerminalSecretPath() && this.fileSystemApi.isPathSafe(absolutePath).safe;
+  }
+
+  private append (recorded: FileHistoryEntry[]): FileHistoryEntry[] {
+    if (recorded.length === 0) {
+      return recorded;
+    }
+
+    this.getEntries().push(...recorded);
+    this.prune();
+    this.save();
+    return recorded;
+  }
+
+  // Drops entries past the age limit, then the oldest entries until the stored content fits the size limit
+  private prune (now: number = Date.now()): void {
+    const { historyMaxAgeMs, historyMaxBytes } = this.configService.getConfig();
+    const entries = this.getEntries();
+    let totalBytes = entries.reduce((total, entry) => total + entry.size, 0);
+
+    while (entries.length > 0 && (now - entries[0].timestamp > historyMaxAgeMs || totalBytes > historyMaxBytes)) {
+      const dropped = entries.shift()!;
+      totalBytes -= dropped.size;
+      this.removeBlob(dropped);
+    }
+  }
+
+  private removeBlob (entry: FileHistoryEntry): void {
+    const blobPath = this.getBlobPath(entry.id);
+    try {
+      if (existsSync(blobPath)) {
+        unlinkSync(blobPath);
+      }
+    } catch (error) {
+      this.logger.debug(`Failed to remove history blob ${blobPath}: ${(error as Error).message}`);
+    }
+  }
+
+  private getEntries (): FileHistoryEntry[] {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    this.entries = [];
+    const indexPath = this.getIndexPath();
+    if (existsSync(indexPath)) {
+      try {
+        const index = JSON.parse(readFileSync(indexPath, 'utf8')) as HistoryIndex;
+        this.entries = Array.isArray(index.entries) ? index.entries : [];
+      } catch (error) {
+        this.logger.warn(`Ignoring unreadable history index ${indexPath}: ${(error as Error).message}`);
+      }
+    }
+    return this.entries;
+  }
+
+  private save (): void {
+    try {
+      this.ensureDir(this.configService.getHistoryDirectory());
+      const index: HistoryIndex = { version: 1, entries: this.getEntries() };
+      writeFileSync(this.getIndexPath(), JSON.stringify(index), 'utf8');
+    } catch (error) {
+      this.logger.warn(`Failed to save history index: ${(error as Error).message}`);
+    }
+  }
+
+  private ensureDir (dir: string): void {
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+      this.configService.ensureGitIgnore();
+    }
+  }
+
+  private getIndexPath (): string {
+    return join(this.configService.getHistoryDirectory(), 'index.json');
+  }
+
+  private getBlobDir (): string {
+    return join(this.configService.getHistoryDirectory(), 'blobs');
+  }
+
+  private getBlobPath (id: string): string {
+    return join(this.getBlobDir(), id);
+  }
+}
@@ -1,12 +1,21 @@
 import 'reflect-metadata';
 import { injectable, singleton, inject } from 'tsyringe';
 import type { FSWatcher, Stats } from 'fs';
-import { readFileSync, writeFileSync, existsSync, readdirSync, statSync, watch, mkdirSync, unlinkSync, copyFileSync, renameSync, rmdirSync } from 'fs';
+import { readFileSync, writeFileSync, existsSync, readdirSync, statSync, lstatSync, watch, mkdirSync, unlinkSync, copyFileSync, renameSync, rmdirSync } from 'fs';
 import { resolve, join, relative, extname, dirname } from 'path';
 import * as path from 'path';
 import { ConfigService } from './config.service';
+import { PathResolverService } from './path-resolver.service';
 import { execSync } from 'child_process';
+import { createHash } from 'crypto';
 import { Logger } from './logger.service';
+import type { TextEdit } from './lsp.service';
+import { applyTextEdits } from '../utils/text-edits';
+import { type AppliedHunk, applyHunks, parseUnifiedDiff } from '../utils/unified-diff';
+import { checkFileAccess } from '../utils/file-access-policy';
+import { IGNORE_FILE_NAMES, IgnoreMatcher } from '../utils/ignore-rules';
+import { type ImageDimensions, detectMimeType, getImageDimensions } from '../utils/media-info';
+import { hashFile, locateLines, readBytes } from '../utils/file-scan';
 
 export interface ProjectInfo {
   projectRoot: string
@@ -25,11 +34,65 @@ export interface FileInfo {
 export interface ReadFileResult {
   success: boolean
   data?: string
+  hash?: string
+  mtime?: number
+  // size in bytes on disk, whatever the encoding of `data`
+  size?: number
+  mimeType?: string
+  // raster and SVG images only
+  dimensions?: ImageDimensions
   error?: string
 }
 
 export interface WriteFileResult {
   success: boolean
+  hash?: string
+  mtime?: number
+  error?: string
+  code?: 'CONFLICT'
+  currentContent?: string
+  currentHash?: string
+  currentMtime?: number
+}
+
+export interface ReadFileRangeArgs {
+  filePath: string
+  encoding?: BufferEncoding
+  // byte range, used when no line range is given; reads from the start of the file by default
+  byteOffset?: number
+  byteLength?: number
+  // 1-based and inclusive
+  startLine?: number
+  endLine?: number
+}
+
+export interface ReadFileRangeResult {
+  success: boolean
+  data?: string
+  // byte span actually returned, end exclusive; utf8 reads end on a character boundary
+  startByte?: number
+  endByte?: number
+  // set for line ranges, clamped to the file
+  startLine?: number
+  endLine?: number
+  totalSize?: number
+  totalLines?: number
+  mtime?: number
+  eof?: boolean
+  error?: string
+}
+
+export interface StatResult {
+  success: boolean
+  path?: string
+  isFile?: boolean
+  isDirectory?: boolean
+  isSymlink?: boolean
+  size?: number
+  mtime?: number
+  // files only; the same value readFile returns
+  hash?: string
+  mimeType?: string
   error?: string
 }
 
@@ -60,11 +123,52 @@ export interface WriteFileArgs {
   filePath: string
   content: string
   encoding?: BufferEncoding
+  expectedHash?: string
+  expectedMtime?: number
+}
+
+export type WriteExpectation = Pick<WriteFileArgs, 'expectedHash' | 'expectedMtime'>;
+
+export interface ApplyTextEditsArgs extends WriteExpectation {
+  filePath: string
+  edits: TextEdit[]
+}
+
+export interface ApplyPatchArgs {
+  patch: string
+  fuzz?: number
+}
+
+export interface PatchedFile {
+  filePath: string
+  created: boolean
+  hash?: string
+  mtime?: number
+  hunks: AppliedHunk[]
+}
+
+export interface ApplyPatchResult {
+  success: boolean
+  files?: PatchedFile[]
+  error?: string
 }
 
 export interface LsArgs {
   dirPath: string
-  options?: { recursive?: boolean, filesOnly?: boolean, directoriesOnly?: boolean }
+  options?: LsOptions
+}
+
+export interface LsOptions {
+  recursive?: boolean
+  filesOnly?: boolean
+  directoriesOnly?: boolean
+  // skip paths matched by .gitignore and .jsxtoolignore files; defaults to true
+  respectIgnore?: boolean
+}
+
+export interface TreeOptions {
+  // skip paths matched by .gitignore and .jsxtoolignore files; defaults to true
+  respectIgnore?: boolean
 }
 
 export interface RmResult {
@@ -129,29 +233,86 @@ export interface ImportItemsResult {
   errors?: string[]
 }
 
+export interface MkdirResult {
+  success: boolean
+  path?: string
+  error?: string
+}
+
+export interface RmDirArgs {
+  path: string
+  recursive?: boolean
+  // must be true to remove a directory that still has contents
+  confirm?: boolean
+}
+
+export interface RmDirResult {
+  success: boolean
+  removedPaths?: string[]
+  error?: string
+}
+
+export interface RenameItemArgs {
+  sourcePath: string
+  // a bare name renames within the same directory; anything else is resolved as a path
+  newPath: string
+}
+
+export interface RenameItemResult {
+  success: boolean
+  from?: string
+  to?: string
+  error?: string
+}
+
+export interface CopyItemsArgs {
+  sourcePaths: string[]
+  targetDirectory: string
+}
+
+export interface CopyItemsResult {
+  success: boolean
+  copiedPaths?: Array<{ from: string, to: string }>
+  errors?: string[]
+}
+
+function isUtf8 (encoding: BufferEncoding): boolean {
+  return encoding === 'utf8' || encoding === 'utf-8';
+}
+
+// Moves an index back to the start of the UTF-8 character it falls inside
+function utf8Boundary (bytes: Buffer, index: number): number {
+  let boundary = Math.min(index, bytes.length);
+  while (boundary > 0 && boundary < bytes.length && (bytes[boundary] & 0xc0) === 0x80) {
+    boundary--;
+  }
+  return boundary;
+}
+
+// sha256 of the bytes the content encodes to, so clients can hash what they read locally
+export function hashContent (content: string, encoding: BufferEncoding = 'utf8'): string {
+  return createHash('sha256').update(Buffer.from(content, encoding)).digest('hex');
+}
+
+const WATCH_ECHO_SUPPRESSION_MS = 1000;
+export const DEFAULT_RANGE_BYTES = 256 * 1024;
+export const DEFAULT_RANGE_LINES = 1000;
+export const MAX_RANGE_BYTES = 8 * 1024 * 1024;
+
 @singleton()
 @injectable()
 export class FileSystemApiService {
-  private readonly allowedExtensions = new Set([
-    '.js', '.jsx', '.ts', '.tsx', '.mjs', '.cjs',
-    '.json', '.xml', '.html', '.htm',
-    '.css', '.scss', '.sass', '.less',
-    '.png', '.jpg', '.jpeg', '.gif', '.webp', '.svg', '.ico',
-    '.woff', '.woff2', '.ttf', '.otf', '.eot',
-    '.mp4', '.webm', '.ogg', '.mp3', '.wav',
-    '.txt', '.md', '.yml', '.yaml',
-    '.map', '.d.ts', '.md',
-    '.gitignore', '.env', '.prettierrc', '.eslintrc',
-    '.babelrc', '.npmrc', '.editorconfig'
-  ]);
-
   private readonly watchers: FSWatcher[] = [];
   private readonly debounceTimers = new Map<string, NodeJS.Timeout>();
   private readonly fileChangeListener: Array<(changes: FileChangeEvent[]) => void> = [];
+  // path -> time until which watcher events are dropped because the change was already reported
+  private readonly suppressedWatchPaths = new Map<string, number>();
+  private gitAvailable: boolean | null = null;
 
   constructor (
     @inject(ConfigService) private readonly configService: ConfigService,
-    @inject(Logger) private readonly logger: Logger
+    @inject(Logger) private readonly logger: Logger,
+    @inject(PathResolverService) private readonly paths: PathResolverService
   ) {
   }
 
@@ -159,6 +320,15 @@ export class FileSystemApiService {
     this.fileChangeListener.push(listener);
   }
 
+  // Reports changes made by the server as one batch and drops the watcher's echo of the same paths
+  notifyFileChanges (changes: FileChangeEvent[]): void {
+    if (changes.length === 0) return;
+
+    const until = Date.now() + WATCH_ECHO_SUPPRESSION_MS;
+    changes.forEach(({ absolutePath }) => this.suppressedWatchPaths.set(absolutePath, until));
+    this.fileChangeListener.forEach(listener => { listener(changes); });
+  }
+
   public startFileWatchers () {
     this.watchDirs(
       this.configService.getConfig().workingDirectory,
@@ -178,10 +348,16 @@ export class FileSystemApiService {
         continue;
       }
 
+      const ignore = new IgnoreMatcher(root);
       const w = watch(root, { recursive: true }, (eventType, filename) => {
         if (!filename) return;
         const absolutePath = join(root, filename);
+        if (IGNORE_FILE_NAMES.includes(path.basename(absolutePath))) {
+          ignore.reset();
+        }
+        if (this.isInternalPath(absolutePath) || this.isWatchEventSuppressed(absolutePath)) return;
         const fileExists = existsSync(absolutePath);
+        if (ignore.isIgnored(absolutePath)) return;
 
         if (eventType === 'rename') {
           if (fileExists) {
@@ -223,73 +399,84 @@ export class FileSystemApiService {
 
     const mainFiles = this.tree(config.workingDirectory).files ?? [];
     const additionalFiles = additionalDirs.flatMap(dir => {
-      const resolvedDir = resolve(config.workingDirectory, dir);
+      const resolvedDir = this.paths.resolve(dir);
       return this.tree(resolvedDir).files ?? [];
     });
 
     return {
       projectRoot: config.workingDirectory,
       files: [...mainFiles, ...additionalFiles],
-      additionalDirRoots: additionalDirs.map((dir) => resolve(config.workingDirectory, dir))
+      additionalDirRoots: additionalDirs.map((dir) => this.paths.resolve(dir))
     };
   }
 
   public isPathSafe (
     filePath: string,
-    stats?: Stats
+    stats?: Stats,
+    expectDirectory: boolean = false
   ): { safe: boolean, reason?: string } {
-    const absolutePath = resolve(filePath);
     const config = this.configService.getConfig();
-    const workingDir = config.workingDirectory;
-    const nodeModulesDir = config.nodeModulesDir ? resolve(config.nodeModulesDir) : null;
-    const additionalDirs = (config.additionalDirectories ?? []).map(dir => resolve(workingDir, dir));
-
-    const relativeToWorking = relative(workingDir, absolutePath);
-    const isInWorkingDir = !relativeToWorking.startsWith('..') && !path.isAbsolute(relativeToWorking);
-
-    let isInNodeModulesDir = false;
-    if (nodeModulesDir) {
-      const relativeToNodeModules = relative(nodeModulesDir, absolutePath);
-      isInNodeModulesDir = !relativeToNodeModules.startsWith('..') && !path.isAbsolute(relativeToNodeModules);
-    }
-
-    let isInAdditionalDir = false;
-    for (const additionalDir of additionalDirs) {
-      const relativeToAdditional = relative(additionalDir, absolutePath);
-      if (!relativeToAdditional.startsWith('..') && !path.isAbsolute(relativeToAdditional)) {
-        isInAdditionalDir = true;
-        break;
-      }
-    }
+    const location = this.paths.locate(filePath, true);
+    const { absolutePath, realPath } = location;
 
-    if (!isInWorkingDir && !isInNodeModulesDir && !isInAdditionalDir) {
+    if (location.relativePath === null) {
       return {
         safe: false,
-        reason: `Path must be within working directory or additional directories: ${workingDir}`
+        reason: this.paths.findRoot(absolutePath, true)
+          ? `Path resolves outside the working directory through a symbolic link: ${absolutePath}`
+          : `Path must be within working directory or additional directories: ${config.workingDirectory}`
       };
     }
 
-    if (stats ? stats.isDirectory() : (existsSync(absolutePath) && statSync(absolutePath).isDirectory())) {
-      return { safe: true };
+    // history and transaction staging are trusted by undo and commit, so requests must not touch them
+    if (this.isInternalPath(absolutePath) || this.isInternalPath(realPath)) {
+      return { safe: false, reason: `Path is reserved for jsx-tool's own data: ${absolutePath}` };
     }
 
-    const ext = extname(absolutePath).toLowerCase();
-    const fileName = absolutePath.split(path.sep).pop() || '';
-    const isDotFile = fileName.startsWith('.');
+    if (expectDirectory || (stats ? stats.isDirectory() : (existsSync(absolutePath) && statSync(absolutePath).isDirectory()))) {
+      return { safe: true };
+    }
 
-    if (!this.allowedExtensions.has(ext) && !isDotFile) {
+    // the rules apply to the file a link points at, so a link cannot make a denied file readable
+    const access = checkFileAccess(location.relativePath, config.fileAccess);
+    if (!access.allowed) {
       return {
         safe: false,
-        reason: `File type '${ext}' is not allowed. Only web assets are permitted.`
+        reason: access.rule
+          ? `Access to '${absolutePath}' is denied by the file access rule '${access.rule}'`
+          : `File type '${extname(realPath).toLowerCase()}' is not allowed. Add an allow rule to fileAccess in .jsxtool/config.json to permit it.`
       };
     }
 
     return { safe: true };
   }
 
+  // Checks a file against the allow/deny globs in the config, without the directory checks of isPathSafe
+  isFileAccessAllowed (filePath: string): boolean {
+    const absolutePath = this.paths.resolve(filePath);
+    return checkFileAccess(this.getAccessPolicyPath(absolutePath), this.configService.getConfig().fileAccess).allowed;
+  }
+
+  // Rules are written relative to the project root (or additional directory) that contains the file
+  private getAccessPolicyPath (absolutePath: string): string {
+    const root = this.paths.findRoot(absolutePath, true);
+    return root ? relative(root, absolutePath) : absolutePath;
+  }
+
+  // Walks only descend from directories that isPathSafe accepted, so a symlink is the only way out
+  private isEscapingLink (entryPath: string): boolean {
+    return lstatSync(entryPath, { throwIfNoEntry: false })?.isSymbolicLink() === true &&
+      this.paths.locate(entryPath, true).root === null;
+  }
+
+  // Ignore files are read from the project root down, so rules above the listed directory still apply
+  private createIgnoreMatcher (absolutePath: string, respectIgnore: boolean = true): IgnoreMatcher | null {
+    return respectIgnore ? new IgnoreMatcher(this.paths.findRoot(absolutePath) ?? absolutePath) : null;
+  }
+
   readFile (filePath: string, encoding: BufferEncoding = 'utf8', overrideSafeCheck: boolean = false): ReadFileResult {
     try {
-      const absolutePath = resolve(filePath);
+      const absolutePath = this.paths.resolve(filePath);
 
       if (!existsSync(absolutePath)) {
         return {
@@ -313,9 +500,17 @@ export class FileSystemApiService {
       }
 
       const data = readFileSync(absolutePath, encoding);
+      // binary files only survive the round trip when read as base64 (or another byte-preserving encoding)
+      const bytes = Buffer.from(data, encoding);
+      const mimeType = detectMimeType(absolutePath, bytes);
       return {
         success: true,
-        data
+        data,
+        hash: hashContent(data, encoding),
+        mtime: stats.mtimeMs,
+        size: stats.size,
+        mimeType,
+        dimensions: getImageDimensions(bytes, mimeType)
       };
     } catch (error) {
       return {
@@ -325,15 +520,128 @@ export class FileSystemApiService {
     }
   }
 
+  readFileRange (args: ReadFileRangeArgs): ReadFileRangeResult {
+    try {
+      const absolutePath = this.paths.resolve(args.filePath);
+      const encoding = args.encoding ?? 'utf8';
+
+      if (!existsSync(absolutePath)) {
+        return { success: false, error: `File not found: ${absolutePath}` };
+      }
+
+      const stats = statSync(absolutePath);
+      if (!stats.isFile()) {
+        return { success: false, error: `Path is not a file: ${absolutePath}` };
+      }
+
+      const safetyCheck = this.isPathSafe(absolutePath, stats);
+      if (!safetyCheck.safe) {
+        return { success: false, error: safetyCheck.reason };
+      }
+
+      if (absolutePath === this.configService.getTerminalSecretPath()) {
+        return { success: false, error: 'Permission denied' };
+      }
+
+      const byLine = args.startLine !== undefined || args.endLine !== undefined;
+      const startLine = args.startLine ?? 1;
+      const endLine = args.endLine ?? startLine + DEFAULT_RANGE_LINES - 1;
+      if (byLine && endLine < startLine) {
+        return { success: false, error: `endLine ${endLine} is before startLine ${startLine}` };
+      }
+
+      const lines = locateLines(absolutePath, startLine, endLine);
+      let startByte = byLine ? lines.startByte : Math.min(args.byteOffset ?? 0, stats.size);
+      let endByte = byLine ? lines.endByte : Math.min(startByte + (args.byteLength ?? DEFAULT_RANGE_BYTES), stats.size);
+
+      if (endByte - startByte > MAX_RANGE_BYTES) {
+        if (byLine) {
+          return { success: false, error: `Lines ${startLine}-${endLine} span more than ${MAX_RANGE_BYTES} bytes; request fewer lines` };
+        }
+        endByte = startByte + MAX_RANGE_BYTES;
+      }
+
+      // read one byte past the end so a multi-byte character cut by the range can be dropped
+      let bytes = readBytes(absolutePath, startByte, endByte - startByte + 1);
+      if (!byLine && isUtf8(encoding)) {
+        const end = utf8Boundary(bytes, endByte - startByte);
+        const start = utf8Boundary(bytes, 0);
+        startByte += start;
+        endByte = startByte + Math.max(end - start, 0);
+        bytes = bytes.subarray(start, Math.max(end, start));
+      } else {
+        bytes = bytes.subarray(0, endByte - startByte);
+      }
+
+      return {
+        success: true,
+        data: bytes.toString(encoding),
+        startByte,
+        endByte,
+        ...(byLine ? { startLine, endLine: Math.min(endLine, lines.totalLines) } : {}),
+        totalSize: stats.size,
+        totalLines: lines.totalLines,
+        mtime: stats.mtimeMs,
+        eof: endByte >= stats.size
+      };
+    } catch (error) {
+      return { success: false, error: `Error reading file: ${(error as Error).message}` };
+    }
+  }
+
+  stat (filePath: string): StatResult {
+    try {
+      const absolutePath = this.paths.resolve(filePath);
+
+      if (!existsSync(absolutePath)) {
+        return { success: false, path: absolutePath, error: `File not found: ${absolutePath}` };
+      }
+
+      const isSymlink = lstatSync(absolutePath).isSymbolicLink();
+      const stats = statSync(absolutePath);
+      const safetyCheck = this.isPathSafe(absolutePath, stats);
+      if (!safetyCheck.safe) {
+        return { success: false, path: absolutePath, error: safetyCheck.reason };
+      }
+
+      if (absolutePath === this.configService.getTerminalSecretPath()) {
+        return { success: false, path: absolutePath, error: 'Permission denied' };
+      }
+
+      const result: StatResult = {
+        success: true,
+        path: absolutePath,
+        isFile: stats.isFile(),
+        isDirectory: stats.isDirectory(),
+        isSymlink,
+        size: stats.size,
+        mtime: stats.mtimeMs
+      };
+
+      if (stats.isFile()) {
+        result.hash = hashFile(absolutePath);
+        result.mimeType = detectMimeType(absolutePath, readBytes(absolutePath, 0, 8192));
+      }
+
+      return result;
+    } catch (error) {
+      return { success: false, error: `Error reading file status: ${(error as Error).message}` };
+    }
+  }
+
+  statMany (paths: string[]): StatResult[] {
+    return paths.map(path => this.stat(path));
+  }
+
   readFileMany (args: ReadFileArgs[]): ReadFileResult[] {
     return args.map(({ filePath, encoding = 'utf8' }) =>
       this.readFile(filePath, encoding)
     );
   }
 
-  writeToFile (filePath: string, content: string, encoding: BufferEncoding = 'utf8'): WriteFileResult {
+  writeToFile (filePath: string, content: string, encoding: BufferEncoding = 'utf8', expected: WriteExpectation = {}): WriteFileResult {
     try {
-      const absolutePath = resolve(filePath);
+      const absolutePath = this.paths.resolve(filePath);
 
       const safetyCheck = this.isPathSafe(absolutePath);
       if (!safetyCheck.safe && absolutePath !== this.configService.getTerminalSecretPath()) {
@@ -350,6 +658,11 @@ export class FileSystemApiService {
         };
       }
 
+      const conflict = this.checkWriteExpectation(absolutePath, encoding, expected);
+      if (conflict) {
+        return conflict;
+      }
+
       const dir = dirname(absolutePath);
       if (!existsSync(dir)) {
         mkdirSync(dir, { recursive: true });
@@ -358,7 +671,9 @@ export class FileSystemApiService {
       writeFileSync(absolutePath, content, encoding);
 
       return {
-        success: true
+        success: true,
+        hash: hashContent(content, encoding),
+        mtime: statSync(absolutePath).mtimeMs
       };
     } catch (error) {
       return {
@@ -369,14 +684,185 @@ export class FileSystemApiService {
   }
 
   writeToFileMany (args: WriteFileArgs[]): WriteFileResult[] {
-    return args.map(({ filePath, content, encoding = 'utf8' }) =>
-      this.writeToFile(filePath, content, encoding)
+    return args.map(({ filePath, content, encoding = 'utf8', expectedHash, expectedMtime }) =>
+      this.writeToFile(filePath, content, encoding, { expectedHash, expectedMtime })
     );
   }
 
+  // Rejects the write when the file on disk no longer matches the version the client last read,
+  // returning the current content so the client can merge instead of clobbering it.
+  checkWriteExpectation (absolutePath: string, encoding: BufferEncoding, expected: WriteExpectation): WriteFileResult | null {
+    const { expectedHash, expectedMtime } = expected;
+    if (expectedHash === undefined && expectedMtime === undefined) {
+      return null;
+    }
+
+    if (!existsSync(absolutePath)) {
+      return {
+        success: false,
+        code: 'CONFLICT',
+        error: `File was deleted since it was read: ${absolutePath}`
+      };
+    }
+
+    const currentMtime = statSync(absolutePath).mtimeMs;
+    const currentContent = readFileSync(absolutePath, encoding);
+    const currentHash = hashContent(currentContent, encoding);
+
+    const hashMismatch = expectedHash !== undefined && expectedHash !== currentHash;
+    const mtimeMismatch = expectedMtime !== undefined && expectedMtime !== currentMtime;
+    if (!hashMismatch && !mtimeMismatch) {
+      return null;
+    }
+
+    return {
+      success: false,
+      code: 'CONFLICT',
+      error: `File changed on disk since it was read: ${absolutePath}`,
+      currentContent,
+      currentHash,
+      currentMtime
+    };
+  }
+
+  // Edits are validated against the current content and written in one go; the write is rejected if the
+  // file changes between reading and writing
+  applyTextEdits (filePath: string, edits: TextEdit[], expected: WriteExpectation = {}): WriteFileResult {
+    const current = this.readFile(filePath);
+    if (!current.success) {
+      return { success: false, error: current.error };
+    }
+
+    const conflict = this.checkWriteExpectation(this.paths.resolve(filePath), 'utf8', expected);
+    if (conflict) {
+      return conflict;
+    }
+
+    let content: string;
+    try {
+      content = applyTextEdits(current.data!, edits);
+    } catch (error) {
+      return { success: false, error: `Invalid edits: ${(error as Error).message}` };
+    }
+
+    return this.writeToFile(filePath, content, 'utf8', { expectedHash: current.hash });
+  }
+
+  // Paths in the patch are relative to the working directory. Every hunk of every file must apply
+  // before anything is written, and files already written are reverted if a later write fails.
+  applyPatch (patch: string, fuzz?: number): ApplyPatchResult {
+    let plan: Map<string, { original: string | null, content: string, hunks: AppliedHunk[] }>;
+    try {
+      plan = this.planPatch(patch, fuzz);
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+
+    const files: PatchedFile[] = [];
+    for (const [filePath, { original, content, hunks }] of plan) {
+      const result = this.writeToFile(
+        filePath,
+        content,
+        'utf8',
+        original === null ? {} : { expectedHash: hashContent(original) }
+      );
+
+      if (!result.success) {
+        this.revertPatchedFiles(files, plan);
+        return { success: false, error: `Failed to write ${filePath}: ${result.error ?? 'unknown error'}` };
+      }
+
+      files.push({ filePath, created: original === null, hash: result.hash, mtime: result.mtime, hunks });
+    }
+
+    return { success: true, files };
+  }
+
+  getPatchTargets (patch: string): string[] {
+    try {
+      return parseUnifiedDiff(patch)
+        .map(file => file.newPath)
+        .filter((filePath): filePath is string => filePath !== null)
+        .map(filePath => this.paths.resolve(filePath));
+    } catch (error) {
+      return [];
+    }
+  }
+
+  private planPatch (patch: string, fuzz?: number): Map<string, { original: string | null, content: string, hunks: AppliedHunk[] }> {
+    let filePatches;
+    try {
+      filePatches = parseUnifiedDiff(patch);
+    } catch (error) {
+      throw new Error(`Invalid patch: ${(error as Error).message}`);
+    }
+
+    const plan = new Map<string, { original: string | null, content: string, hunks: AppliedHunk[] }>();
+
+    for (const filePatch of filePatches) {
+      if (filePatch.newPath === null) {
+        throw new Error(`Deleting ${filePatch.oldPath ?? 'files'} is not supported by patches; use rm instead`);
+      }
+      if (filePatch.oldPath !== null && filePatch.oldPath !== filePatch.newPath) {
+        throw new Error(`Renaming ${filePatch.oldPath} to ${filePatch.newPath} is not supported by patches`);
+      }
+
+      const filePath = this.paths.resolve(filePatch.newPath);
+      const safetyCheck = this.isPathSafe(filePath);
+      if (!safetyCheck.safe) {
+        throw new Error(safetyCheck.reason);
+      }
+
+      let planned = plan.get(filePath);
+      if (!planned) {
+        if (filePatch.oldPath === null) {
+          if (existsSync(filePath)) {
+            throw new Error(`Cannot create ${filePath}: file already exists`);
+          }
+          planned = { original: null, content: '', hunks: [] };
+        } else {
+          const current = this.readFile(filePath);
+          if (!current.success) {
+            throw new Error(current.error);
+          }
+          planned = { original: current.data!, content: current.data!, hunks: [] };
+        }
+        plan.set(filePath, planned);
+      }
+
+      try {
+        const result = applyHunks(planned.content, filePatch.hunks, fuzz);
+        planned.content = result.content;
+        planned.hunks.push(...result.applied);
+      } catch (error) {
+        throw new Error(`${filePath}: ${(error as Error).message}`);
+      }
+    }
+
+    return plan;
+  }
+
+  private revertPatchedFiles (
+    files: PatchedFile[],
+    plan: Map<string, { original: string | null }>
+  ): void {
+    for (const file of files) {
+      const original = plan.get(file.filePath)?.original ?? null;
+      try {
+        if (original === null) {
+          unlinkSync(file.filePath);
+        } else {
+          writeFileSync(file.filePath, original, 'utf8');
+        }
+      } catch (error) {
+        this.logger.error(`Failed to revert ${file.filePath}: ${(error as Error).message}`);
+      }
+    }
+  }
+
   exists (path: string): ExistsResult {
     try {
-      const absolutePath = resolve(path);
+      const absolutePath = this.paths.resolve(path);
 
       if (!existsSync(absolutePath)) {
         return { exists: false };
@@ -385,10 +871,8 @@ export class FileSystemApiService {
       const stats = statSync(absolutePath);
       const isDirectory = stats.isDirectory();
 
-      if (!isDirectory) {
-        const safe = this.isPathSafe(absolutePath, stats);
-        if (!safe.safe) return { exists: false };
-      }
+      const safe = this.isPathSafe(absolutePath, stats);
+      if (!safe.safe) return { exists: false };
 
       return {
         exists: true,
@@ -404,9 +888,9 @@ export class FileSystemApiService {
     return paths.map(path => this.exists(path));
   }
 
-  ls (dirPath: string, options?: { recursive?: boolean, filesOnly?: boolean, directoriesOnly?: boolean }): LsResult {
+  ls (dirPath: string, options?: LsOptions): LsResult {
     try {
-      const absolutePath = resolve(dirPath);
+      const absolutePath = this.paths.resolve(dirPath);
 
       if (!existsSync(absolutePath)) {
         return {
@@ -422,45 +906,32 @@ export class FileSystemApiService {
         };
       }
 
-      const config = this.configService.getConfig();
-      const workingDir = config.workingDirectory;
-      const nodeModulesDir = config.nodeModulesDir ? resolve(config.nodeModulesDir) : null;
-
-      const relativeToWorking = relative(workingDir, absolutePath);
-      const isInWorkingDir = !relativeToWorking.startsWith('..') && !path.isAbsolute(relativeToWorking);
-
-      let isInNodeModulesDir = false;
-      if (nodeModulesDir) {
-        const relativeToNodeModules = relative(nodeModulesDir, absolutePath);
-        isInNodeModulesDir = !relativeToNodeModules.startsWith('..') && !path.isAbsolute(relativeToNodeModules);
-      }
-
-      if (!isInWorkingDir && !isInNodeModulesDir) {
+      if (!this.paths.locate(absolutePath, true).root) {
         return {
           success: false,
-          error: `Directory must be within working directory: ${workingDir}`
+          error: `Directory must be within working directory: ${this.configService.getConfig().workingDirectory}`
         };
       }
 
       const files: FileInfo[] = [];
+      const ignore = this.createIgnoreMatcher(absolutePath, options?.respectIgnore);
 
       if (options?.recursive) {
-        this.walkDirectory(absolutePath, files, options);
+        this.walkDirectory(absolutePath, files, options, ignore);
       } else {
         const entries = readdirSync(absolutePath);
 
         for (const entry of entries) {
           const entryPath = join(absolutePath, entry);
           try {
+            if (this.isEscapingLink(entryPath)) continue;
             const stats = statSync(entryPath);
 
             if (options?.filesOnly && !stats.isFile()) continue;
             if (options?.directoriesOnly && !stats.isDirectory()) continue;
 
-            if (stats.isFile()) {
-              const ext = extname(entry).toLowerCase();
-              if (!this.allowedExtensions.has(ext)) continue;
-            }
+            if (stats.isFile() && !this.isFileAccessAllowed(entryPath)) continue;
+            if (ignore?.isIgnored(entryPath, stats.isDirectory())) continue;
 
             files.push({
               name: entry,
@@ -493,7 +964,7 @@ export class FileSystemApiService {
 
   rm (filePath: string): RmResult {
     try {
-      const absolutePath = resolve(filePath);
+      const absolutePath = this.paths.resolve(filePath);
 
       if (!existsSync(absolutePath)) {
         return {
@@ -536,10 +1007,17 @@ export class FileSystemApiService {
     return args.map(({ path }) => this.rm(path));
   }
 
-  tree (dirStr: string): TreeResult {
+  tree (dirStr: string, options?: TreeOptions): TreeResult {
     try {
-      const workingDir = resolve(dirStr);
+      const workingDir = this.paths.resolve(dirStr);
       const config = this.configService.getConfig();
+      if (!this.paths.locate(workingDir, true).root) {
+        return {
+          success: false,
+          error: `Directory must be within working directory: ${config.workingDirectory}`
+        };
+      }
+
       const files: string[] = [];
       const packageJsonPath = join(workingDir, 'package.json');
       let installedPackages = new Set<string>();
@@ -556,9 +1034,10 @@ export class FileSystemApiService {
         };
       }
 
-      const nodeModulesBase = config.nodeModulesDir ? resolve(config.nodeModulesDir) : workingDir;
+      const nodeModulesBase = config.nodeModulesDir ? this.paths.resolve(config.nodeModulesDir) : workingDir;
 
-      this.treeWalk(workingDir, files, workingDir, installedPackages, nodeModulesBase);
+      const ignore = this.createIgnoreMatcher(workingDir, options?.respectIgnore);
+      this.treeWalk(workingDir, files, workingDir, installedPackages, nodeModulesBase, ignore);
       files.sort();
 
       return {
@@ -573,8 +1052,8 @@ export class FileSystemApiService {
     }
   }
 
-  treeMany (dirPaths: string[]): TreeResult[] {
-    return dirPaths.map(dirPath => this.tree(dirPath));
+  treeMany (dirPaths: string[], options?: TreeOptions): TreeResult[] {
+    return dirPaths.map(dirPath => this.tree(dirPath, options));
   }
 
   private treeWalk (
@@ -582,7 +1061,8 @@ export class FileSystemApiService {
     files: string[],
     rootPath: string,
     installedPackages: Set<string>,
-    nodeModulesBase?: string
+    nodeModulesBase?: string,
+    ignore: IgnoreMatcher | null = null
   ): void {
     try {
       const entries = readdirSync(currentPath);
@@ -590,6 +1070,7 @@ export class FileSystemApiService {
         const entryPath = join(currentPath, entry);
         const relativePath = relative(rootPath, entryPath);
         try {
+          if (this.isEscapingLink(entryPath)) continue;
           const stats = statSync(entryPath);
           if (stats.isDirectory()) {
             if (entry === 'node_modules' && currentPath === rootPath) {
@@ -611,16 +1092,11 @@ export class FileSystemApiService {
                   }
                 }
               }
-            } else if (!relativePath.includes('node_modules')) {
-              this.treeWalk(entryPath, files, rootPath, installedPackages, nodeModulesBase);
-            }
-          } else {
-            const ext = extname(entry).toLowerCase();
-            const isDotFile = entry.startsWith('.');
-
-            if (this.allowedExtensions.has(ext) || isDotFile) {
-              files.push(entryPath);
+            } else if (!relativePath.includes('node_modules') && !this.isInternalPath(entryPath) && !ignore?.isIgnored(entryPath, true)) {
+              this.treeWalk(entryPath, files, rootPath, installedPackages, nodeModulesBase, ignore);
             }
+          } else if (this.isFileAccessAllowed(entryPath) && !ignore?.isIgnored(entryPath, false)) {
+            files.push(entryPath);
           }
         } catch (error) {
           continue;
@@ -633,19 +1109,19 @@ export class FileSystemApiService {
   private walkDirectory (
     dirPath: string,
     files: FileInfo[],
-    options?: { filesOnly?: boolean, directoriesOnly?: boolean }
+    options?: LsOptions,
+    ignore: IgnoreMatcher | null = null
   ): void {
     const entries = readdirSync(dirPath);
 
     for (const entry of entries) {
       const entryPath = join(dirPath, entry);
       try {
+        if (this.isEscapingLink(entryPath)) continue;
         const stats = statSync(entryPath);
 
-        if (stats.isFile()) {
-          const ext = extname(entry).toLowerCase();
-          if (!this.allowedExtensions.has(ext)) continue;
-        }
+        if (stats.isFile() && !this.isFileAccessAllowed(entryPath)) continue;
+        if (ignore?.isIgnored(entryPath, stats.isDirectory())) continue;
 
         const shouldInclude =
           (!options?.filesOnly || stats.isFile()) &&
@@ -661,8 +1137,8 @@ export class FileSystemApiService {
           });
         }
 
-        if (stats.isDirectory()) {
-          this.walkDirectory(entryPath, files, options);
+        if (stats.isDirectory() && !this.isInternalPath(entryPath)) {
+          this.walkDirectory(entryPath, files, options, ignore);
         }
       } catch (error) {
         continue;
@@ -670,6 +1146,21 @@ export class FileSystemApiService {
     }
   }
 
+  // Local edit history and transaction staging live inside the project but are not part of it
+  isInternalPath (absolutePath: string): boolean {
+    return [this.configService.getHistoryDirectory(), this.configService.getTempDirectory()].some(dir =>
+      absolutePath === dir || absolutePath.startsWith(dir + path.sep)
+    );
+  }
+
+  private isWatchEventSuppressed (absolutePath: string): boolean {
+    const until = this.suppressedWatchPaths.get(absolutePath);
+    if (until === undefined) return false;
+    if (Date.now() < until) return true;
+    this.suppressedWatchPaths.delete(absolutePath);
+    return false;
+  }
+
   private addPackageMainFiles (packagePath: string, files: string[]): void {
     try {
       const packageJsonPath = join(packagePath, 'package.json');
@@ -746,6 +1237,21 @@ export class FileSystemApiService {
     return result;
   }
 
+  public isGitAvailable (): boolean {
+    if (this.gitAvailable === null) {
+      try {
+        execSync('git --version', {
+          stdio: 'pipe',
+          windowsHide: true
+        });
+        this.gitAvailable = true;
+      } catch {
+        this.gitAvailable = false;
+      }
+    }
+    return this.gitAvailable;
+  }
+
   public gitStatus (): GitStatusResult {
     try {
       const config = this.configService.getConfig();
@@ -895,7 +1401,7 @@ export class FileSystemApiService {
 
   moveItems (sourcePaths: string[], targetDirectory: string): MoveItemsResult {
     try {
-      const absTarget = resolve(targetDirectory);
+      const absTarget = this.paths.resolve(targetDirectory);
 
       const targetCheck = this.isPathSafe(absTarget);
       if (!targetCheck.safe) {
@@ -910,7 +1416,7 @@ export class FileSystemApiService {
       const errors: string[] = [];
 
       for (const sourcePath of sourcePaths) {
-        const absSource = resolve(sourcePath);
+        const absSource = this.paths.resolve(sourcePath);
 
         if (!existsSync(absSource)) {
           errors.push(`Source not found: ${absSource}`);
@@ -923,6 +1429,11 @@ export class FileSystemApiService {
           continue;
         }
 
+        if (this.containsProtectedDirectory(absSource)) {
+          errors.push(`Cannot move ${absSource}: it is a project root or the .jsxtool directory, or contains one`);
+          continue;
+        }
+
         const itemName = absSource.split(path.sep).pop()!;
         const targetPath = join(absTarget, itemName);
 
@@ -984,6 +1495,262 @@ export class FileSystemApiService {
     );
   }
 
+  mkdir (dirPath: string): MkdirResult {
+    try {
+      const absolutePath = this.paths.resolve(dirPath);
+
+      const safetyCheck = this.isPathSafe(absolutePath, undefined, true);
+      if (!safetyCheck.safe) {
+        return { success: false, error: safetyCheck.reason };
+      }
+
+      if (existsSync(absolutePath)) {
+        return statSync(absolutePath).isDirectory()
+          ? { success: true, path: absolutePath }
+          : { success: false, error: `A file already exists at: ${absolutePath}` };
+      }
+
+      mkdirSync(absolutePath, { recursive: true });
+      this.notifyFileChanges([{ type: 'added', absolutePath }]);
+      return { success: true, path: absolutePath };
+    } catch (error) {
+      return { success: false, error: `Error creating directory: ${(error as Error).message}` };
+    }
+  }
+
+  rmDir (dirPath: string, recursive: boolean = false, confirm: boolean = false): RmDirResult {
+    try {
+      const check = this.checkRmDir(dirPath, recursive, confirm);
+      if (!check.success) {
+        return check;
+      }
+
+      const absolutePath = this.paths.resolve(dirPath);
+      const removedPaths = this.collectFiles(absolutePath);
+      this.removeDirectoryRecursive(absolutePath);
+      this.notifyFileChanges([...removedPaths, absolutePath].map(removed => ({ type: 'removed' as const, absolutePath: removed })));
+
+      return { success: true, removedPaths };
+    } catch (error) {
+      return { success: false, error: `Error removing directory: ${(error as Error).message}` };
+    }
+  }
+
+  // The checks rmDir runs before removing anything, so callers can snapshot only a removal that will happen
+  checkRmDir (dirPath: string, recursive: boolean = false, confirm: boolean = false): RmDirResult {
+    try {
+      const absolutePath = this.paths.resolve(dirPath);
+
+      if (!existsSync(absolutePath)) {
+        return { success: false, error: `Directory not found: ${absolutePath}` };
+      }
+
+      // lstat, so a link to a directory is refused instead of emptying its target
+      const stats = lstatSync(absolutePath);
+      if (!stats.isDirectory()) {
+        return { success: false, error: `Path is not a directory: ${absolutePath}` };
+      }
+
+      const safetyCheck = this.isPathSafe(absolutePath, stats);
+      if (!safetyCheck.safe) {
+        return { success: false, error: safetyCheck.reason };
+      }
+
+      if (this.containsProtectedDirectory(absolutePath)) {
+        return { success: false, error: `Refusing to remove a project root or the .jsxtool directory: ${absolutePath}` };
+      }
+
+      const isEmpty = readdirSync(absolutePath).length === 0;
+      if (!isEmpty && !recursive) {
+        return { success: false, error: `Directory is not empty: ${absolutePath}` };
+      }
+      if (!isEmpty && !confirm) {
+        return { success: false, error: 'Removing a non-empty directory requires confirm: true' };
+      }
+
+      return { success: true };
+    } catch (error) {
+      return { success: false, error: `Error removing directory: ${(error as Error).message}` };
+    }
+  }
+
+  renameItem (sourcePath: string, newPath: string): RenameItemResult {
+    try {
+      const absSource = this.paths.resolve(sourcePath);
+      const isBareName = !newPath.includes('/') && !newPath.includes(path.sep);
+      const absTarget = isBareName ? join(dirname(absSource), newPath) : this.paths.resolve(newPath);
+
+      if (!existsSync(absSource)) {
+        return { success: false, error: `Source not found: ${absSource}` };
+      }
+
+      const stats = statSync(absSource);
+      const sourceCheck = this.isPathSafe(absSource, stats);
+      if (!sourceCheck.safe) {
+        return { success: false, error: sourceCheck.reason };
+      }
+
+      const targetCheck = this.isPathSafe(absTarget, undefined, stats.isDirectory());
+      if (!targetCheck.safe) {
+        return { success: false, error: targetCheck.reason };
+      }
+
+      if (absSource === this.configService.getTerminalSecretPath() || absTarget === this.configService.getTerminalSecretPath()) {
+        return { success: false, error: 'Permission denied' };
+      }
+
+      if (this.containsProtectedDirectory(absSource) || this.containsProtectedDirectory(absTarget)) {
+        return { success: false, error: 'Refusing to move a project root or the .jsxtool directory' };
+      }
+
+      if (existsSync(absTarget)) {
+        return { success: false, error: `Target already exists: ${absTarget}` };
+      }
+
+      if (stats.isDirectory() && absTarget.startsWith(absSource + path.sep)) {
+        return { success: false, error: 'Cannot move a directory into itself' };
+      }
+
+      const removedPaths = this.collectFiles(absSource);
+      mkdirSync(dirname(absTarget), { recursive: true });
+      try {
+        renameSync(absSource, absTarget);
+      } catch (error) {
+        if (!(error as Error).message.includes('EXDEV')) throw error;
+        if (stats.isDirectory()) {
+          this.copyDirectoryRecursive(absSource, absTarget);
+          this.removeDirectoryRecursive(absSource);
+        } else {
+          copyFileSync(absSource, absTarget);
+          unlinkSync(absSource);
+        }
+      }
+
+      this.notifyFileChanges([
+        ...removedPaths.map(removed => ({ type: 'removed' as const, absolutePath: removed })),
+        ...this.collectFiles(absTarget).map(added => ({ type: 'added' as const, absolutePath: added }))
+      ]);
+
+      return { success: true, from: absSource, to: absTarget };
+    } catch (error) {
+      return { success: false, error: `Error renaming: ${(error as Error).message}` };
+    }
+  }
+
+  // Copies items into a project directory; a copy that would clash gets a "name copy" style name
+  copyItems (sourcePaths: string[], targetDirectory: string): CopyItemsResult {
+    try {
+      const absTarget = this.paths.resolve(targetDirectory);
+
+      const targetCheck = this.isPathSafe(absTarget);
+      if (!targetCheck.safe) {
+        return { success: false, errors: targetCheck.reason ? [targetCheck.reason] : [] };
+      }
+
+      if (!existsSync(absTarget) || !statSync(absTarget).isDirectory()) {
+        return { success: false, errors: ['Target must be an existing directory'] };
+      }
+
+      const copiedPaths: Array<{ from: string, to: string }> = [];
+      const errors: string[] = [];
+
+      for (const sourcePath of sourcePaths) {
+        const absSource = this.paths.resolve(sourcePath);
+
+        if (!existsSync(absSource)) {
+          errors.push(`Source not found: ${absSource}`);
+          continue;
+        }
+
+        const stats = statSync(absSource);
+        const sourceCheck = this.isPathSafe(absSource, stats);
+        if (!sourceCheck.safe) {
+          errors.push(`Cannot copy ${absSource}: ${sourceCheck.reason}`);
+          continue;
+        }
+
+        if (absSource === this.configService.getTerminalSecretPath()) {
+          errors.push(`Cannot copy ${absSource}: Permission denied`);
+          continue;
+        }
+
+        if (this.containsProtectedDirectory(absSource)) {
+          errors.push(`Cannot copy ${absSource}: it is a project root or the .jsxtool directory, or contains one`);
+          continue;
+        }
+
+        if (stats.isDirectory() && (absTarget === absSource || absTarget.startsWith(absSource + path.sep))) {
+          errors.push(`Cannot copy ${absSource} into itself`);
+          continue;
+        }
+
+        const targetPath = this.getAvailableCopyPath(absTarget, absSource.split(path.sep).pop()!);
+
+        try {
+          if (stats.isDirectory()) {
+            this.copyDirectoryRecursive(absSource, targetPath);
+          } else {
+            copyFileSync(absSource, targetPath);
+          }
+          copiedPaths.push({ from: absSource, to: targetPath });
+        } catch (error) {
+          errors.push(`Failed to copy ${absSource}: ${(error as Error).message}`);
+        }
+      }
+
+      this.notifyFileChanges(copiedPaths.flatMap(({ to }) =>
+        this.collectFiles(to).map(added => ({ type: 'added' as const, absolutePath: added }))
+      ));
+
+      return {
+        success: errors.length === 0,
+        copiedPaths: copiedPaths.length > 0 ? copiedPaths : undefined,
+        errors: errors.length > 0 ? errors : undefined
+      };
+    } catch (error) {
+      return { success: false, errors: [`Copy failed: ${(error as Error).message}`] };
+    }
+  }
+
+  private getAvailableCopyPath (directory: string, itemName: string): string {
+    const candidate = join(directory, itemName);
+    if (!existsSync(candidate)) {
+      return candidate;
+    }
+
+    const ext = extname(itemName);
+    const base = ext ? itemName.slice(0, -ext.length) : itemName;
+    for (let i = 1; ; i++) {
+      const name = `${base} copy${i > 1 ? ` ${i}` : ''}${ext}`;
+      if (!existsSync(join(directory, name))) {
+        return join(directory, name);
+      }
+    }
+  }
+
+  // The file itself, or every file below a directory; links are listed, not followed
+  private collectFiles (absolutePath: string): string[] {
+    const stats = lstatSync(absolutePath, { throwIfNoEntry: false });
+    if (!stats) return [];
+    if (!stats.isDirectory()) return [absolutePath];
+    return readdirSync(absolutePath).flatMap(entry => this.collectFiles(join(absolutePath, entry)));
+  }
+
+  // Whether the path is, or lies above, a project root or the .jsxtool directory
+  private containsProtectedDirectory (absolutePath: string): boolean {
+    return this.getProtectedDirectories().some(dir => dir === absolutePath || dir.startsWith(absolutePath + path.sep));
+  }
+
+  private getProtectedDirectories (): string[] {
+    const config = this.configService.getConfig();
+    return [
+      config.workingDirectory,
+      join(config.workingDirectory, '.jsxtool'),
+      ...(config.nodeModulesDir ? [this.paths.resolve(config.nodeModulesDir)] : []),
+      ...(config.additionalDirectories ?? []).map(dir => this.paths.resolve(dir))
+    ];
+  }
+
   private removeDirectoryRecursive (dirPath: string): void {
     if (!existsSync(dirPath)) return;
 
@@ -991,7 +1758,8 @@ export class FileSystemApiService {
 
     for (const entry of entries) {
       const entryPath = join(dirPath, entry);
-      const stats = statSync(entryPath);
+      // a link is removed itself; following it would delete whatever it points at
+      const stats = lstatSync(entryPath);
 
       if (stats.isDirectory()) {
         this.removeDirectoryRecursive(entryPath);
@@ -1006,7 +1774,7 @@ export class FileSystemApiService {
   copyToClipboard (paths: string[]): CopyToClipboardResult {
     try {
       for (const path of paths) {
-        const absolutePath = resolve(path);
+        const absolutePath = this.paths.resolve(path);
         if (!existsSync(absolutePath)) {
           return { success: false, error: `Path not found: ${absolutePath}` };
         }
@@ -1017,7 +1785,7 @@ export class FileSystemApiService {
         }
       }
 
-      const absolutePaths = paths.map(p => resolve(p));
+      const absolutePaths = paths.map(p => this.paths.resolve(p));
 
       if (process.platform === 'darwin') {
         this.copyFilesToClipboardMacOS(absolutePaths);
@@ -1111,7 +1879,7 @@ export class FileSystemApiService {
 
   importItems (sourcePaths: string[], targetDirectory: string): ImportItemsResult {
     try {
-      const absTarget = resolve(targetDirectory);
+      const absTarget = this.paths.resolve(targetDirectory);
 
       const targetCheck = this.isPathSafe(absTarget);
       if (!targetCheck.safe) {
@@ -1126,7 +1894,7 @@ export class FileSystemApiService {
       const errors: string[] = [];
 
       for (const sourcePath of sourcePaths) {
-        const absSource = resolve(sourcePath);
+        const absSource = this.paths.resolve(sourcePath);
 
         if (!existsSync(absSource)) {
           errors.push(`Source not found: ${absSource}`);
@@ -1141,8 +1909,7 @@ export class FileSystemApiService {
           if (stats.isDirectory()) {
             this.copyDirectoryRecursive(absSource, targetPath);
           } else {
-            const ext = extname(itemName).toLowerCase();
-            if (!this.allowedExtensions.has(ext) && !itemName.startsWith('.')) {
+            if (!this.isFileAccessAllowed(targetPath)) {
               errors.push(`File type not allowed: ${itemName}`);
               continue;
             }
@@ -1181,15 +1948,13 @@ export class FileSystemApiService {
       const targetPath = join(target, entry);
 
       try {
+        if (this.isEscapingLink(sourcePath)) continue;
         const stats = statSync(sourcePath);
 
         if (stats.isDirectory()) {
           this.copyDirectoryRecursive(sourcePath, targetPath);
-        } else {
-          const ext = extname(entry).toLowerCase();
-          if (this.allowedExtensions.has(ext) || entry.startsWith('.')) {
-            copyFileSync(sourcePath, targetPath);
-          }
+        } else if (this.isFileAccessAllowed(targetPath)) {
+          copyFileSync(sourcePath, targetPath);
         }
       } catch (error) {
         continue;
@@ -0,0 +1,222 @@
+import { injectable, inject, singleton } from 'tsyringe';
+import { existsSync, mkdirSync, renameSync, rmSync, statSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { randomUUID } from 'crypto';
+import { ConfigService } from './config.service';
+import { Logger } from './logger.service';
+import {
+  type FileChangeEvent,
+  type WriteExpectation,
+  type WriteFileResult,
+  FileSystemApiService,
+  hashContent
+} from './file-system-api.service';
+import { PathResolverService } from './path-resolver.service';
+
+export type TransactionOperation =
+  | ({ type: 'write', filePath: string, content: string, encoding?: BufferEncoding } & WriteExpectation)
+  | { type: 'delete', filePath: string }
+  | { type: 'rename', fromPath: string, toPath: string };
+
+export interface WriteTransactionResult extends Omit<WriteFileResult, 'hash' | 'mtime'> {
+  // hash of every file written, keyed by absolute path
+  hashes?: Record<string, string>
+  changes?: FileChangeEvent[]
+  // index of the operation that failed validation or commit
+  failedOperation?: number
+}
+
+// A step that has been applied to the project and how to take it back
+type CommitStep =
+  | { kind: 'moved', from: string, to: string }
+  | { kind: 'createdDir', dir: string };
+
+class TransactionError extends Error {
+  constructor (message: string, public readonly operationIndex: number, public readonly conflict?: WriteFileResult) {
+    super(message);
+    this.name = 'TransactionError';
+  }
+}
+
+@singleton()
+@injectable()
+export class FileTransactionService {
+  constructor (
+    @inject(ConfigService) private readonly configService: ConfigService,
+    @inject(Logger) private readonly logger: Logger,
+    @inject(FileSystemApiService) private readonly fileSystemApi: FileSystemApiService,
+    @inject(PathResolverService) private readonly paths: PathResolverService
+  ) {}
+
+  // Validates every operation up front, stages new content under .jsxtool/tmp, then commits with renames.
+  // Any failure puts back every file touched so far; listeners get one batch of changes on success.
+  run (operations: TransactionOperation[]): WriteTransactionResult {
+    const stagingDir = join(this.configService.getTempDirectory(), `tx-${randomUUID()}`);
+    const steps: CommitStep[] = [];
+
+    try {
+      const initial = this.validate(operations);
+
+      mkdirSync(stagingDir, { recursive: true });
+      this.configService.ensureGitIgnore();
+      const staged = operations.map((operation, index) => {
+        if (operation.type !== 'write') return null;
+        const stagedPath = join(stagingDir, `staged-${index}`);
+        writeFileSync(stagedPath, operation.content, operation.encoding ?? 'utf8');
+        return stagedPath;
+      });
+
+      const hashes: Record<string, string> = {};
+      operations.forEach((operation, index) => {
+        try {
+          this.commit(operation, staged[index], join(stagingDir, `backup-${index}`), steps);
+        } catch (error) {
+          throw new TransactionError(`Failed to commit operation ${index}: ${(error as Error).message}`, index);
+        }
+        if (operation.type === 'write') {
+          hashes[this.paths.resolve(operation.filePath)] = hashContent(operation.content, operation.encoding);
+        }
+      });
+
+      const changes = this.describeChanges(initial);
+      this.fileSystemApi.notifyFileChanges(changes);
+      return { success: true, hashes, changes };
+    } catch (error) {
+      this.rollback(steps);
+      if (error instanceof TransactionError) {
+        return { ...error.conflict, success: false, error: error.message, failedOperation: error.operationIndex };
+      }
+      return { success: false, error: `Transaction failed: ${(error as Error).message}` };
+    } finally {
+      rmSync(stagingDir, { recursive: true, force: true });
+    }
+  }
+
+  // Replays the operations against a model of the file system, so later operations see earlier ones.
+  // Returns whether each touched path existed before the transaction.
+  private validate (operations: TransactionOperation[]): Map<string, boolean> {
+    const initial = new Map<string, boolean>();
+    const current = new Map<string, boolean>();
+    const terminalSecretPath = this.configService.getTerminalSecretPath();
+
+    const fileExists = (absolutePath: string): boolean => {
+      if (!current.has(absolutePath)) {
+        const onDisk = existsSync(absolutePath);
+        if (onDisk && !statSync(absolutePath).isFile()) {
+          throw new Error(`Path is not a file: ${absolutePath}`);
+        }
+        initial.set(absolutePath, onDisk);
+        current.set(absolutePath, onDisk);
+      }
+      return current.get(absolutePath)!;
+    };
+
+    operations.forEach((operation, index) => {
+      const paths = operation.type === 'rename' ? [operation.fromPath, operation.toPath] : [operation.filePath];
+      const [source, target] = paths.map(filePath => this.paths.resolve(filePath));
+
+      try {
+        for (const absolutePath of [source, target ?? source]) {
+          const safetyCheck = this.fileSystemApi.isPathSafe(absolutePath);
+          if (!safetyCheck.safe) {
+            throw new Error(safetyCheck.reason);
+          }
+          if (absolutePath === terminalSecretPath) {
+            throw new Error('Permission denied');
+          }
+        }
+
+        if (operation.type === 'write') {
+          const touchedEarlier = current.has(source);
+          if (fileExists(source) && !touchedEarlier) {
+            const conflict = this.fileSystemApi.checkWriteExpectation(source, operation.encoding ?? 'utf8', operation);
+            if (conflict) {
+              throw new TransactionError(conflict.error ?? 'Conflict', index, conflict);
+            }
+          }
+          current.set(source, true);
+        } else if (operation.type === 'delete') {
+          if (!fileExists(source)) {
+            throw new Error(`File not found: ${source}`);
+          }
+          current.set(source, false);
+        } else {
+          if (!fileExists(source)) {
+            throw new Error(`Source not found: ${source}`);
+          }
+          if (fileExists(target)) {
+            throw new Error(`Target already exists: ${target}`);
+          }
+          current.set(source, false);
+          current.set(target, true);
+        }
+      } catch (error) {
+        if (error instanceof TransactionError) throw error;
+        throw new TransactionError(`Operation ${index} is invalid: ${(error as Error).message}`, index);
+      }
+    });
+
+    return initial;
+  }
+
+  private commit (operation: TransactionOperation, stagedPath: string | null, backupPath: string, steps: CommitStep[]): void {
+    if (operation.type === 'rename') {
+      const from = this.paths.resolve(operation.fromPath);
+      const to = this.paths.resolve(operation.toPath);
+      this.ensureParentDir(to, steps);
+      this.move(from, to, steps);
+      return;
+    }
+
+    const target = this.paths.resolve(operation.filePath);
+    if (existsSync(target)) {
+      this.move(target, backupPath, steps);
+    }
+    if (operation.type === 'write') {
+      this.ensureParentDir(target, steps);
+      this.move(stagedPath!, target, steps);
+    }
+  }
+
+  private move (from: string, to: string, steps: CommitStep[]): void {
+    renameSync(from, to);
+    steps.push({ kind: 'moved', from, to });
+  }
+
+  private ensureParentDir (filePath: string, steps: CommitStep[]): void {
+    const dir = dirname(filePath);
+    if (!existsSync(dir)) {
+      const created = mkdirSync(dir, { recursive: true });
+      steps.push({ kind: 'createdDir', dir: created ?? dir });
+    }
+  }
+
+  private rollback (steps: CommitStep[]): void {
+    for (const step of [...steps].reverse()) {
+      try {
+        if (step.kind === 'moved') {
+          renameSync(step.to, step.from);
+        } else {
+          rmSync(step.dir, { recursive: true, force: true });
+        }
+      } catch (error) {
+        this.logger.error(`Failed to roll back transaction step: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  private describeChanges (initial: Map<string, boolean>): FileChangeEvent[] {
+    const changes: FileChangeEvent[] = [];
+    for (const [absolutePath, existedBefore] of initial) {
+      const existsAfter = existsSync(absolutePath);
+      if (existedBefore && existsAfter) {
+        changes.push({ type: 'changed', absolutePath });
+      } else if (existsAfter) {
+        changes.push({ type: 'added', absolutePath });
+      } else if (existedBefore) {
+        changes.push({ type: 'removed', absolutePath });
+      }
+    }
+    return changes;
+  }
+}
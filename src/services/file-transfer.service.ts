@@ -0,0 +1,238 @@
+import { injectable, inject, singleton } from 'tsyringe';
+import { appendFileSync, existsSync, mkdirSync, renameSync, rmSync, statSync } from 'fs';
+import { dirname, join } from 'path';
+import { ConfigService } from './config.service';
+import { Logger } from './logger.service';
+import { type WriteExpectation, type WriteFileResult, FileSystemApiService } from './file-system-api.service';
+import { PathResolverService } from './path-resolver.service';
+import { type ImageDimensions, detectMimeType, getImageDimensions } from '../utils/media-info';
+import { hashFile, readBytes } from '../utils/file-scan';
+
+// Multiples of three, so base64 chunks of a download can be concatenated without re-encoding
+export const DEFAULT_TRANSFER_CHUNK_BYTES = 768 * 1024;
+export const MAX_TRANSFER_CHUNK_BYTES = 3 * 1024 * 1024;
+const UPLOAD_IDLE_TIMEOUT_MS = 10 * 60 * 1000;
+// enough for image headers and most JPEG metadata before the size frame
+const MEDIA_PROBE_BYTES = 64 * 1024;
+
+export interface ReadFileChunkArgs {
+  filePath: string
+  offset: number
+  length?: number
+}
+
+export interface ReadFileChunkResult {
+  success: boolean
+  // base64
+  data?: string
+  offset?: number
+  bytesRead?: number
+  size?: number
+  mtime?: number
+  eof?: boolean
+  // first chunk only
+  mimeType?: string
+  dimensions?: ImageDimensions
+  error?: string
+}
+
+export interface WriteFileChunkArgs extends WriteExpectation {
+  filePath: string
+  // chosen by the client; identifies one upload across chunks
+  uploadId: string
+  offset: number
+  // base64
+  data: string
+  // moves the assembled file into place
+  done?: boolean
+}
+
+export interface WriteFileChunkResult extends WriteFileResult {
+  uploadId?: string
+  // bytes staged so far; after an offset mismatch the client resumes from here
+  receivedBytes?: number
+  done?: boolean
+  mimeType?: string
+  offsetMismatch?: boolean
+}
+
+interface PendingUpload {
+  filePath: string
+  stagingPath: string
+  receivedBytes: number
+  updatedAt: number
+}
+
+@singleton()
+@injectable()
+export class FileTransferService {
+  private readonly uploads = new Map<string, PendingUpload>();
+
+  constructor (
+    @inject(ConfigService) private readonly configService: ConfigService,
+    @inject(Logger) private readonly logger: Logger,
+    @inject(FileSystemApiService) private readonly fileSystemApi: FileSystemApiService,
+    @inject(PathResolverService) private readonly paths: PathResolverService
+  ) {}
+
+  readChunk (filePath: string, offset: number, length: number = DEFAULT_TRANSFER_CHUNK_BYTES): ReadFileChunkResult {
+    const absolutePath = this.paths.resolve(filePath);
+    const denied = this.checkAccess(absolutePath);
+    if (denied) {
+      return { success: false, error: denied };
+    }
+
+    try {
+      if (!existsSync(absolutePath) || !statSync(absolutePath).isFile()) {
+        return { success: false, error: `File not found: ${absolutePath}` };
+      }
+
+      const stats = statSync(absolutePath);
+      const bytes = readBytes(absolutePath, offset, Math.min(length, MAX_TRANSFER_CHUNK_BYTES));
+
+      const result: ReadFileChunkResult = {
+        success: true,
+        data: bytes.toString('base64'),
+        offset,
+        bytesRead: bytes.length,
+        size: stats.size,
+        mtime: stats.mtimeMs,
+        eof: offset + bytes.length >= stats.size
+      };
+
+      if (offset === 0) {
+        const probe = readBytes(absolutePath, 0, MEDIA_PROBE_BYTES);
+        result.mimeType = detectMimeType(absolutePath, probe);
+        result.dimensions = getImageDimensions(probe, result.mimeType);
+      }
+
+      return result;
+    } catch (error) {
+      return { success: false, error: `Error reading file: ${(error as Error).message}` };
+    }
+  }
+
+  // Chunks are appended to a staging file under .jsxtool/tmp and must arrive in order. The target is only
+  // replaced when the final chunk arrives, so an interrupted upload never leaves a truncated file behind.
+  writeChunk (args: WriteFileChunkArgs): WriteFileChunkResult {
+    this.dropIdleUploads();
+
+    const { uploadId, offset } = args;
+    const absolutePath = this.paths.resolve(args.filePath);
+    const denied = this.checkAccess(absolutePath);
+    if (denied) {
+      return { success: false, uploadId, error: denied };
+    }
+
+    if (!/^[\w-]{1,64}$/.test(uploadId)) {
+      return { success: false, uploadId, error: 'uploadId must be 1-64 letters, digits, "-" or "_"' };
+    }
+
+    const chunk = Buffer.from(args.data, 'base64');
+    if (chunk.length > MAX_TRANSFER_CHUNK_BYTES) {
+      return { success: false, uploadId, error: `Chunks may not exceed ${MAX_TRANSFER_CHUNK_BYTES} bytes` };
+    }
+
+    let upload = this.uploads.get(uploadId);
+    if (upload && upload.filePath !== absolutePath) {
+      return { success: false, uploadId, error: `Upload ${uploadId} targets ${upload.filePath}` };
+    }
+    if (!upload && offset === 0) {
+      upload = { filePath: absolutePath, stagingPath: join(this.configService.getTempDirectory(), `upload-${uploadId}`), receivedBytes: 0, updatedAt: Date.now() };
+      mkdirSync(dirname(upload.stagingPath), { recursive: true });
+      this.configService.ensureGitIgnore();
+      rmSync(upload.stagingPath, { force: true });
+      this.uploads.set(uploadId, upload);
+    }
+
+    const receivedBytes = upload?.receivedBytes ?? 0;
+    if (!upload || offset !== receivedBytes) {
+      return {
+        success: false,
+        uploadId,
+        receivedBytes,
+        offsetMismatch: true,
+        error: upload ? `Expected a chunk at offset ${receivedBytes}, got ${offset}` : `Unknown upload: ${uploadId}`
+      };
+    }
+
+    try {
+      appendFileSync(upload.stagingPath, chunk);
+      upload.receivedBytes += chunk.length;
+      upload.updatedAt = Date.now();
+    } catch (error) {
+      this.abort(uploadId);
+      return { success: false, uploadId, error: `Error staging upload: ${(error as Error).message}` };
+    }
+
+    if (!args.done) {
+      return { success: true, uploadId, receivedBytes: upload.receivedBytes, done: false };
+    }
+
+    return this.complete(uploadId, upload, args);
+  }
+
+  abort (uploadId: string): { success: boolean, error?: string } {
+    const upload = this.uploads.get(uploadId);
+    if (!upload) {
+      return { success: false, error: `Unknown upload: ${uploadId}` };
+    }
+
+    this.uploads.delete(uploadId);
+    rmSync(upload.stagingPath, { force: true });
+    return { success: true };
+  }
+
+  private complete (uploadId: string, upload: PendingUpload, expected: WriteExpectation): WriteFileChunkResult {
+    const absolutePath = upload.filePath;
+    try {
+      const conflict = this.fileSystemApi.checkWriteExpectation(absolutePath, 'base64', expected);
+      if (conflict) {
+        this.abort(uploadId);
+        // binary content is not echoed back; the hash and mtime are enough to detect the conflict
+        return { ...conflict, currentContent: undefined, uploadId };
+      }
+
+      const existed = existsSync(absolutePath);
+      mkdirSync(dirname(absolutePath), { recursive: true });
+      renameSync(upload.stagingPath, absolutePath);
+      this.uploads.delete(uploadId);
+
+      this.fileSystemApi.notifyFileChanges([{ type: existed ? 'changed' : 'added', absolutePath }]);
+
+      return {
+        success: true,
+        uploadId,
+        receivedBytes: upload.receivedBytes,
+        done: true,
+        hash: hashFile(absolutePath),
+        mtime: statSync(absolutePath).mtimeMs,
+        mimeType: detectMimeType(absolutePath, readBytes(absolutePath, 0, MEDIA_PROBE_BYTES))
+      };
+    } catch (error) {
+      this.abort(uploadId);
+      return { success: false, uploadId, error: `Error completing upload: ${(error as Error).message}` };
+    }
+  }
+
+  private checkAccess (absolutePath: string): string | null {
+    const safetyCheck = this.fileSystemApi.isPathSafe(absolutePath);
+    if (!safetyCheck.safe) {
+      return safetyCheck.reason ?? 'Path is not allowed';
+    }
+    if (absolutePath === this.configService.getTerminalSecretPath()) {
+      return 'Permission denied';
+    }
+    return null;
+  }
+
+  private dropIdleUploads (): void {
+    const cutoff = Date.now() - UPLOAD_IDLE_TIMEOUT_MS;
+    for (const [uploadId, upload] of this.uploads) {
+      if (upload.updatedAt < cutoff) {
+        this.logger.debug(`Dropping idle upload ${uploadId} for ${upload.filePath}`);
+        this.abort(uploadId);
+      }
+    }
+  }
+}
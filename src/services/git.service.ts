@@ -0,0 +1,690 @@
+import { injectable, inject, singleton } from 'tsyringe';
+import { execFile, execFileSync } from 'child_process';
+import { promisify } from 'util';
+import { ConfigService } from './config.service';
+import { Logger } from './logger.service';
+import { statSync } from 'fs';
+import { join, relative } from 'path';
+import { type FileChangeEvent, FileSystemApiService, hashContent } from './file-system-api.service';
+import { PathResolverService } from './path-resolver.service';
+import { type DiffHunk, parseUnifiedDiff } from '../utils/unified-diff';
+import { detectMimeType } from '../utils/media-info';
+import { locateLines } from '../utils/file-scan';
+import {
+  type ConflictChoice,
+  type ConflictRegion,
+  parseConflicts,
+  resolveConflictRegion
+} from '../utils/conflict-markers';
+
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+// commit hooks run synchronously, so a stuck hook must not hang the server
+const GIT_TIMEOUT_MS = 60 * 1000;
+export const DEFAULT_GIT_LOG_LIMIT = 50;
+const MAX_BLAME_CACHE_ENTRIES = 100;
+// what git blame reports for lines that differ from HEAD
+const UNCOMMITTED_HASH = '0'.repeat(40);
+// batches a burst of saves (and the watcher's report of them) into one git diff
+const HUNKS_DEBOUNCE_MS = 150;
+
+const execFileAsync = promisify(execFile);
+
+export interface GitDiffResult {
+  success: boolean
+  absolutePath?: string
+  staged?: boolean
+  // untracked files diff as added against an empty file
+  status?: 'added' | 'deleted' | 'modified' | 'unchanged'
+  binary?: boolean
+  hunks?: DiffHunk[]
+  error?: string
+}
+
+export interface GitPathsResult {
+  success: boolean
+  paths?: string[]
+  error?: string
+}
+
+export interface GitCommitResult {
+  success: boolean
+  commit?: string
+  // first line of the message
+  summary?: string
+  error?: string
+}
+
+export interface GitShowFileResult {
+  success: boolean
+  absolutePath?: string
+  ref?: string
+  // false when the path does not exist at ref; data is then left out
+  tracked?: boolean
+  data?: string
+  hash?: string
+  size?: number
+  mimeType?: string
+  error?: string
+}
+
+export interface GitLogEntry {
+  commit: string
+  author: string
+  email: string
+  // ISO 8601 author date
+  date: string
+  summary: string
+  message: string
+}
+
+export interface GitLogFileResult {
+  success: boolean
+  absolutePath?: string
+  commits?: GitLogEntry[]
+  error?: string
+}
+
+export interface GitBlameLine {
+  // 1-based line number in the working copy
+  line: number
+  commit: string
+  author: string
+  email: string
+  // author time, ms since epoch
+  timestamp: number
+  summary: string
+  // the line has not been committed yet
+  uncommitted: boolean
+}
+
+export interface GitBlameResult {
+  success: boolean
+  absolutePath?: string
+  // HEAD the blame was computed against
+  head?: string
+  startLine?: number
+  endLine?: number
+  totalLines?: number
+  lines?: GitBlameLine[]
+  error?: string
+}
+
+// A gutter marker for a run of lines that differ from the index
+export interface GitLineHunk {
+  type: 'added' | 'modified' | 'deleted'
+  // 1-based; for deleted hunks the line the removed lines followed (0 for the top of the file)
+  startLine: number
+  // lines added or modified, or for deleted hunks the number of lines removed
+  lineCount: number
+}
+
+export interface GitFileHunks {
+  absolutePath: string
+  // empty when the file matches the index again or was removed
+  hunks: GitLineHunk[]
+}
+
+export interface ConflictFile {
+  absolutePath: string
+  // empty for conflicts without markers, such as a file deleted on one side
+  regions: ConflictRegion[]
+}
+
+export interface GetConflictsResult {
+  success: boolean
+  files?: ConflictFile[]
+  error?: string
+}
+
+export interface ResolveConflictResult {
+  success: boolean
+  absolutePath?: string
+  // regions still left in the file
+  remaining?: number
+  // the file was staged because no regions are left
+  staged?: boolean
+  hash?: string
+  error?: string
+}
+
+interface BlameCacheEntry {
+  head: string
+  lines: GitBlameLine[]
+}
+
+interface HunksListener {
+  listener: (files: GitFileHunks[]) => void
+  isActive: () => boolean
+}
+
+interface GitCommandOptions {
+  cwd?: string
+  input?: string
+  // `git diff --no-index` exits with 1 when the files differ
+  allowedExitCodes?: number[]
+}
+
+// Git operations for the edit-review-commit loop. Paths are checked like any other file request and
+// git runs in the project root (or additional directory) that contains them.
+@singleton()
+@injectable()
+export class GitService {
+  private readonly blameCache = new Map<string, BlameCacheEntry>();
+  private readonly hunksListeners: HunksListener[] = [];
+  private readonly pendingHunkPaths = new Set<string>();
+  private hunksTimer: NodeJS.Timeout | null = null;
+
+  constructor (
+    @inject(ConfigService) private readonly configService: ConfigService,
+    @inject(Logger) private readonly logger: Logger,
+    @inject(FileSystemApiService) private readonly fileSystemApi: FileSystemApiService,
+    @inject(PathResolverService) private readonly paths: PathResolverService
+  ) {
+    this.fileSystemApi.setListener((changes: FileChangeEvent[]) => {
+      changes.forEach(({ absolutePath }) => this.blameCache.delete(absolutePath));
+      if (this.hunksListeners.some(({ isActive }) => isActive())) {
+        this.scheduleHunks(changes.map(({ absolutePath }) => absolutePath));
+      }
+    });
+  }
+
+  // Hunks are only computed while some listener is active, e.g. while a client subscribes to them
+  setHunksListener (listener: (files: GitFileHunks[]) => void, isActive: () => boolean = () => true): void {
+    this.hunksListeners.push({ listener, isActive });
+  }
+
+  // Line-level changes against the index, one git diff per repository. Untracked files count as
+  // entirely added; directories are left out. Runs git asynchronously, since it follows every save.
+  async lineHunks (paths: string[]): Promise<GitFileHunks[]> {
+    if (paths.length === 0 || !this.fileSystemApi.isGitAvailable()) {
+      return [];
+    }
+
+    const groups = new Map<string, string[]>();
+    for (const filePath of paths) {
+      const absolutePath = this.paths.resolve(filePath);
+      if (statSync(absolutePath, { throwIfNoEntry: false })?.isDirectory() === true) continue;
+      const cwd = this.getRepositoryDir(absolutePath);
+      groups.set(cwd, [...(groups.get(cwd) ?? []), absolutePath]);
+    }
+
+    const results: GitFileHunks[] = [];
+    for (const [cwd, group] of groups) {
+      const hunksByPath = new Map<string, GitLineHunk[]>(group.map(absolutePath => [absolutePath, []]));
+      try {
+        const output = await this.gitAsync(['diff', '--no-color', '--no-ext-diff', '--no-renames', '--relative', '-U0', '--', ...group], cwd);
+        if (/^--- /m.test(output)) {
+          for (const patch of parseUnifiedDiff(output)) {
+            const changedPath = patch.newPath ?? patch.oldPath;
+            if (changedPath !== null) {
+              hunksByPath.set(join(cwd, changedPath), patch.hunks.map(toLineHunk));
+            }
+          }
+        }
+
+        const untracked = await this.gitAsync(['ls-files', '--others', '--exclude-standard', '-z', '--', ...group], cwd);
+        for (const untrackedPath of untracked.split('\0').filter(Boolean)) {
+          const absolutePath = join(cwd, untrackedPath);
+          const { totalLines } = locateLines(absolutePath, 1, 1);
+          hunksByPath.set(absolutePath, totalLines > 0 ? [{ type: 'added', startLine: 1, lineCount: totalLines }] : []);
+        }
+      } catch (error) {
+        // outside a repository there is nothing to mark
+        this.logger.debug(`Skipping git hunks in ${cwd}: ${(error as Error).message}`);
+        continue;
+      }
+      hunksByPath.forEach((hunks, absolutePath) => results.push({ absolutePath, hunks }));
+    }
+
+    return results;
+  }
+
+  private scheduleHunks (paths: string[]): void {
+    paths.forEach(path => this.pendingHunkPaths.add(path));
+    if (this.hunksTimer) return;
+
+    this.hunksTimer = setTimeout(() => {
+      const paths = Array.from(this.pendingHunkPaths);
+      this.pendingHunkPaths.clear();
+      void this.lineHunks(paths).then(files => {
+        const active = this.hunksListeners.filter(({ isActive }) => isActive());
+        if (files.length > 0) {
+          active.forEach(({ listener }) => { listener(files); });
+        }
+      }).finally(() => {
+        // changes that came in while git ran are diffed next, so updates arrive in order
+        this.hunksTimer = null;
+        if (this.pendingHunkPaths.size > 0) {
+          this.scheduleHunks([]);
+        }
+      });
+    }, HUNKS_DEBOUNCE_MS);
+    // a pending marker update must not keep the process alive on shutdown
+    this.hunksTimer.unref();
+  }
+
+  diff (filePath: string, staged: boolean = false, contextLines: number = 3): GitDiffResult {
+    try {
+      const [absolutePath] = this.checkPaths([filePath]);
+      const cwd = this.getRepositoryDir(absolutePath);
+      const options = ['--no-color', '--no-ext-diff', `-U${contextLines}`];
+
+      const output = !staged && this.listUntracked([absolutePath], cwd).length > 0
+        ? this.git(['diff', ...options, '--no-index', '--', '/dev/null', absolutePath], { cwd, allowedExitCodes: [1] })
+        : this.git(['diff', ...options, '--no-renames', ...(staged ? ['--cached'] : []), '--', absolutePath], { cwd });
+
+      return { success: true, absolutePath, staged, ...parseFileDiff(output) };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  showFile (filePath: string, ref: string = 'HEAD', encoding: BufferEncoding = 'utf8'): GitShowFileResult {
+    try {
+      const [absolutePath] = this.checkPaths([filePath]);
+      const cwd = this.getRepositoryDir(absolutePath);
+      this.verifyRef(ref, cwd);
+
+      // `<ref>:./<path>` is read relative to cwd rather than the top of the repository
+      const object = `${ref}:./${relative(cwd, absolutePath).split('\\').join('/')}`;
+      let type: string;
+      try {
+        type = this.git(['cat-file', '-t', object], { cwd }).trim();
+      } catch {
+        return { success: true, absolutePath, ref, tracked: false };
+      }
+      if (type !== 'blob') {
+        return { success: false, error: `Path is not a file at ${ref}: ${absolutePath}` };
+      }
+
+      const bytes = this.exec(['cat-file', 'blob', object], { cwd });
+      const data = bytes.toString(encoding);
+      return {
+        success: true,
+        absolutePath,
+        ref,
+        tracked: true,
+        data,
+        hash: hashContent(data, encoding),
+        size: bytes.length,
+        mimeType: detectMimeType(absolutePath, bytes)
+      };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  // Newest first, following the file across renames
+  logFile (filePath: string, limit: number = DEFAULT_GIT_LOG_LIMIT): GitLogFileResult {
+    try {
+      const [absolutePath] = this.checkPaths([filePath]);
+      const cwd = this.getRepositoryDir(absolutePath);
+      if (!this.hasHead(cwd)) {
+        return { success: true, absolutePath, commits: [] };
+      }
+
+      const output = this.git([
+        'log', '-z', '--follow', `--max-count=${limit}`,
+        '--format=%H%x1f%an%x1f%ae%x1f%aI%x1f%B',
+        '--', absolutePath
+      ], { cwd });
+
+      const commits = output.split('\0').filter(Boolean).map(record => {
+        const [commit, author, email, date, body] = record.split('\x1f');
+        const message = body.trimEnd();
+        return { commit, author, email, date, summary: message.split('\n')[0], message };
+      });
+
+      return { success: true, absolutePath, commits };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  // Blames the whole file once per HEAD and serves line ranges from the cache until the file changes
+  blame (filePath: string, startLine: number = 1, endLine?: number): GitBlameResult {
+    try {
+      const [absolutePath] = this.checkPaths([filePath]);
+      if (endLine !== undefined && endLine < startLine) {
+        return { success: false, error: `endLine ${endLine} is before startLine ${startLine}` };
+      }
+
+      const cwd = this.getRepositoryDir(absolutePath);
+      if (!this.hasHead(cwd)) {
+        return { success: false, error: 'The repository has no commits yet' };
+      }
+      const head = this.git(['rev-parse', 'HEAD'], { cwd }).trim();
+
+      let cached = this.blameCache.get(absolutePath);
+      if (cached?.head !== head) {
+        cached = { head, lines: parseBlamePorcelain(this.git(['blame', '--porcelain', '--', absolutePath], { cwd })) };
+        this.blameCache.delete(absolutePath);
+        this.blameCache.set(absolutePath, cached);
+        if (this.blameCache.size > MAX_BLAME_CACHE_ENTRIES) {
+          this.blameCache.delete(this.blameCache.keys().next().value as string);
+        }
+      }
+
+      const totalLines = cached.lines.length;
+      const lastLine = Math.min(endLine ?? totalLines, totalLines);
+      return {
+        success: true,
+        absolutePath,
+        head,
+        startLine,
+        endLine: lastLine,
+        totalLines,
+        lines: cached.lines.slice(startLine - 1, lastLine)
+      };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  // Conflict regions of one file, or of every file git reports as unmerged
+  getConflicts (filePath?: string): GetConflictsResult {
+    try {
+      const absolutePaths = filePath !== undefined
+        ? this.checkPaths([filePath])
+        // an additional directory inside the project would otherwise list its files twice
+        : Array.from(new Set(this.paths.getRoots().flatMap(root => this.listUnmerged(root))));
+
+      const files = absolutePaths.map(absolutePath => {
+        const read = this.fileSystemApi.readFile(absolutePath);
+        return { absolutePath, regions: read.success ? parseConflicts(read.data ?? '') : [] };
+      });
+
+      return { success: true, files };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  resolveConflict (filePath: string, regionIndex: number, resolution: ConflictChoice | { text: string }): ResolveConflictResult {
+    try {
+      const [absolutePath] = this.checkPaths([filePath]);
+      const read = this.fileSystemApi.readFile(absolutePath);
+      if (!read.success) {
+        return { success: false, error: read.error };
+      }
+
+      const content = resolveConflictRegion(read.data ?? '', regionIndex, resolution);
+      // rejects the write if the file changed since it was read
+      const written = this.fileSystemApi.writeToFile(absolutePath, content, 'utf8', { expectedHash: read.hash });
+      if (!written.success) {
+        return { success: false, error: written.error };
+      }
+
+      const remaining = parseConflicts(content).length;
+      if (remaining === 0) {
+        this.git(['add', '--', absolutePath], { cwd: this.getRepositoryDir(absolutePath) });
+      }
+
+      return { success: true, absolutePath, remaining, staged: remaining === 0, hash: written.hash };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  stage (paths: string[]): GitPathsResult {
+    return this.runPerRepository(paths, (group, cwd) => {
+      this.git(['add', '--', ...group], { cwd });
+    });
+  }
+
+  unstage (paths: string[]): GitPathsResult {
+    return this.runPerRepository(paths, (group, cwd) => {
+      if (this.hasHead(cwd)) {
+        this.git(['reset', '--quiet', '--', ...group], { cwd });
+      } else {
+        // before the first commit there is nothing to reset to
+        this.git(['rm', '--quiet', '--cached', '-r', '--', ...group], { cwd });
+      }
+    });
+  }
+
+  // Restores files to their staged content. Untracked files have nothing to restore to and are
+  // left alone; deleting them is up to rm.
+  discard (paths: string[]): GitPathsResult {
+    return this.runPerRepository(paths, (group, cwd) => {
+      const untracked = this.listUntracked(group, cwd);
+      if (untracked.length > 0) {
+        throw new Error(`Cannot discard untracked files: ${untracked.join(', ')}`);
+      }
+      this.git(['checkout', '--', ...group], { cwd });
+    });
+  }
+
+  commit (message: string | undefined, amend: boolean = false): GitCommitResult {
+    try {
+      this.ensureGitAvailable();
+      const cwd = this.configService.getConfig().workingDirectory;
+      const trimmed = message?.trim() ?? '';
+      if (trimmed === '' && !amend) {
+        return { success: false, error: 'A commit message is required' };
+      }
+
+      const args = ['commit', '--quiet', ...(amend ? ['--amend'] : [])];
+      this.git(trimmed === '' ? [...args, '--no-edit'] : [...args, '--file', '-'], { cwd, input: trimmed });
+
+      const commit = this.git(['rev-parse', 'HEAD'], { cwd }).trim();
+      const summary = this.git(['log', '-1', '--pretty=%s'], { cwd }).trim();
+      this.logger.debug(`Committed ${commit}: ${summary}`);
+
+      return { success: true, commit, summary };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  // The files under `paths` whose working copy differs from the index, i.e. the ones discard overwrites
+  listDiscardable (paths: string[]): string[] {
+    try {
+      const absolutePaths = this.checkPaths(paths);
+      return Array.from(this.groupByRepository(absolutePaths)).flatMap(([cwd, group]) =>
+        this.git(['diff', '--name-only', '--relative', '-z', '--', ...group], { cwd })
+          .split('\0')
+          .filter(Boolean)
+          .map(path => join(cwd, path))
+      );
+    } catch (error) {
+      this.logger.debug(`Cannot list discardable files: ${(error as Error).message}`);
+      return [];
+    }
+  }
+
+  private runPerRepository (paths: string[], run: (group: string[], cwd: string) => void): GitPathsResult {
+    try {
+      const absolutePaths = this.checkPaths(paths);
+      for (const [cwd, group] of this.groupByRepository(absolutePaths)) {
+        run(group, cwd);
+      }
+
+      return { success: true, paths: absolutePaths };
+    } catch (error) {
+      return { success: false, error: (error as Error).message };
+    }
+  }
+
+  private groupByRepository (absolutePaths: string[]): Map<string, string[]> {
+    const groups = new Map<string, string[]>();
+    for (const absolutePath of absolutePaths) {
+      const cwd = this.getRepositoryDir(absolutePath);
+      groups.set(cwd, [...(groups.get(cwd) ?? []), absolutePath]);
+    }
+    return groups;
+  }
+
+  private checkPaths (paths: string[]): string[] {
+    this.ensureGitAvailable();
+    if (paths.length === 0) {
+      throw new Error('No paths given');
+    }
+
+    return paths.map(filePath => {
+      const absolutePath = this.paths.resolve(filePath);
+      const safetyCheck = this.fileSystemApi.isPathSafe(absolutePath);
+      if (!safetyCheck.safe) {
+        throw new Error(safetyCheck.reason ?? `Path is not allowed: ${absolutePath}`);
+      }
+      if (absolutePath === this.configService.getTerminalSecretPath()) {
+        throw new Error('Permission denied');
+      }
+      return absolutePath;
+    });
+  }
+
+  private ensureGitAvailable (): void {
+    if (!this.fileSystemApi.isGitAvailable()) {
+      throw new Error('Git is not installed or not in PATH');
+    }
+  }
+
+  // Additional directories may be separate repositories
+  private getRepositoryDir (absolutePath: string): string {
+    return this.paths.findRoot(absolutePath) ?? this.configService.getConfig().workingDirectory;
+  }
+
+  // Refs come from the client, so one that looks like an option must never reach git's argument list
+  private verifyRef (ref: string, cwd: string): void {
+    if (ref.startsWith('-')) {
+      throw new Error(`Invalid revision: ${ref}`);
+    }
+    try {
+      this.git(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], { cwd });
+    } catch {
+      throw new Error(`Unknown revision: ${ref}`);
+    }
+  }
+
+  private hasHead (cwd: string): boolean {
+    try {
+      this.git(['rev-parse', '--verify', '--quiet', 'HEAD'], { cwd });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private listUnmerged (cwd: string): string[] {
+    this.ensureGitAvailable();
+    try {
+      this.git(['rev-parse', '--is-inside-work-tree'], { cwd });
+    } catch {
+      return [];
+    }
+    return this.git(['diff', '--name-only', '--relative', '--diff-filter=U', '-z'], { cwd })
+      .split('\0')
+      .filter(Boolean)
+      .map(path => join(cwd, path));
+  }
+
+  private listUntracked (paths: string[], cwd: string): string[] {
+    return this.git(['ls-files', '--others', '--exclude-standard', '-z', '--', ...paths], { cwd })
+      .split('\0')
+      .filter(Boolean);
+  }
+
+  private async gitAsync (args: string[], cwd: string): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync('git', args, {
+        cwd,
+        windowsHide: true,
+        maxBuffer: GIT_MAX_BUFFER,
+        timeout: GIT_TIMEOUT_MS
+      });
+      return stdout;
+    } catch (error) {
+      const { stderr } = error as { stderr?: string };
+      throw new Error(stderr?.trim() || (error as Error).message);
+    }
+  }
+
+  private git (args: string[], options: GitCommandOptions = {}): string {
+    return this.exec(args, options).toString('utf8');
+  }
+
+  private exec (args: string[], options: GitCommandOptions = {}): Buffer {
+    try {
+      return execFileSync('git', args, {
+        cwd: options.cwd ?? this.configService.getConfig().workingDirectory,
+        input: options.input,
+        stdio: 'pipe',
+        windowsHide: true,
+        maxBuffer: GIT_MAX_BUFFER,
+        timeout: GIT_TIMEOUT_MS
+      });
+    } catch (error) {
+      const { status, stdout, stderr } = error as { status?: number | null, stdout?: Buffer, stderr?: Buffer };
+      if (typeof status === 'number' && options.allowedExitCodes?.includes(status)) {
+        return stdout ?? Buffer.alloc(0);
+      }
+      const output = stderr?.length ? stderr : stdout;
+      throw new Error((output?.length ? output.toString('utf8') : (error as Error).message).trim());
+    }
+  }
+}
+
+function parseFileDiff (output: string): Pick<GitDiffResult, 'status' | 'binary' | 'hunks'> {
+  if (output.trim() === '') {
+    return { status: 'unchanged', binary: false, hunks: [] };
+  }
+
+  const status = /^new file mode/m.test(output)
+    ? 'added'
+    : /^deleted file mode/m.test(output) ? 'deleted' : 'modified';
+
+  if (/^Binary files .* differ$/m.test(output)) {
+    return { status, binary: true, hunks: [] };
+  }
+
+  // mode changes and empty files come without any hunks
+  const hunks = /^--- /m.test(output) ? parseUnifiedDiff(output)[0].hunks : [];
+  return { status, binary: false, hunks };
+}
+
+function toLineHunk (hunk: DiffHunk): GitLineHunk {
+  if (hunk.newLines === 0) {
+    return { type: 'deleted', startLine: hunk.newStart, lineCount: hunk.oldLines };
+  }
+  return { type: hunk.oldLines === 0 ? 'added' : 'modified', startLine: hunk.newStart, lineCount: hunk.newLines };
+}
+
+// Porcelain output describes each commit in full only the first time it appears
+function parseBlamePorcelain (output: string): GitBlameLine[] {
+  const commits = new Map<string, Omit<GitBlameLine, 'line' | 'commit' | 'uncommitted'>>();
+  const lines: GitBlameLine[] = [];
+  let current: { commit: string, line: number } | null = null;
+
+  for (const row of output.split('\n')) {
+    if (row.startsWith('\t')) {
+      if (current) {
+        const info = commits.get(current.commit) ?? { author: '', email: '', timestamp: 0, summary: '' };
+        lines.push({ line: current.line, commit: current.commit, ...info, uncommitted: current.commit === UNCOMMITTED_HASH });
+      }
+      current = null;
+      continue;
+    }
+
+    const header = /^([0-9a-f]{40}) \d+ (\d+)/.exec(row);
+    if (header) {
+      current = { commit: header[1], line: Number(header[2]) };
+      if (!commits.has(header[1])) {
+        commits.set(header[1], { author: '', email: '', timestamp: 0, summary: '' });
+      }
+      continue;
+    }
+
+    const info = current ? commits.get(current.commit) : undefined;
+    if (!info) continue;
+    const space = row.indexOf(' ');
+    const key = space === -1 ? row : row.slice(0, space);
+    const value = space === -1 ? '' : row.slice(space + 1);
+    if (key === 'author') info.author = value;
+    if (key === 'author-mail') info.email = value.replace(/^<|>$/g, '');
+    if (key === 'author-time') info.timestamp = Number(value) * 1000;
+    if (key === 'summary') info.summary = value;
+  }
+
+  return lines;
+}
@@ -9,17 +9,53 @@ import type {
   HostResponseMessage,
   ForwardableEvents,
   WebSocketResponseEvent,
+  WebSocketErrorResponseEvent,
   WebSocketInboundRequest,
   EventPayloadMap,
   RequestParamMap
 } from './websocket.service';
 import { FileSystemApiService } from './file-system-api.service';
 import { TerminalManagerService } from './terminal-manager.service';
+import { GitService } from './git.service';
+
+type HostForwardHandlers = {
+  [K in ForwardableEvents]: (params: RequestParamMap[K], api: FileSystemApiService, terminal: TerminalManagerService, git: GitService) => EventPayloadMap[K] | Promise<EventPayloadMap[K]>
+};
 
 const hostForwardHandlers = {
   get_git_status: (_: RequestParamMap['get_git_status'], api: FileSystemApiService, _terminal: TerminalManagerService): EventPayloadMap['get_git_status'] => {
     return api.gitStatus();
   },
+  git_diff: (params: RequestParamMap['git_diff'], _api: FileSystemApiService, _terminal: TerminalManagerService, git: GitService): EventPayloadMap['git_diff'] => {
+    return git.diff(params.filePath, params.staged, params.contextLines);
+  },
+  git_stage: (params: RequestParamMap['git_stage'], _api: FileSystemApiService, _terminal: TerminalManagerService, git: GitService): EventPayloadMap['git_stage'] => {
+    return git.stage(params.paths);
+  },
+  git_unstage: (params: RequestParamMap['git_unstage'], _api: FileSystemApiService, _terminal: TerminalManagerService, git: GitService): EventPayloadMap['git_unstage'] => {
+    return git.unstage(params.paths);
+  },
+  git_discard: (params: RequestParamMap['git_discard'], _api: FileSystemApiService, _terminal: TerminalManagerService, git: GitService): EventPayloadMap['git_discard'] => {
+    return git.discard(params.paths);
+  },
+  git_commit: (params: RequestParamMap['git_commit'], _api: FileSystemApiService, _terminal: TerminalManagerService, git: GitService): EventPayloadMap['git_commit'] => {
+    return git.commit(params.message, params.amend);
+  },
+  git_show_file: (params: RequestParamMap['git_show_file'], _api: FileSystemApiService, _terminal: TerminalManagerService, git: GitService): EventPayloadMap['git_show_file'] => {
+    return git.showFile(params.filePath, params.ref, params.encoding);
+  },
+  git_log_file: (params: RequestParamMap['git_log_file'], _api: FileSystemApiService, _terminal: TerminalManagerService, git: GitService): EventPayloadMap['git_log_file'] => {
+    return git.logFile(params.filePath, params.limit);
+  },
+  git_blame: (params: RequestParamMap['git_blame'], _api: FileSystemApiService, _terminal: TerminalManagerService, git: GitService): EventPayloadMap['git_blame'] => {
+    return git.blame(params.filePath, params.startLine, params.endLine);
+  },
+  get_conflicts: (params: RequestParamMap['get_conflicts'], _api: FileSystemApiService, _terminal: TerminalManagerService, git: GitService): EventPayloadMap['get_conflicts'] => {
+    return git.getConflicts(params.filePath);
+  },
+  resolve_conflict: (params: RequestParamMap['resolve_conflict'], _api: FileSystemApiService, _terminal: TerminalManagerService, git: GitService): EventPayloadMap['resolve_conflict'] => {
+    return git.resolveConflict(params.filePath, params.regionIndex, params.choice ?? { text: params.customText ?? '' });
+  },
   copy_to_clipboard: (params: RequestParamMap['copy_to_clipboard'], api: FileSystemApiService, _terminal: TerminalManagerService): EventPayloadMap['copy_to_clipboard'] => {
     return api.copyToClipboard(params.paths);
   },
@@ -59,9 +95,7 @@ const hostForwardHandlers = {
     const output = await terminal.runOneOffCommand(params.command);
     return { output };
   }
-} satisfies {
-  [K in ForwardableEvents]: (params: RequestParamMap[K], api: FileSystemApiService, terminal: TerminalManagerService) => EventPayloadMap[K] | Promise<EventPayloadMap[K]>
-};
+} satisfies HostForwardHandlers;
 
 interface HostInitMessage {
   event_name: 'host_init'
@@ -74,6 +108,9 @@ interface HostInitMessage {
 export class HostClientService {
   private ws?: WebSocket;
   private reconnectTimer?: NodeJS.Timeout;
+  private heartbeatTimer?: NodeJS.Timeout;
+  private lastPingAt: number | null = null;
+  private lastPongAt: number | null = null;
   private readonly reconnectDelay = 5000;
   private isShuttingDown = false;
 
@@ -82,7 +119,8 @@ export class HostClientService {
     @inject(LocalKeyService) private readonly localKeyService: LocalKeyService,
     @inject(ConfigService) private readonly config: ConfigService,
     @inject(FileSystemApiService) private readonly fileSystemApi: FileSystemApiService,
-    @inject(TerminalManagerService) private readonly terminalManager: TerminalManagerService
+    @inject(TerminalManagerService) private readonly terminalManager: TerminalManagerService,
+    @inject(GitService) private readonly git: GitService
   ) { }
 
   async start (): Promise<void> {
@@ -109,6 +147,11 @@ export class HostClientService {
       this.ws.on('open', () => {
         this.logger.success('Host client connected');
         this.sendHostInit();
+        this.startHeartbeat();
+      });
+
+      this.ws.on('pong', () => {
+        this.lastPongAt = Date.now();
       });
 
       this.ws.on('message', (data: Buffer) => {
@@ -117,12 +160,14 @@ export class HostClientService {
 
       this.ws.on('close', () => {
         this.logger.warn('Host client disconnected');
+        this.stopHeartbeat();
         this.ws = undefined;
         this.scheduleReconnect();
       });
 
       this.ws.on('error', (error: Error) => {
         this.logger.error(`Host client error: ${error.message}`);
+        this.stopHeartbeat();
         this.ws = undefined;
         this.scheduleReconnect();
       });
@@ -206,9 +251,14 @@ export class HostClientService {
           this.logger.error(`Host client authentication rejected: ${message.reason || 'unknown reason'}`);
           this.ws?.close();
           break;
-        case 'host_forward':
-          this.handleHostForward(message as HostForwardRequest<ForwardableEvents>);
+        case 'host_forward': {
+          const forward = message as HostForwardRequest<ForwardableEvents>;
+          this.handleHostForward(forward).catch((error: Error) => {
+            this.logger.error(`Failed to handle forwarded ${forward.wrapped_request.event_name}: ${error.message}`);
+            this.sendHostErrorResponse(forward.request_uuid, forward.wrapped_request, error.message);
+          });
           break;
+        }
         default:
           break;
       }
@@ -333,6 +383,44 @@ export class HostClientService {
       return params;
     }
 
+    if (eventName === 'git_diff' ||
+      eventName === 'git_show_file' ||
+      eventName === 'git_log_file' ||
+      eventName === 'git_blame' ||
+      eventName === 'resolve_conflict') {
+      const fileParams = params as RequestParamMap['git_diff' | 'git_show_file' | 'git_log_file' | 'git_blame' | 'resolve_conflict'];
+      // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+      return {
+        ...fileParams,
+        filePath: this.translatePathToHost(fileParams.filePath, devServerWorkingDir, hostWorkingDir)
+      } as RequestParamMap[K];
+    }
+
+    if (eventName === 'git_stage' || eventName === 'git_unstage' || eventName === 'git_discard') {
+      const pathParams = params as RequestParamMap['git_stage'];
+      // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+      return {
+        paths: pathParams.paths.map(path =>
+          this.translatePathToHost(path, devServerWorkingDir, hostWorkingDir)
+        )
+      } as RequestParamMap[K];
+    }
+
+    if (eventName === 'get_conflicts') {
+      const conflictParams = params as RequestParamMap['get_conflicts'];
+      if (conflictParams.filePath === undefined) {
+        return params;
+      }
+      // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+      return {
+        filePath: this.translatePathToHost(conflictParams.filePath, devServerWorkingDir, hostWorkingDir)
+      } as RequestParamMap[K];
+    }
+
+    if (eventName === 'git_commit') {
+      return params;
+    }
+
     if (eventName === 'copy_to_clipboard') {
       const clipboardParams = params as RequestParamMap['copy_to_clipboard'];
       // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
@@ -406,6 +494,61 @@ export class HostClientService {
       } as EventPayloadMap[K];
     }
 
+    if (eventName === 'git_diff' ||
+      eventName === 'git_show_file' ||
+      eventName === 'git_log_file' ||
+      eventName === 'git_blame' ||
+      eventName === 'resolve_conflict') {
+      const filePayload = payload as EventPayloadMap['git_diff' | 'git_show_file' | 'git_log_file' | 'git_blame' | 'resolve_conflict'];
+
+      if (!filePayload.absolutePath) {
+        return payload;
+      }
+
+      // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+      return {
+        ...filePayload,
+        absolutePath: this.translatePathToDevServer(filePayload.absolutePath, devServerWorkingDir, hostWorkingDir)
+      } as EventPayloadMap[K];
+    }
+
+    if (eventName === 'git_stage' || eventName === 'git_unstage' || eventName === 'git_discard') {
+      const pathsPayload = payload as EventPayloadMap['git_stage'];
+
+      if (!pathsPayload.paths) {
+        return payload;
+      }
+
+      // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+      return {
+        ...pathsPayload,
+        paths: pathsPayload.paths.map(path =>
+          this.translatePathToDevServer(path, devServerWorkingDir, hostWorkingDir)
+        )
+      } as EventPayloadMap[K];
+    }
+
+    if (eventName === 'get_conflicts') {
+      const conflictsPayload = payload as EventPayloadMap['get_conflicts'];
+
+      if (!conflictsPayload.files) {
+        return payload;
+      }
+
+      // eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+      return {
+        ...conflictsPayload,
+        files: conflictsPayload.files.map(file => ({
+          ...file,
+          absolutePath: this.translatePathToDevServer(file.absolutePath, devServerWorkingDir, hostWorkingDir)
+        }))
+      } as EventPayloadMap[K];
+    }
+
+    if (eventName === 'git_commit') {
+      return payload;
+    }
+
     if (eventName === 'copy_to_clipboard') {
       return payload;
     }
@@ -470,7 +613,17 @@ export class HostClientService {
       return;
     }
 
-    if (eventName === 'set_terminal_secret' ||
+    if (eventName === 'git_diff' ||
+      eventName === 'git_stage' ||
+      eventName === 'git_unstage' ||
+      eventName === 'git_discard' ||
+      eventName === 'git_commit' ||
+      eventName === 'git_show_file' ||
+      eventName === 'git_log_file' ||
+      eventName === 'git_blame' ||
+      eventName === 'get_conflicts' ||
+      eventName === 'resolve_conflict' ||
+      eventName === 'set_terminal_secret' ||
       eventName === 'has_terminal_secret' ||
       eventName === 'check_terminal_secret' ||
       eventName === 'fetch_terminal_sessions' ||
@@ -479,7 +632,7 @@ export class HostClientService {
       eventName === 'pull_terminal_changes' ||
       eventName === 'kill_terminal_session' ||
       eventName === 'run_single_terminal_command') {
-      await this.handleTerminalCommand(message, devServerWorkingDir, hostWorkingDir);
+      await this.handleForwardedRequest(message, devServerWorkingDir, hostWorkingDir);
       return;
     }
 
@@ -559,7 +712,7 @@ export class HostClientService {
     this.sendHostResponse(message.request_uuid, message.wrapped_request, translatedPayload);
   }
 
-  private async handleTerminalCommand<K extends ForwardableEvents>(
+  private async handleForwardedRequest<K extends ForwardableEvents>(
     message: HostForwardRequest<K>,
     devServerWorkingDir: string,
     hostWorkingDir: string
@@ -571,13 +724,10 @@ export class HostClientService {
       message.wrapped_request.event_name
     );
 
-    const handler = hostForwardHandlers[message.wrapped_request.event_name] as (
-      params: RequestParamMap[K],
-      api: FileSystemApiService,
-      terminal: TerminalManagerService
-    ) => EventPayloadMap[K] | Promise<EventPayloadMap[K]>;
+    const handlers: HostForwardHandlers = hostForwardHandlers;
+    const handler = handlers[message.wrapped_request.event_name];
 
-    const result = await handler(translatedParams, this.fileSystemApi, this.terminalManager);
+    const result = await handler(translatedParams, this.fileSystemApi, this.terminalManager, this.git);
 
     const translatedPayload = this.translateResponsePayload(
       result,
@@ -611,6 +761,34 @@ export class HostClientService {
     this.logger.debug(`Sent host response for ${originalRequest.event_name} (uuid: ${requestUuid})`);
   }
 
+  private sendHostErrorResponse<K extends ForwardableEvents>(
+    requestUuid: string,
+    originalRequest: WebSocketInboundRequest<K>,
+    errorMessage: string
+  ): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      this.logger.error('Cannot send host response: WebSocket not open');
+      return;
+    }
+
+    const wrappedResponse: WebSocketErrorResponseEvent<K> = {
+      message_id: originalRequest.message_id,
+      event_response: originalRequest.event_name,
+      error: {
+        code: 'HANDLER_FAILED',
+        message: errorMessage
+      }
+    };
+
+    const response: HostResponseMessage<K> = {
+      event_name: 'host_response',
+      request_uuid: requestUuid,
+      wrapped_response: wrappedResponse
+    };
+
+    this.ws.send(JSON.stringify(response));
+  }
+
   private serializeResponseMessage<K extends keyof EventPayloadMap>(
     req: WebSocketInboundRequest<K>,
     payload: EventPayloadMap[K]
@@ -623,6 +801,42 @@ export class HostClientService {
     return JSON.stringify(msg);
   }
 
+  // Pings the dev server and drops the connection (triggering a reconnect) when a ping
+  // goes unanswered for longer than the heartbeat timeout
+  private startHeartbeat (): void {
+    const { heartbeatIntervalMs, heartbeatTimeoutMs } = this.config.getConfig();
+    this.stopHeartbeat();
+    if (!heartbeatIntervalMs) return;
+
+    this.heartbeatTimer = setInterval(() => {
+      const ws = this.ws;
+      if (!ws || ws.readyState !== WebSocket.OPEN) return;
+
+      const now = Date.now();
+      const awaitingPong = this.lastPingAt !== null && (this.lastPongAt === null || this.lastPongAt < this.lastPingAt);
+
+      if (awaitingPong) {
+        if (now - this.lastPingAt! >= heartbeatTimeoutMs) {
+          this.logger.warn('Dev server stopped responding to heartbeats, reconnecting');
+          ws.terminate();
+        }
+        return;
+      }
+
+      this.lastPingAt = now;
+      ws.ping();
+    }, heartbeatIntervalMs);
+  }
+
+  private stopHeartbeat (): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = undefined;
+    }
+    this.lastPingAt = null;
+    this.lastPongAt = null;
+  }
+
   private scheduleReconnect (): void {
     if (this.isShuttingDown) return;
     if (this.reconnectTimer) return;
@@ -636,6 +850,7 @@ export class HostClientService {
 
   async stop (): Promise<void> {
     this.isShuttingDown = true;
+    this.stopHeartbeat();
 
     if (this.reconnectTimer) {
       clearTimeout(this.reconnectTimer);
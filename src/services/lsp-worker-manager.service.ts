@@ -4,9 +4,11 @@ import { fork } from 'child_process';
 import { join } from 'path';
 import { Logger } from './logger.service';
 import { ConfigService } from './config.service';
-import type { LspJsonRpcRequest, LspJsonRpcResponse } from './lsp.service';
+import type { LspCapabilities, LspJsonRpcRequest, LspJsonRpcResponse } from './lsp.service';
 import type { OpenFileInfo, DiagnosticCheckResult } from './diagnostic-checker.service';
 
+export const LSP_REQUEST_TIMEOUT_MS = 30000;
+
 interface PendingRequest {
   resolve: (value: any) => void
   reject: (error: Error) => void
@@ -23,6 +25,7 @@ export class LspWorkerManagerService {
   private isReady = false;
   private readyPromise: Promise<void>;
   private readyResolve?: () => void;
+  private capabilities: LspCapabilities = { eslint: false, prettier: false, tailwind: false };
 
   constructor (
     @inject(Logger) private readonly logger: Logger,
@@ -91,6 +94,9 @@ export class LspWorkerManagerService {
         break;
 
       case 'initialized':
+        if (message.capabilities) {
+          this.capabilities = message.capabilities;
+        }
         this.logger.info('LSP worker initialized');
         break;
 
@@ -146,16 +152,17 @@ export class LspWorkerManagerService {
     }
   }
 
-  async handleJsonRpc (request: LspJsonRpcRequest): Promise<LspJsonRpcResponse | null> {
+  async handleJsonRpc (request: LspJsonRpcRequest, signal?: AbortSignal): Promise<LspJsonRpcResponse | null> {
     const requestId = `req_${this.requestIdCounter++}`;
 
     return await new Promise((resolve, reject) => {
       const timeout = setTimeout(() => {
         this.pendingRequests.delete(requestId);
         reject(new Error('LSP request timeout'));
-      }, 30000);
+      }, LSP_REQUEST_TIMEOUT_MS);
 
       this.pendingRequests.set(requestId, { resolve, reject, timeout });
+      this.cancelOnAbort(requestId, signal);
 
       this.sendMessage({
         type: 'jsonrpc',
@@ -186,7 +193,7 @@ export class LspWorkerManagerService {
       const timeout = setTimeout(() => {
         this.pendingRequests.delete(requestId);
         reject(new Error('Initialize open files timeout'));
-      }, 30000);
+      }, LSP_REQUEST_TIMEOUT_MS);
 
       this.pendingRequests.set(requestId, { resolve, reject, timeout });
 
@@ -199,7 +206,8 @@ export class LspWorkerManagerService {
   }
 
   async checkDiagnostics (
-    files: Array<string | { filePath: string, buffer?: string }>
+    files: Array<string | { filePath: string, buffer?: string }>,
+    signal?: AbortSignal
   ): Promise<DiagnosticCheckResult> {
     const requestId = `req_${this.requestIdCounter++}`;
 
@@ -207,9 +215,10 @@ export class LspWorkerManagerService {
       const timeout = setTimeout(() => {
         this.pendingRequests.delete(requestId);
         reject(new Error('Check diagnostics timeout'));
-      }, 30000);
+      }, LSP_REQUEST_TIMEOUT_MS);
 
       this.pendingRequests.set(requestId, { resolve, reject, timeout });
+      this.cancelOnAbort(requestId, signal);
 
       this.sendMessage({
         type: 'check_diagnostics',
@@ -219,6 +228,34 @@ export class LspWorkerManagerService {
     });
   }
 
+  cancelRequest (requestId: string): boolean {
+    const pending = this.pendingRequests.get(requestId);
+    if (!pending) return false;
+
+    clearTimeout(pending.timeout);
+    this.pendingRequests.delete(requestId);
+    this.sendMessage({ type: 'cancel', requestId });
+    pending.reject(new Error('LSP request cancelled'));
+    return true;
+  }
+
+  private cancelOnAbort (requestId: string, signal?: AbortSignal): void {
+    if (!signal) return;
+
+    if (signal.aborted) {
+      this.cancelRequest(requestId);
+      return;
+    }
+
+    signal.addEventListener('abort', () => {
+      this.cancelRequest(requestId);
+    }, { once: true });
+  }
+
+  getCapabilities (): LspCapabilities {
+    return { ...this.capabilities };
+  }
+
   listen (listener: (response: LspJsonRpcResponse) => void): () => void {
     this.listeners.push(listener);
     return () => {
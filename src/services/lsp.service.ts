@@ -5,6 +5,7 @@ import * as path from 'path';
 import { ConfigService } from './config.service';
 import { Logger } from './logger.service';
 import { FileSystemApiService } from './file-system-api.service';
+import { PathResolverService } from './path-resolver.service';
 import type {
   Position,
   CompletionItem,
@@ -24,6 +25,9 @@ import { TextDocumentSyncKind } from 'vscode-languageserver';
 import type { ESLint } from 'eslint';
 import type * as Prettier from 'prettier';
 
+// the LSP error code for a request the client cancelled
+const LSP_REQUEST_CANCELLED = -32800;
+
 export interface InitializeParams {
   rootUri?: string
   rootPath?: string
@@ -288,6 +292,12 @@ export type DiagnosticResponse =
 
 type LspResponse = CompletionResponse | HoverResponse | LocationResponse | DiagnosticResponse;
 
+export interface LspCapabilities {
+  eslint: boolean
+  prettier: boolean
+  tailwind: boolean
+}
+
 @singleton()
 @injectable()
 export class LspService {
@@ -314,7 +324,8 @@ export class LspService {
   constructor (
     @inject(ConfigService) private readonly config: ConfigService,
     @inject(Logger) private readonly logger: Logger,
-    @inject(FileSystemApiService) private readonly fileSystemApi: FileSystemApiService
+    @inject(FileSystemApiService) private readonly fileSystemApi: FileSystemApiService,
+    @inject(PathResolverService) private readonly paths: PathResolverService
   ) {
     this.workspaceRoot = this.config.getConfig().workingDirectory;
   }
@@ -413,11 +424,40 @@ export class LspService {
     return result;
   }
 
-  async handleJsonRpc (message: LspJsonRpcRequest): Promise<LspJsonRpcResponse | null> {
+  async handleJsonRpc (message: LspJsonRpcRequest, signal?: AbortSignal): Promise<LspJsonRpcResponse | null> {
     const { method, params } = message;
 
+    // the language service runs synchronously, so a request can only be dropped before it starts
+    if (signal?.aborted) {
+      this.logger.debug(`LSP: Skipping cancelled ${method}`);
+      if (!('id' in message)) return null;
+      const cancelledResponse: LspErrorResponse = {
+        jsonrpc: '2.0',
+        id: message.id,
+        error: {
+          code: LSP_REQUEST_CANCELLED,
+          message: 'Request cancelled'
+        }
+      };
+      return cancelledResponse;
+    }
+
     this.logger.debug(`LSP: Handling ${method}`);
 
+    const uri = (params as { textDocument?: { uri?: string } } | undefined)?.textDocument?.uri;
+    if (uri !== undefined && !this.isDocumentAllowed(uri)) {
+      if (!('id' in message)) return null;
+      const errorResponse: LspErrorResponse = {
+        jsonrpc: '2.0',
+        id: message.id,
+        error: {
+          code: -32602,
+          message: `Document is outside the workspace: ${uri}`
+        }
+      };
+      return errorResponse;
+    }
+
     switch (method) {
       case 'initialize':
         return await this.handleInitialize(message.id, params);
@@ -1216,6 +1256,14 @@ export class LspService {
     }
   }
 
+  getCapabilities (): LspCapabilities {
+    return {
+      eslint: this.hasEslint,
+      prettier: this.hasPrettier,
+      tailwind: this.hasTailwind
+    };
+  }
+
   async initialize () {
     if (this.languageService) return;
     this.initializeTypescript();
@@ -1514,6 +1562,10 @@ export class LspService {
       };
     }
 
+    if (!this.isDocumentAllowed(params.uri)) {
+      return { success: false, error: `Document is outside the workspace: ${params.uri}` };
+    }
+
     try {
       if (params.content !== undefined) {
         this.updateFile(params.uri, params.content);
@@ -2727,6 +2779,11 @@ export class LspService {
     return undefined;
   }
 
+  // Files that are not open are read from disk, so documents must resolve inside a project root
+  private isDocumentAllowed (uri: string): boolean {
+    return this.paths.locate(this.uriToFileName(uri), true).root !== null;
+  }
+
   uriToFileName (uri: string): string {
     let filePath = decodeURIComponent(uri.replace('file://', ''));
 
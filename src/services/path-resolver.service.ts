@@ -0,0 +1,70 @@
+import { injectable, inject, singleton } from 'tsyringe';
+import { relative, resolve } from 'path';
+import { ConfigService } from './config.service';
+import { isCaseInsensitiveFs, isWithin, realpathDeep } from '../utils/path-containment';
+
+export interface ResolvedPath {
+  // as the caller named it, made absolute against the working directory
+  absolutePath: string
+  // with every symlink followed
+  realPath: string
+  // the working, additional or node_modules directory that contains realPath
+  root: string | null
+  // realPath relative to the real path of root
+  relativePath: string | null
+}
+
+// The single place client-supplied paths are turned into absolute paths and checked for containment.
+// Containment is decided on real paths, so a symlink inside the project cannot reach outside it.
+@singleton()
+@injectable()
+export class PathResolverService {
+  private readonly caseInsensitiveRoots = new Map<string, boolean>();
+
+  constructor (
+    @inject(ConfigService) private readonly configService: ConfigService
+  ) {}
+
+  // Relative paths are taken from the working directory, never the process cwd
+  resolve (filePath: string): string {
+    return resolve(this.configService.getConfig().workingDirectory, filePath);
+  }
+
+  getRoots (includeNodeModules: boolean = false): string[] {
+    const config = this.configService.getConfig();
+    return [
+      config.workingDirectory,
+      ...(config.additionalDirectories ?? []).map(dir => this.resolve(dir)),
+      ...(includeNodeModules && config.nodeModulesDir ? [this.resolve(config.nodeModulesDir)] : [])
+    ];
+  }
+
+  locate (filePath: string, includeNodeModules: boolean = false): ResolvedPath {
+    const absolutePath = this.resolve(filePath);
+    const realPath = realpathDeep(absolutePath);
+
+    for (const root of this.getRoots(includeNodeModules)) {
+      const realRoot = realpathDeep(root);
+      if (isWithin(realRoot, realPath, this.isCaseInsensitive(realRoot))) {
+        return { absolutePath, realPath, root, relativePath: relative(realRoot, realPath) };
+      }
+    }
+
+    return { absolutePath, realPath, root: null, relativePath: null };
+  }
+
+  // The root that contains the path as written, without touching the filesystem. Only for paths
+  // reached by walking down from a directory that locate() already accepted.
+  findRoot (absolutePath: string, includeNodeModules: boolean = false): string | null {
+    return this.getRoots(includeNodeModules).find(root => isWithin(root, absolutePath, this.isCaseInsensitive(root))) ?? null;
+  }
+
+  private isCaseInsensitive (root: string): boolean {
+    let caseInsensitive = this.caseInsensitiveRoots.get(root);
+    if (caseInsensitive === undefined) {
+      caseInsensitive = isCaseInsensitiveFs(root);
+      this.caseInsensitiveRoots.set(root, caseInsensitive);
+    }
+    return caseInsensitive;
+  }
+}
@@ -0,0 +1,88 @@
+import { injectable, inject, singleton } from 'tsyringe';
+import { KeyManager } from './key-manager.service';
+
+export const REPLAY_WINDOW_MS = 60 * 1000;
+const MAX_SEEN_MESSAGES_PER_KEY = 5000;
+const MAX_TRACKED_KEYS = 8;
+
+export type ReplayCheckResult =
+  | { accepted: true }
+  | { accepted: false, code: 'REPLAYED_MESSAGE' | 'STALE_MESSAGE' | 'RATE_LIMITED', reason: string };
+
+@singleton()
+@injectable()
+export class ReplayGuardService {
+  // key uuid -> "id:<message_id>" or "nonce:<nonce>" -> time after which a replay would be stale anyway
+  private readonly seenMessages = new Map<string, Map<string, number>>();
+
+  constructor (
+    @inject(KeyManager) private readonly keyManager: KeyManager
+  ) {}
+
+  // Legacy messages carry no timestamp, so nothing makes a replay of them stale: their ids are
+  // remembered for as long as the key is in use.
+  check (messageId: string, timestamp?: number, nonce?: string, now: number = Date.now()): ReplayCheckResult {
+    if (timestamp !== undefined && Math.abs(now - timestamp) > REPLAY_WINDOW_MS) {
+      return {
+        accepted: false,
+        code: 'STALE_MESSAGE',
+        reason: `Message timestamp is outside the accepted window of ${REPLAY_WINDOW_MS / 1000}s`
+      };
+    }
+
+    const seen = this.getSeenMessages();
+    const keys = [`id:${messageId}`, ...(nonce !== undefined ? [`nonce:${nonce}`] : [])];
+    if (keys.some(key => seen.has(key))) {
+      return {
+        accepted: false,
+        code: 'REPLAYED_MESSAGE',
+        reason: `Message ${messageId} has already been processed`
+      };
+    }
+
+    if (seen.size + keys.length > MAX_SEEN_MESSAGES_PER_KEY) {
+      this.prune(seen, now);
+    }
+    // every remembered message could still be replayed, so forgetting one is not an option
+    if (seen.size + keys.length > MAX_SEEN_MESSAGES_PER_KEY) {
+      return {
+        accepted: false,
+        code: 'RATE_LIMITED',
+        reason: `Too many messages within ${REPLAY_WINDOW_MS / 1000}s`
+      };
+    }
+
+    const expiresAt = timestamp !== undefined ? timestamp + REPLAY_WINDOW_MS : Infinity;
+    keys.forEach(key => seen.set(key, expiresAt));
+
+    return { accepted: true };
+  }
+
+  clear (): void {
+    this.seenMessages.clear();
+  }
+
+  private prune (seen: Map<string, number>, now: number): void {
+    seen.forEach((expiresAt, key) => {
+      if (expiresAt < now) {
+        seen.delete(key);
+      }
+    });
+  }
+
+  private getSeenMessages (): Map<string, number> {
+    const keyId = this.keyManager.getCurrentKey()?.uuid ?? 'no-key';
+    let seen = this.seenMessages.get(keyId);
+
+    if (!seen) {
+      seen = new Map();
+      this.seenMessages.set(keyId, seen);
+      if (this.seenMessages.size > MAX_TRACKED_KEYS) {
+        const oldestKey = this.seenMessages.keys().next().value as string;
+        this.seenMessages.delete(oldestKey);
+      }
+    }
+
+    return seen;
+  }
+}
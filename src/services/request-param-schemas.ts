@@ -0,0 +1,236 @@
+import type { JsonSchema } from '../utils/json-schema';
+import type { RequestParamMap } from './websocket.service';
+import { SUBSCRIPTION_TOPICS } from './subscription.service';
+
+export const MAX_BATCH_SIZE = 100;
+
+const string: JsonSchema = { type: 'string' };
+const nonEmptyString: JsonSchema = { type: 'string', minLength: 1 };
+const boolean: JsonSchema = { type: 'boolean' };
+const nonNegativeInteger: JsonSchema = { type: 'integer', minimum: 0 };
+const positiveInteger: JsonSchema = { type: 'integer', minimum: 1 };
+const stringArray: JsonSchema = { type: 'array', items: string };
+const nonNegativeNumber: JsonSchema = { type: 'number', minimum: 0 };
+
+// Requests that take no params accept anything, including a missing params field
+const anyParams: JsonSchema = {};
+
+function object (properties: Record<string, JsonSchema>, required: string[] = Object.keys(properties)): JsonSchema {
+  return { type: 'object', properties, required };
+}
+
+const encoding: JsonSchema = {
+  type: 'string',
+  enum: ['ascii', 'utf8', 'utf-8', 'utf16le', 'utf-16le', 'ucs2', 'ucs-2', 'base64', 'base64url', 'latin1', 'binary', 'hex']
+};
+
+const readFileArgs = object({ filePath: nonEmptyString, encoding }, ['filePath']);
+const writeFileArgs = object({
+  filePath: nonEmptyString,
+  content: string,
+  encoding,
+  expectedHash: string,
+  expectedMtime: nonNegativeNumber
+}, ['filePath', 'content']);
+const position = object({ line: nonNegativeInteger, character: nonNegativeInteger });
+const textEdit = object({ range: object({ start: position, end: position }), newText: string });
+
+const lsArgs = object({
+  dirPath: string,
+  options: object({ recursive: boolean, filesOnly: boolean, directoriesOnly: boolean, respectIgnore: boolean }, [])
+}, ['dirPath']);
+
+const searchOptions = object({
+  caseInsensitive: boolean,
+  hidden: boolean,
+  followSymlinks: boolean,
+  fileTypes: stringArray,
+  includeGlobs: stringArray,
+  excludeGlobs: stringArray,
+  maxResults: positiveInteger,
+  contextBefore: nonNegativeInteger,
+  contextAfter: nonNegativeInteger,
+  regex: boolean,
+  wordBoundary: boolean,
+  fixedStrings: boolean,
+  maxDepth: nonNegativeInteger
+}, []);
+
+const terminalSession = object({ secret: string, session_id: nonEmptyString });
+// an empty path would resolve to the whole working directory
+const gitPaths = object({ paths: { type: 'array', items: nonEmptyString } });
+
+export const requestParamSchemas: { [K in keyof RequestParamMap]: JsonSchema } = {
+  read_file: readFileArgs,
+  write_file: writeFileArgs,
+  exists: object({ filePath: string }),
+  ls: lsArgs,
+  rm: object({ path: nonEmptyString }),
+  tree: object({ filePath: string, respectIgnore: boolean }, ['filePath']),
+  read_file_many: object({ files: { type: 'array', items: readFileArgs } }),
+  write_file_many: object({ files: { type: 'array', items: writeFileArgs } }),
+  exists_many: object({ paths: stringArray }),
+  ls_many: object({ dirs: { type: 'array', items: lsArgs } }),
+  rm_many: object({ paths: { type: 'array', items: object({ path: nonEmptyString }) } }),
+  tree_many: object({ dirPaths: stringArray, respectIgnore: boolean }, ['dirPaths']),
+  move_items: object({ sourcePaths: stringArray, targetDirectory: string }),
+  mkdir: object({ path: nonEmptyString }),
+  rm_dir: object({ path: nonEmptyString, recursive: boolean, confirm: boolean }, ['path']),
+  rename_item: object({ sourcePath: nonEmptyString, newPath: nonEmptyString }),
+  copy_items: object({ sourcePaths: stringArray, targetDirectory: string }),
+  apply_text_edits: object({
+    filePath: nonEmptyString,
+    edits: { type: 'array', items: textEdit },
+    expectedHash: string,
+    expectedMtime: nonNegativeNumber
+  }, ['filePath', 'edits']),
+  apply_patch: object({ patch: nonEmptyString, fuzz: nonNegativeInteger }, ['patch']),
+  read_file_chunk: object({ filePath: nonEmptyString, offset: nonNegativeInteger, length: positiveInteger }, ['filePath', 'offset']),
+  write_file_chunk: object({
+    filePath: nonEmptyString,
+    uploadId: nonEmptyString,
+    offset: nonNegativeInteger,
+    data: string,
+    done: boolean,
+    expectedHash: string,
+    expectedMtime: nonNegativeNumber
+  }, ['filePath', 'uploadId', 'offset', 'data']),
+  abort_upload: object({ uploadId: nonEmptyString }),
+  read_file_range: object({
+    filePath: nonEmptyString,
+    encoding,
+    byteOffset: nonNegativeInteger,
+    byteLength: positiveInteger,
+    startLine: positiveInteger,
+    endLine: positiveInteger
+  }, ['filePath']),
+  stat: object({ path: nonEmptyString }),
+  stat_many: object({ paths: stringArray }),
+  write_transaction: object({
+    operations: {
+      type: 'array',
+      items: {
+        anyOf: [
+          object({
+            type: { const: 'write' },
+            filePath: nonEmptyString,
+            content: string,
+            encoding,
+            expectedHash: string,
+            expectedMtime: nonNegativeNumber
+          }, ['type', 'filePath', 'content']),
+          object({ type: { const: 'delete' }, filePath: nonEmptyString }),
+          object({ type: { const: 'rename' }, fromPath: nonEmptyString, toPath: nonEmptyString })
+        ]
+      }
+    }
+  }),
+  list_file_history: object({ filePath: string, limit: positiveInteger }, []),
+  read_file_history_entry: object({ id: nonEmptyString, encoding }, ['id']),
+  restore_file_history_entry: object({ id: nonEmptyString }),
+  undo_last_change: anyParams,
+  copy_to_clipboard: object({ paths: stringArray }),
+  import_items: object({ sourcePaths: stringArray, targetDirectory: string }),
+  open_element: object({
+    file_path: nonEmptyString,
+    line_number: nonNegativeInteger,
+    column_number: nonNegativeInteger
+  }),
+  open_file: object({ file_path: nonEmptyString }),
+  get_project_info: anyParams,
+  get_unix_client_info: anyParams,
+  get_prompt_rules: anyParams,
+  get_version: anyParams,
+  get_capabilities: anyParams,
+  get_proxy_info: anyParams,
+  set_should_modify_next_object_counter: object({ shouldModifyNextObjectCounter: boolean }),
+  lsp_request: object({
+    jsonrpc: { const: '2.0' },
+    id: { type: ['string', 'integer'] },
+    method: nonEmptyString,
+    params: {}
+  }, ['jsonrpc', 'method']),
+  open_files: object({
+    files: {
+      type: 'array',
+      items: object({ filePath: nonEmptyString, content: string, languageId: string }, ['filePath', 'content'])
+    }
+  }),
+  check_diagnostics: object({
+    files: {
+      type: 'array',
+      items: {
+        anyOf: [
+          nonEmptyString,
+          object({ filePath: nonEmptyString, buffer: string }, ['filePath'])
+        ]
+      }
+    }
+  }),
+  get_git_status: anyParams,
+  git_diff: object({ filePath: nonEmptyString, staged: boolean, contextLines: nonNegativeInteger }, ['filePath']),
+  git_stage: gitPaths,
+  git_unstage: gitPaths,
+  git_discard: gitPaths,
+  git_commit: object({ message: string, amend: boolean }, []),
+  git_show_file: object({ filePath: nonEmptyString, ref: nonEmptyString, encoding }, ['filePath']),
+  git_log_file: object({ filePath: nonEmptyString, limit: positiveInteger }, ['filePath']),
+  git_blame: object({ filePath: nonEmptyString, startLine: positiveInteger, endLine: positiveInteger }, ['filePath']),
+  get_conflicts: object({ filePath: nonEmptyString }, []),
+  resolve_conflict: object({
+    filePath: nonEmptyString,
+    regionIndex: nonNegativeInteger,
+    choice: { type: 'string', enum: ['ours', 'theirs', 'both', 'base'] },
+    customText: string
+  }, ['filePath', 'regionIndex']),
+  search: object({ pattern: nonEmptyString, options: searchOptions }, ['pattern']),
+  search_stream: object({
+    pattern: nonEmptyString,
+    options: searchOptions,
+    batchSize: positiveInteger
+  }, ['pattern']),
+  cancel_request: object({ message_id: nonEmptyString }),
+  subscribe: object({
+    topic: { type: 'string', enum: [...SUBSCRIPTION_TOPICS] },
+    filter: object({ globs: stringArray, uris: stringArray, session_ids: stringArray }, [])
+  }, ['topic']),
+  unsubscribe: object({ subscription_id: nonEmptyString }),
+  get_connection_health: anyParams,
+  batch: object({
+    requests: {
+      type: 'array',
+      maxItems: MAX_BATCH_SIZE,
+      items: object({
+        event_name: nonEmptyString,
+        message_id: nonEmptyString,
+        signature: string,
+        params: {},
+        nonce: string,
+        timestamp: { type: 'integer' }
+      }, ['event_name', 'message_id', 'signature'])
+    },
+    mode: { type: 'string', enum: ['sequential', 'parallel'] },
+    stopOnError: boolean
+  }, ['requests']),
+  set_terminal_secret: object({ secret: nonEmptyString }),
+  has_terminal_secret: anyParams,
+  check_terminal_secret: object({ secret: string }),
+  create_terminal_session: object({
+    secret: string,
+    cols: positiveInteger,
+    rows: positiveInteger
+  }, ['secret']),
+  send_terminal_key_strokes: object({ secret: string, session_id: nonEmptyString, data: string }),
+  pull_terminal_changes: object({ secret: string, session_id: nonEmptyString, cursor: nonNegativeInteger }),
+  kill_terminal_session: terminalSession,
+  fetch_terminal_sessions: object({ secret: string }),
+  run_single_terminal_command: object({ secret: string, command: nonEmptyString })
+};
+
+export function buildRequestJsonSchema (): Record<string, unknown> {
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'jsx-tool WebSocket request params',
+    definitions: requestParamSchemas
+  };
+}
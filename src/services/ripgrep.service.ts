@@ -59,6 +59,25 @@ export interface RipGrepSearchResult {
   truncated?: boolean
 }
 
+export interface RipGrepRootSummary {
+  root: string
+  matchCount: number
+}
+
+export interface RipGrepStreamSummary {
+  success: boolean
+  totalMatches: number
+  truncated: boolean
+  roots: RipGrepRootSummary[]
+  durationMs: number
+  error?: string
+}
+
+export interface RipGrepStreamCallbacks {
+  onMatches: (root: string, matches: RipGrepMatch[]) => void
+  onRootComplete?: (root: string, rootIndex: number, rootCount: number, matchCount: number) => void
+}
+
 @singleton()
 @injectable()
 export class RipGrepService {
@@ -70,15 +89,55 @@ export class RipGrepService {
 
   async search (
     pattern: string,
-    options: RipGrepSearchOptions = {}
+    options: RipGrepSearchOptions = {},
+    signal?: AbortSignal
   ): Promise<RipGrepSearchResult> {
+    const matches: RipGrepMatch[] = [];
+
+    const summary = await this.searchStream(pattern, options, {
+      onMatches: (_root, batch) => {
+        matches.push(...batch);
+      }
+    }, signal);
+
+    if (!summary.success) {
+      return {
+        success: false,
+        matches: [],
+        error: summary.error
+      };
+    }
+
+    return {
+      success: true,
+      matches,
+      truncated: summary.truncated
+    };
+  }
+
+  async searchStream (
+    pattern: string,
+    options: RipGrepSearchOptions,
+    callbacks: RipGrepStreamCallbacks,
+    signal?: AbortSignal
+  ): Promise<RipGrepStreamSummary> {
+    const startedAt = Date.now();
+    const roots: RipGrepRootSummary[] = [];
+    let totalMatches = 0;
+    let truncated = false;
+
+    const fail = (error: string): RipGrepStreamSummary => ({
+      success: false,
+      totalMatches,
+      truncated,
+      roots,
+      durationMs: Date.now() - startedAt,
+      error
+    });
+
     try {
       if (pattern.includes('..') || path.isAbsolute(pattern)) {
-        return {
-          success: false,
-          matches: [],
-          error: 'Search pattern cannot contain path traversal (..) or absolute paths'
-        };
+        return fail('Search pattern cannot contain path traversal (..) or absolute paths');
       }
 
       const config = this.configService.getConfig();
@@ -91,51 +150,55 @@ export class RipGrepService {
       for (const root of searchRoots) {
         const safetyCheck = this.fileSystemApiService.isPathSafe(root);
         if (!safetyCheck.safe) {
-          return {
-            success: false,
-            matches: [],
-            error: safetyCheck.reason
-          };
+          return fail(safetyCheck.reason ?? 'Search root is not allowed');
         }
       }
 
-      const matches: RipGrepMatch[] = [];
-      let truncated = false;
+      for (const [rootIndex, root] of searchRoots.entries()) {
+        const limit = options.maxResults ? options.maxResults - totalMatches : undefined;
 
-      for (const root of searchRoots) {
-        const rootMatches = await this.searchInDirectory(root, pattern, options);
-        matches.push(...rootMatches);
+        const rootResult = await this.searchInDirectory(root, pattern, options, limit, (batch) => {
+          callbacks.onMatches(root, batch);
+        }, signal);
 
-        if (options.maxResults && matches.length >= options.maxResults) {
+        totalMatches += rootResult.matchCount;
+        roots.push({ root, matchCount: rootResult.matchCount });
+        callbacks.onRootComplete?.(root, rootIndex, searchRoots.length, rootResult.matchCount);
+
+        if (rootResult.truncated) {
           truncated = true;
-          matches.splice(options.maxResults);
           break;
         }
       }
 
       return {
         success: true,
-        matches,
-        truncated
+        totalMatches,
+        truncated,
+        roots,
+        durationMs: Date.now() - startedAt
       };
     } catch (error) {
       this.logger.error(`RipGrep search failed: ${(error as Error).message}`);
-      return {
-        success: false,
-        matches: [],
-        error: `Search failed: ${(error as Error).message}`
-      };
+      return fail(`Search failed: ${(error as Error).message}`);
     }
   }
 
   private async searchInDirectory (
     directory: string,
     pattern: string,
-    options: RipGrepSearchOptions
-  ): Promise<RipGrepMatch[]> {
-    return await new Promise<RipGrepMatch[]>((resolve, reject) => {
+    options: RipGrepSearchOptions,
+    limit: number | undefined,
+    onMatches: (matches: RipGrepMatch[]) => void,
+    signal?: AbortSignal
+  ): Promise<{ matchCount: number, truncated: boolean }> {
+    return await new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error('Search cancelled'));
+        return;
+      }
+
       const args = this.buildRipGrepArgs(pattern, options);
-      const matches: RipGrepMatch[] = [];
 
       this.logger.debug(`Running ripgrep in ${directory}: ${args.join(' ')}`);
 
@@ -144,11 +207,80 @@ export class RipGrepService {
         stdio: ['ignore', 'pipe', 'pipe']
       });
 
-      let stdout = '';
+      const onAbort = () => {
+        this.logger.debug(`Cancelling ripgrep in ${directory}`);
+        child.kill();
+        reject(new Error('Search cancelled'));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      let pendingLine = '';
       let stderr = '';
+      let matchCount = 0;
+      let truncated = false;
+      let parseError: Error | null = null;
+
+      const stop = () => {
+        child.stdout?.removeAllListeners('data');
+        child.kill();
+      };
+
+      const parseLines = (lines: string[]) => {
+        const batch: RipGrepMatch[] = [];
+
+        for (const line of lines) {
+          if (!line.trim()) continue;
+
+          const parsed = JSON.parse(line) as RipGrepJsonMatch;
+          if (parsed.type !== 'match') continue;
+
+          const data = parsed.data;
+          const absolutePath = resolvePath(directory, data.path.text);
+          // followed links can lead outside the roots, so those matches get the full check
+          const allowed = options.followSymlinks
+            ? this.fileSystemApiService.isPathSafe(absolutePath).safe
+            : this.fileSystemApiService.isFileAccessAllowed(absolutePath);
+          if (!allowed) continue;
+
+          for (const submatch of data.submatches || []) {
+            if (limit !== undefined && matchCount >= limit) {
+              truncated = true;
+              break;
+            }
+
+            batch.push({
+              absolutePath,
+              lineNumber: data.line_number,
+              columnNumber: submatch.start + 1,
+              line: data.lines.text.trimEnd(),
+              matchText: submatch.match.text
+            });
+            matchCount++;
+          }
+
+          if (truncated) break;
+        }
+
+        if (batch.length > 0) {
+          onMatches(batch);
+        }
+      };
 
       child.stdout?.on('data', (data: Buffer) => {
-        stdout += data.toString();
+        const lines = (pendingLine + data.toString()).split('\n');
+        pendingLine = lines.pop() ?? '';
+
+        try {
+          parseLines(lines);
+        } catch (error) {
+          parseError = error as Error;
+          stop();
+          return;
+        }
+
+        if (truncated) {
+          stop();
+        }
       });
 
       child.stderr?.on('data', (data: Buffer) => {
@@ -156,36 +288,32 @@ export class RipGrepService {
       });
 
       child.on('close', (code) => {
+        signal?.removeEventListener('abort', onAbort);
+
+        if (signal?.aborted) {
+          return;
+        }
+
+        if (parseError) {
+          reject(new Error(`Failed to parse ripgrep output: ${parseError.message}`));
+          return;
+        }
+
         if (code === 2) {
           reject(new Error(stderr || 'RipGrep encountered an error'));
           return;
         }
 
-        try {
-          const lines = stdout.split('\n').filter(line => line.trim());
-          for (const line of lines) {
-            const parsed = JSON.parse(line) as RipGrepJsonMatch;
-
-            if (parsed.type === 'match') {
-              const data = parsed.data;
-              const submatches = data.submatches || [];
-
-              for (const submatch of submatches) {
-                matches.push({
-                  absolutePath: resolvePath(directory, data.path.text),
-                  lineNumber: data.line_number,
-                  columnNumber: submatch.start + 1,
-                  line: data.lines.text.trimEnd(),
-                  matchText: submatch.match.text
-                });
-              }
-            }
+        if (!truncated && pendingLine) {
+          try {
+            parseLines([pendingLine]);
+          } catch (error) {
+            reject(new Error(`Failed to parse ripgrep output: ${(error as Error).message}`));
+            return;
           }
-
-          resolve(matches);
-        } catch (error) {
-          reject(new Error(`Failed to parse ripgrep output: ${(error as Error).message}`));
         }
+
+        resolve({ matchCount, truncated });
       });
 
       child.on('error', (error) => {
@@ -258,10 +386,6 @@ export class RipGrepService {
       }
     }
 
-    if (options.maxResults) {
-      args.push('--max-count', Math.ceil(options.maxResults / 10).toString());
-    }
-
     args.push('--glob', '!node_modules/**');
     args.push('--glob', '!.git/**');
 
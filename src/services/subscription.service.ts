@@ -0,0 +1,163 @@
+import { injectable, inject, singleton } from 'tsyringe';
+import { relative } from 'path';
+import { ConfigService } from './config.service';
+import type { FileChangeEvent } from './file-system-api.service';
+import type { LspJsonRpcResponse } from './lsp.service';
+import type { GitFileHunks } from './git.service';
+import { matchesAnyGlob, toPosixPath } from '../utils/glob';
+
+export const SUBSCRIPTION_TOPICS = ['file_changes', 'git_hunks', 'diagnostics', 'terminal', 'unix_client_info'] as const;
+
+export type SubscriptionTopic = typeof SUBSCRIPTION_TOPICS[number];
+
+export interface SubscriptionFilter {
+  globs?: string[]
+  uris?: string[]
+  session_ids?: string[]
+}
+
+export interface Subscription {
+  id: string
+  topic: SubscriptionTopic
+  filter: SubscriptionFilter
+}
+
+export type TopicBroadcastEvent =
+  | { event_name: 'updated_project_info', file_changes: FileChangeEvent[] }
+  | { event_name: 'git_hunks_changed', files: GitFileHunks[] }
+  | { event_name: 'lsp_update', lsp_response: LspJsonRpcResponse }
+  | { event_name: 'terminal_session_created', session_id: string }
+  | { event_name: 'terminal_output_available', session_id: string }
+  | { event_name: 'terminal_session_closed', session_id: string, exit_code: number }
+  | { event_name: 'updated_unix_client_info' };
+
+const eventTopics: Record<TopicBroadcastEvent['event_name'], SubscriptionTopic> = {
+  updated_project_info: 'file_changes',
+  git_hunks_changed: 'git_hunks',
+  lsp_update: 'diagnostics',
+  terminal_session_created: 'terminal',
+  terminal_output_available: 'terminal',
+  terminal_session_closed: 'terminal',
+  updated_unix_client_info: 'unix_client_info'
+};
+
+// Topics that take work to produce go only to clients that subscribed to them
+const OPT_IN_TOPICS: readonly SubscriptionTopic[] = ['git_hunks'];
+
+export function isTopicBroadcastEvent (event: { event_name?: unknown }): event is TopicBroadcastEvent {
+  return typeof event.event_name === 'string' && event.event_name in eventTopics;
+}
+
+@singleton()
+@injectable()
+export class SubscriptionService {
+  private readonly subscriptions = new Map<object, Map<string, Subscription>>();
+  private nextSubscriptionId = 1;
+
+  constructor (
+    @inject(ConfigService) private readonly config: ConfigService
+  ) {}
+
+  subscribe (client: object, topic: SubscriptionTopic, filter: SubscriptionFilter = {}): Subscription {
+    const subscription: Subscription = {
+      id: `sub_${this.nextSubscriptionId++}`,
+      topic,
+      filter
+    };
+
+    let clientSubscriptions = this.subscriptions.get(client);
+    if (!clientSubscriptions) {
+      clientSubscriptions = new Map();
+      this.subscriptions.set(client, clientSubscriptions);
+    }
+    clientSubscriptions.set(subscription.id, subscription);
+
+    return subscription;
+  }
+
+  unsubscribe (client: object, subscriptionId: string): boolean {
+    return this.subscriptions.get(client)?.delete(subscriptionId) ?? false;
+  }
+
+  getSubscriptions (client: object): Subscription[] {
+    return Array.from(this.subscriptions.get(client)?.values() ?? []);
+  }
+
+  removeClient (client: object): void {
+    this.subscriptions.delete(client);
+  }
+
+  clear (): void {
+    this.subscriptions.clear();
+  }
+
+  hasSubscribers (topic: SubscriptionTopic): boolean {
+    return Array.from(this.subscriptions.values()).some(clientSubscriptions =>
+      Array.from(clientSubscriptions.values()).some(subscription => subscription.topic === topic)
+    );
+  }
+
+  // Returns the event as this client should see it, narrowed to what it subscribed to,
+  // or null when it should not be sent. Clients that have never subscribed get everything
+  // except the opt-in topics.
+  select (client: object, event: TopicBroadcastEvent): TopicBroadcastEvent | null {
+    const topic = eventTopics[event.event_name];
+    const clientSubscriptions = this.subscriptions.get(client);
+    if (!clientSubscriptions) {
+      return OPT_IN_TOPICS.includes(topic) ? null : event;
+    }
+
+    const filters = Array.from(clientSubscriptions.values())
+      .filter(subscription => subscription.topic === topic)
+      .map(subscription => subscription.filter);
+
+    if (filters.length === 0) {
+      return null;
+    }
+
+    switch (event.event_name) {
+      case 'updated_project_info': {
+        if (event.file_changes.length === 0 || filters.some(filter => !filter.globs)) {
+          return event;
+        }
+        const fileChanges = event.file_changes.filter(change =>
+          filters.some(filter => this.matchesFileChange(change, filter.globs!))
+        );
+        return fileChanges.length > 0 ? { ...event, file_changes: fileChanges } : null;
+      }
+
+      case 'git_hunks_changed': {
+        if (filters.some(filter => !filter.globs)) {
+          return event;
+        }
+        const files = event.files.filter(file =>
+          filters.some(filter => this.matchesFileChange(file, filter.globs!))
+        );
+        return files.length > 0 ? { ...event, files } : null;
+      }
+
+      case 'lsp_update': {
+        const uri = (event.lsp_response as { params?: { uri?: unknown } }).params?.uri;
+        if (typeof uri !== 'string' || filters.some(filter => !filter.uris)) {
+          return event;
+        }
+        return filters.some(filter => filter.uris!.includes(uri)) ? event : null;
+      }
+
+      case 'terminal_output_available':
+      case 'terminal_session_closed': {
+        const sessionId = event.session_id;
+        return filters.some(filter => !filter.session_ids || filter.session_ids.includes(sessionId)) ? event : null;
+      }
+
+      default:
+        return event;
+    }
+  }
+
+  private matchesFileChange (change: { absolutePath: string }, globs: string[]): boolean {
+    const { workingDirectory } = this.config.getConfig();
+    const relativePath = toPosixPath(relative(workingDirectory, change.absolutePath));
+    return matchesAnyGlob(relativePath, globs) || matchesAnyGlob(change.absolutePath, globs);
+  }
+}
@@ -26,7 +26,20 @@ import type {
   ImportItemsArgs,
   MoveItemsResult,
   CopyToClipboardResult,
-  ImportItemsResult
+  ImportItemsResult,
+  ApplyTextEditsArgs,
+  ApplyPatchArgs,
+  ApplyPatchResult,
+  MkdirResult,
+  RmDirArgs,
+  RmDirResult,
+  RenameItemArgs,
+  RenameItemResult,
+  CopyItemsArgs,
+  CopyItemsResult,
+  ReadFileRangeArgs,
+  ReadFileRangeResult,
+  StatResult
 } from './file-system-api.service';
 import {
   FileSystemApiService
@@ -36,10 +49,64 @@ import { DesktopClientRegistryService } from './desktop-client-registry.service'
 import { DesktopEmitterService } from './desktop-emitter.service';
 import { type Server } from 'http';
 import { VERSION } from '../version';
+import { MIN_CLIENT_PROTOCOL_VERSION, PROTOCOL_VERSION, REPLAY_PROTECTED_PROTOCOL_VERSION } from '../protocol';
 import type { LspJsonRpcRequest, LspJsonRpcResponse } from './lsp.service';
 import type { DiagnosticCheckResult, OpenFileInfo } from './diagnostic-checker.service';
-import { type RipGrepSearchOptions, type RipGrepSearchResult, RipGrepService } from './ripgrep.service';
-import { LspWorkerManagerService } from './lsp-worker-manager.service';
+import {
+  type RipGrepMatch,
+  type RipGrepSearchOptions,
+  type RipGrepSearchResult,
+  type RipGrepStreamSummary,
+  RipGrepService
+} from './ripgrep.service';
+import { LSP_REQUEST_TIMEOUT_MS, LspWorkerManagerService } from './lsp-worker-manager.service';
+import { MAX_BATCH_SIZE, requestParamSchemas } from './request-param-schemas';
+import { REPLAY_WINDOW_MS, ReplayGuardService } from './replay-guard.service';
+import {
+  type SubscriptionFilter,
+  type SubscriptionTopic,
+  type TopicBroadcastEvent,
+  SubscriptionService,
+  isTopicBroadcastEvent
+} from './subscription.service';
+import { type SchemaIssue, validateSchema } from '../utils/json-schema';
+import {
+  type TransactionOperation,
+  type WriteTransactionResult,
+  FileTransactionService
+} from './file-transaction.service';
+import {
+  type ReadFileChunkArgs,
+  type ReadFileChunkResult,
+  type WriteFileChunkArgs,
+  type WriteFileChunkResult,
+  FileTransferService,
+  MAX_TRANSFER_CHUNK_BYTES
+} from './file-transfer.service';
+import {
+  type ListFileHistoryResult,
+  type ReadFileHistoryEntryResult,
+  type RestoreFileHistoryResult,
+  FileHistoryService
+} from './file-history.service';
+import { PathResolverService } from './path-resolver.service';
+import {
+  type GitBlameResult,
+  type GitCommitResult,
+  type GitDiffResult,
+  type GitFileHunks,
+  type GitLogFileResult,
+  type GitPathsResult,
+  type GitShowFileResult,
+  type GetConflictsResult,
+  type ResolveConflictResult,
+  GitService
+} from './git.service';
+import type { ConflictChoice } from '../utils/conflict-markers';
+
+const HOST_REQUEST_TIMEOUT_MS = 10000;
+const MAX_PAYLOAD_BYTES = 100 * 1024 * 1024;
+const HANDSHAKE_REJECTED_CLOSE_CODE = 4000;
 
 export interface RequestParamMap {
   read_file: ReadFileArgs
@@ -53,7 +120,9 @@ export interface RequestParamMap {
   }
   tree: {
     filePath: string
+    respectIgnore?: boolean
   }
+  // the *_many variants predate `batch`; new callers should batch individual requests instead
   read_file_many: {
     files: ReadFileArgs[]
   }
@@ -71,10 +140,54 @@ export interface RequestParamMap {
   }
   tree_many: {
     dirPaths: string[]
+    respectIgnore?: boolean
   }
 
   move_items: MoveItemsArgs
 
+  mkdir: {
+    path: string
+  }
+  rm_dir: RmDirArgs
+  rename_item: RenameItemArgs
+  copy_items: CopyItemsArgs
+
+  apply_text_edits: ApplyTextEditsArgs
+  apply_patch: ApplyPatchArgs
+  write_transaction: {
+    operations: TransactionOperation[]
+  }
+
+  // chunked transfer of large or binary files, base64 encoded
+  read_file_chunk: ReadFileChunkArgs
+  write_file_chunk: WriteFileChunkArgs
+  abort_upload: {
+    uploadId: string
+  }
+
+  // lets clients page through large files, or check size and hash before downloading anything
+  read_file_range: ReadFileRangeArgs
+  stat: {
+    path: string
+  }
+  stat_many: {
+    paths: string[]
+  }
+
+  // local edit history
+  list_file_history: {
+    filePath?: string
+    limit?: number
+  }
+  read_file_history_entry: {
+    id: string
+    encoding?: BufferEncoding
+  }
+  restore_file_history_entry: {
+    id: string
+  }
+  undo_last_change: unknown
+
   // host-level
   copy_to_clipboard: CopyToClipboardArgs
 
@@ -94,6 +207,7 @@ export interface RequestParamMap {
   get_unix_client_info: unknown
   get_prompt_rules: unknown
   get_version: unknown
+  get_capabilities: unknown
   get_proxy_info: unknown
   set_should_modify_next_object_counter: {
     shouldModifyNextObjectCounter: boolean
@@ -114,6 +228,47 @@ export interface RequestParamMap {
 
   // git
   get_git_status: unknown
+  git_diff: {
+    filePath: string
+    staged?: boolean
+    contextLines?: number
+  }
+  git_stage: {
+    paths: string[]
+  }
+  git_unstage: {
+    paths: string[]
+  }
+  git_discard: {
+    paths: string[]
+  }
+  git_commit: {
+    message?: string
+    amend?: boolean
+  }
+  git_show_file: {
+    filePath: string
+    ref?: string
+    encoding?: BufferEncoding
+  }
+  git_log_file: {
+    filePath: string
+    limit?: number
+  }
+  git_blame: {
+    filePath: string
+    startLine?: number
+    endLine?: number
+  }
+  get_conflicts: {
+    filePath?: string
+  }
+  resolve_conflict: {
+    filePath: string
+    regionIndex: number
+    choice?: ConflictChoice
+    customText?: string
+  }
 
   // ripgrep
   search: {
@@ -121,6 +276,34 @@ export interface RequestParamMap {
     options?: RipGrepSearchOptions
   }
 
+  search_stream: {
+    pattern: string
+    options?: RipGrepSearchOptions
+    batchSize?: number
+  }
+
+  cancel_request: {
+    message_id: string
+  }
+
+  // subscriptions
+  subscribe: {
+    topic: SubscriptionTopic
+    filter?: SubscriptionFilter
+  }
+
+  unsubscribe: {
+    subscription_id: string
+  }
+
+  get_connection_health: unknown
+
+  batch: {
+    requests: WebSocketPostInitMessage[]
+    mode?: 'sequential' | 'parallel'
+    stopOnError?: boolean
+  }
+
   // terminal
   set_terminal_secret: {
     secret: string
@@ -217,6 +400,46 @@ export interface EventPayloadMap {
 
   move_items: MoveItemsResult
 
+  mkdir: {
+    path: string
+    response: MkdirResult
+  }
+  rm_dir: {
+    path: string
+    response: RmDirResult
+  }
+  rename_item: RenameItemResult
+  copy_items: CopyItemsResult
+
+  apply_text_edits: {
+    filePath: string
+    response: WriteFileResult
+  }
+  apply_patch: ApplyPatchResult
+  write_transaction: WriteTransactionResult
+
+  read_file_chunk: ReadFileChunkResult
+  write_file_chunk: WriteFileChunkResult
+  abort_upload: {
+    success: boolean
+    error?: string
+  }
+
+  read_file_range: ReadFileRangeResult
+  stat: {
+    path: string
+    response: StatResult
+  }
+  stat_many: {
+    paths: string[]
+    responses: StatResult[]
+  }
+
+  list_file_history: ListFileHistoryResult
+  read_file_history_entry: ReadFileHistoryEntryResult
+  restore_file_history_entry: RestoreFileHistoryResult
+  undo_last_change: RestoreFileHistoryResult
+
   copy_to_clipboard: CopyToClipboardResult
 
   import_items: ImportItemsResult
@@ -234,6 +457,7 @@ export interface EventPayloadMap {
   get_version: {
     version: string
   }
+  get_capabilities: ServerCapabilities
   get_proxy_info: null | {
     serverUrl: string
     proxyUrl: string
@@ -249,13 +473,51 @@ export interface EventPayloadMap {
   check_diagnostics: DiagnosticCheckResult
 
   get_git_status: GitStatusResult
+  git_diff: GitDiffResult
+  git_stage: GitPathsResult
+  git_unstage: GitPathsResult
+  git_discard: GitPathsResult
+  git_commit: GitCommitResult
+  git_show_file: GitShowFileResult
+  git_log_file: GitLogFileResult
+  git_blame: GitBlameResult
+  get_conflicts: GetConflictsResult
+  resolve_conflict: ResolveConflictResult
 
   search: RipGrepSearchResult
 
+  search_stream: RipGrepStreamSummary
+
+  cancel_request: {
+    message_id: string
+    cancelled: boolean
+  }
+
   create_terminal_session: {
     session_id: string
   }
 
+  subscribe: {
+    subscription_id: string
+    topic: SubscriptionTopic
+  }
+
+  unsubscribe: {
+    subscription_id: string
+    unsubscribed: boolean
+  }
+
+  batch: {
+    responses: BatchItemResponse[]
+  }
+
+  get_connection_health: {
+    client: ConnectionHealth
+    host: (ConnectionHealth & { connected: boolean }) | null
+    heartbeat_interval_ms: number
+    heartbeat_timeout_ms: number
+  }
+
   send_terminal_key_strokes: null
 
   pull_terminal_changes: {
@@ -287,11 +549,90 @@ export interface EventPayloadMap {
   }
 }
 
+export interface ConnectionHealth {
+  last_pong_at: number | null
+  rtt_ms: number | null
+}
+
+export interface ServerCapabilities {
+  events: Array<keyof RequestParamMap>
+  subsystems: {
+    terminal: boolean
+    eslint: boolean
+    prettier: boolean
+    tailwind: boolean
+    git: boolean
+    hostClient: boolean
+  }
+  limits: {
+    maxPayloadBytes: number
+    hostRequestTimeoutMs: number
+    lspRequestTimeoutMs: number
+    replayWindowMs: number
+    heartbeatIntervalMs: number
+    maxBatchSize: number
+    maxChunkBytes: number
+  }
+}
+
+export interface HandshakeMessage {
+  event_name: 'handshake'
+  protocol_version: number
+  client_version?: string
+}
+
+export interface HandshakeAckMessage {
+  event_name: 'handshake_ack'
+  protocol_version: number
+  server_version: string
+  capabilities: ServerCapabilities
+}
+
+export interface HandshakeRejectedMessage {
+  event_name: 'handshake_rejected'
+  code: 'UNSUPPORTED_PROTOCOL'
+  reason: string
+  protocol_version: number
+  min_client_protocol_version: number
+}
+
+export type WebSocketErrorCode =
+  | 'INVALID_SIGNATURE'
+  | 'UNKNOWN_EVENT'
+  | 'INVALID_PARAMS'
+  | 'TERMINAL_SECRET_MISMATCH'
+  | 'HOST_UNAVAILABLE'
+  | 'HANDLER_FAILED'
+  | 'CANCELLED'
+  | 'REPLAYED_MESSAGE'
+  | 'STALE_MESSAGE'
+  | 'RATE_LIMITED'
+  | 'SKIPPED';
+
+export interface WebSocketResponseError {
+  code: WebSocketErrorCode
+  message: string
+  details?: SchemaIssue[]
+}
+
+export class WebSocketRequestError extends Error {
+  constructor (
+    public readonly code: WebSocketErrorCode,
+    message: string,
+    public readonly details?: SchemaIssue[]
+  ) {
+    super(message);
+    this.name = 'WebSocketRequestError';
+  }
+}
+
 export interface WebSocketInboundEvent<K extends keyof RequestParamMap> {
   event_name: K
   params: RequestParamMap[K]
   signature: string
   message_id: string
+  nonce?: string
+  timestamp?: number
 }
 
 export type WebSocketInboundRequest<K extends keyof RequestParamMap> =
@@ -304,6 +645,16 @@ export type WebSocketPostInitMessage =
 
 export type ForwardableEvents =
   | 'get_git_status'
+  | 'git_diff'
+  | 'git_stage'
+  | 'git_unstage'
+  | 'git_discard'
+  | 'git_commit'
+  | 'git_show_file'
+  | 'git_log_file'
+  | 'git_blame'
+  | 'get_conflicts'
+  | 'resolve_conflict'
   | 'copy_to_clipboard'
   | 'import_items'
   | 'set_terminal_secret'
@@ -326,7 +677,7 @@ export interface HostForwardRequest<K extends ForwardableEvents> {
 export interface HostResponseMessage<K extends ForwardableEvents> {
   event_name: 'host_response'
   request_uuid: string
-  wrapped_response: WebSocketResponseEvent<K>
+  wrapped_response: WebSocketResponseEvent<K> | WebSocketErrorResponseEvent<K>
 }
 
 export interface HostBroadcastMessage {
@@ -345,7 +696,8 @@ type WebSocketUnsignedMessage =
     signature: string
     timestamp: number
   } | HostResponseMessage<ForwardableEvents>
-  | HostBroadcastMessage;
+  | HostBroadcastMessage
+  | HandshakeMessage;
 
 type WebSocketMessage = WebSocketPostInitMessage | WebSocketUnsignedMessage;
 
@@ -355,6 +707,47 @@ export interface WebSocketResponseEvent<K extends keyof EventPayloadMap> {
   payload: EventPayloadMap[K]
 }
 
+export interface SearchStreamMatchesEvent {
+  event_name: 'search_stream_matches'
+  message_id: string
+  root: string
+  matches: RipGrepMatch[]
+}
+
+export interface SearchStreamProgressEvent {
+  event_name: 'search_stream_progress'
+  message_id: string
+  root: string
+  root_index: number
+  root_count: number
+  match_count: number
+}
+
+export interface WebSocketErrorResponseEvent<K extends keyof RequestParamMap = keyof RequestParamMap> {
+  event_response: K
+  message_id: string
+  error: WebSocketResponseError
+}
+
+export type BatchItemResponse =
+  | WebSocketResponseEvent<keyof EventPayloadMap>
+  | WebSocketErrorResponseEvent
+  | {
+    event_response: Exclude<keyof RequestParamMap, keyof EventPayloadMap>
+    message_id: string
+    payload: null
+  };
+
+// Handlers report their own failures in the payload, either directly or wrapped as
+// { response: { success: false } }, so a protocol-level error is not the only kind
+function isFailedBatchItem (response: BatchItemResponse): boolean {
+  if ('error' in response) {
+    return response.error.code !== 'SKIPPED';
+  }
+  const payload = response.payload as { success?: unknown, response?: { success?: unknown } } | null;
+  return payload?.success === false || payload?.response?.success === false;
+}
+
 const signedEvents = new Set<keyof RequestParamMap>([
   'read_file',
   'write_file',
@@ -369,6 +762,23 @@ const signedEvents = new Set<keyof RequestParamMap>([
   'rm_many',
   'tree_many',
   'move_items',
+  'mkdir',
+  'rm_dir',
+  'rename_item',
+  'copy_items',
+  'apply_text_edits',
+  'apply_patch',
+  'write_transaction',
+  'read_file_chunk',
+  'write_file_chunk',
+  'abort_upload',
+  'read_file_range',
+  'stat',
+  'stat_many',
+  'list_file_history',
+  'read_file_history_entry',
+  'restore_file_history_entry',
+  'undo_last_change',
   'copy_to_clipboard',
   'import_items',
   'open_element',
@@ -377,13 +787,26 @@ const signedEvents = new Set<keyof RequestParamMap>([
   'get_unix_client_info',
   'get_prompt_rules',
   'get_version',
+  'get_capabilities',
   'get_proxy_info',
   'set_should_modify_next_object_counter',
   'lsp_request',
   'open_files',
   'check_diagnostics',
   'get_git_status',
+  'git_diff',
+  'git_stage',
+  'git_unstage',
+  'git_discard',
+  'git_commit',
+  'git_show_file',
+  'git_log_file',
+  'git_blame',
+  'get_conflicts',
+  'resolve_conflict',
   'search',
+  'search_stream',
+  'cancel_request',
   'set_terminal_secret',
   'has_terminal_secret',
   'check_terminal_secret',
@@ -392,7 +815,11 @@ const signedEvents = new Set<keyof RequestParamMap>([
   'send_terminal_key_strokes',
   'pull_terminal_changes',
   'kill_terminal_session',
-  'run_single_terminal_command'
+  'run_single_terminal_command',
+  'subscribe',
+  'unsubscribe',
+  'get_connection_health',
+  'batch'
 ]);
 
 @singleton()
@@ -407,6 +834,12 @@ export class WebSocketService {
     timeout: NodeJS.Timeout
   }>();
 
+  // per socket, since message ids are only unique within one client
+  private readonly inFlightRequests = new Map<WebSocket, Map<string, AbortController>>();
+  private readonly clientHandshakes = new Map<WebSocket, { protocolVersion: number, clientVersion?: string }>();
+  private readonly heartbeats = new Map<WebSocket, { lastPingAt: number | null, lastPongAt: number | null, rttMs: number | null }>();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+
   constructor (
     @inject(ConfigService) private readonly config: ConfigService,
     @inject(Logger) private readonly logger: Logger,
@@ -419,14 +852,22 @@ export class WebSocketService {
     @inject(LspWorkerManagerService) private readonly lspWorkerManager: LspWorkerManagerService,
     @inject(RipGrepService) private readonly ripgrepService: RipGrepService,
     @inject(LocalKeyService) private readonly localKeyService: LocalKeyService,
-    @inject(TerminalManagerService) private readonly terminalManager: TerminalManagerService
+    @inject(TerminalManagerService) private readonly terminalManager: TerminalManagerService,
+    @inject(ReplayGuardService) private readonly replayGuard: ReplayGuardService,
+    @inject(SubscriptionService) private readonly subscriptions: SubscriptionService,
+    @inject(FileHistoryService) private readonly fileHistory: FileHistoryService,
+    @inject(FileTransactionService) private readonly fileTransactions: FileTransactionService,
+    @inject(FileTransferService) private readonly fileTransfers: FileTransferService,
+    @inject(PathResolverService) private readonly paths: PathResolverService,
+    @inject(GitService) private readonly git: GitService
   ) { }
 
   async startWithHttpServer (httpServer: Server): Promise<void> {
     const { wsPort, wsHost, wsProtocol } = this.config.getConfig();
 
     this.wss = new WebSocketServer({
-      noServer: true
+      noServer: true,
+      maxPayload: MAX_PAYLOAD_BYTES
     });
 
     httpServer.on('upgrade', (request, socket, head) => {
@@ -446,7 +887,7 @@ export class WebSocketService {
     const { wsPort, wsHost, wsProtocol } = this.config.getConfig();
 
     await new Promise<void>((resolve, reject) => {
-      this.wss = new WebSocketServer({ port: wsPort, host: wsHost }, resolve);
+      this.wss = new WebSocketServer({ port: wsPort, host: wsHost, maxPayload: MAX_PAYLOAD_BYTES }, resolve);
       this.wss.once('error', reject);
     });
 
@@ -466,44 +907,55 @@ export class WebSocketService {
       this.broadcastProjectInfoChanged(fileChanges);
     });
 
+    this.git.setHunksListener((files: GitFileHunks[]) => {
+      this.publish({
+        event_name: 'git_hunks_changed',
+        files
+      });
+    }, () => this.subscriptions.hasSubscribers('git_hunks'));
+
     this.lspWorkerManager.listen((lspResponse: LspJsonRpcResponse) => {
-      this.broadcast(JSON.stringify({
+      this.publish({
         event_name: 'lsp_update',
         lsp_response: lspResponse
-      }));
+      });
     });
 
     this.terminalManager.on('created', (sessionId: string) => {
-      this.broadcast(JSON.stringify({
+      this.publish({
         event_name: 'terminal_session_created',
         session_id: sessionId
-      }));
+      });
     });
 
     this.terminalManager.on('data', (sessionId: string) => {
-      this.broadcast(JSON.stringify({
+      this.publish({
         event_name: 'terminal_output_available',
         session_id: sessionId
-      }));
+      });
     });
 
     this.terminalManager.on('exit', (sessionId: string, exitCode: number) => {
-      this.broadcast(JSON.stringify({
+      this.publish({
         event_name: 'terminal_session_closed',
         session_id: sessionId,
         exit_code: exitCode
-      }));
+      });
     });
 
     if (!this.wss) return;
 
     this.wss.on('connection', (ws) => {
       this.clients.add(ws);
+      this.heartbeats.set(ws, { lastPingAt: null, lastPongAt: null, rttMs: null });
       this.logger.info('WebSocket client connected');
 
       ws.send(JSON.stringify({
         event_name: 'init',
-        key_ready: this.keyManager.hasValidKey()
+        key_ready: this.keyManager.hasValidKey(),
+        protocol_version: PROTOCOL_VERSION,
+        min_client_protocol_version: MIN_CLIENT_PROTOCOL_VERSION,
+        server_version: VERSION
       }));
 
       ws.on('message', (data) => {
@@ -511,12 +963,19 @@ export class WebSocketService {
         this.handleMessage(data.toString(), ws);
       });
 
+      ws.on('pong', () => {
+        this.recordPong(ws);
+      });
+
       ws.on('close', () => {
         this.clients.delete(ws);
+        this.clientHandshakes.delete(ws);
+        this.subscriptions.removeClient(ws);
+        this.heartbeats.delete(ws);
 
         if (this.hostClient === ws) {
           this.logger.warn('Host client disconnected');
-          this.hostClient = null;
+          this.handleHostDisconnected();
         }
 
         this.logger.info('WebSocket client disconnected');
@@ -525,14 +984,19 @@ export class WebSocketService {
       ws.on('error', (error) => {
         this.logger.error(`WebSocket error: ${error.message}`);
         this.clients.delete(ws);
+        this.clientHandshakes.delete(ws);
+        this.subscriptions.removeClient(ws);
+        this.heartbeats.delete(ws);
 
         if (this.hostClient === ws) {
           this.logger.error('Host client error');
-          this.hostClient = null;
+          this.handleHostDisconnected();
         }
       });
     });
 
+    this.startHeartbeat();
+
     this.logger.success(
       `WebSocket server listening on ${wsProtocol}://${wsHost}:${wsPort}`
     );
@@ -549,9 +1013,17 @@ export class WebSocketService {
     this.keyFetcher.cleanup();
     this.keyManager.cleanup();
 
+    this.inFlightRequests.forEach(requests => { requests.forEach(controller => { controller.abort(); }); });
+    this.inFlightRequests.clear();
+
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
     for (const [, pending] of this.pendingHostRequests.entries()) {
       clearTimeout(pending.timeout);
-      pending.reject(new Error('WebSocket server shutting down'));
+      pending.reject(new WebSocketRequestError('HOST_UNAVAILABLE', 'WebSocket server shutting down'));
     }
 
     await this.lspWorkerManager.stop();
@@ -569,21 +1041,31 @@ export class WebSocketService {
     );
 
     this.clients.clear();
+    this.clientHandshakes.clear();
+    this.heartbeats.clear();
+    this.replayGuard.clear();
+    this.subscriptions.clear();
     this.hostClient = null;
     await new Promise<void>((resolve) => { this.wss!.close(() => { resolve(); }); });
     this.logger.info('WebSocket server stopped');
   }
 
   private async handleMessage (data: string, socket: WebSocket): Promise<void> {
+    let message: WebSocketMessage;
+
     try {
-      const message: WebSocketMessage = JSON.parse(data);
-      const isInsecure = this.config.getConfig()?.insecure ?? false;
+      message = JSON.parse(data);
 
       if (message.event_name === 'key_registered') {
         this.handleKeyRegistered(message, socket);
         return;
       }
 
+      if (message.event_name === 'handshake') {
+        this.handleHandshake(message, socket);
+        return;
+      }
+
       if (message.event_name === 'host_init') {
         this.handleHostInit(message, socket);
         return;
@@ -595,33 +1077,72 @@ export class WebSocketService {
       }
 
       if (message.event_name === 'host_broadcast' && socket === this.hostClient) {
-        this.broadcast(message.wrapped_broadcast);
+        this.relayHostBroadcast(message.wrapped_broadcast);
         return;
       }
+    } catch (err) {
+      this.logger.error(`Failed to parse WebSocket message: ${err instanceof Error ? err.message : 'unknown error'}`);
+      return;
+    }
 
-      if (!signedEvents.has(message.event_name as any)) {
-        this.logger.warn(`Unknown event received: ${message.event_name}`);
-        return;
+    await this.handleRequest(message as WebSocketPostInitMessage, socket, (response) => { socket.send(response); });
+  }
+
+  // Verifies and dispatches a signed request. Responses go through `send` so batches can collect
+  // them; push events (e.g. streamed search matches) always go straight to the socket.
+  // changeId groups the file history recorded by this request; batch items share their batch's id
+  private async handleRequest (
+    postInitMessage: WebSocketPostInitMessage,
+    socket: WebSocket,
+    send: (message: string) => void,
+    changeId: string = postInitMessage.message_id
+  ): Promise<void> {
+    try {
+      const isInsecure = this.config.getConfig()?.insecure ?? false;
+
+      if (!signedEvents.has(postInitMessage.event_name)) {
+        throw new WebSocketRequestError('UNKNOWN_EVENT', `Unknown event: ${postInitMessage.event_name}`);
       }
 
-      const postInitMessage = message as WebSocketPostInitMessage;
       const { signature, ...messageWithoutSignature } = postInitMessage;
-
-      const signedPayload = {
-        event_name: messageWithoutSignature.event_name,
-        params: messageWithoutSignature.params,
-        message_id: messageWithoutSignature.message_id
-      };
+      const isReplayProtected = typeof messageWithoutSignature.nonce === 'string' &&
+        typeof messageWithoutSignature.timestamp === 'number';
+
+      const signedPayload = isReplayProtected
+        ? {
+            event_name: messageWithoutSignature.event_name,
+            params: messageWithoutSignature.params,
+            message_id: messageWithoutSignature.message_id,
+            nonce: messageWithoutSignature.nonce,
+            timestamp: messageWithoutSignature.timestamp
+          }
+        : {
+            event_name: messageWithoutSignature.event_name,
+            params: messageWithoutSignature.params,
+            message_id: messageWithoutSignature.message_id
+          };
 
       if (!isInsecure && !this.signatureVerifier.verify(signedPayload, signature)) {
-        this.logger.warn('Discarding message with invalid signature');
-        return;
+        throw new WebSocketRequestError('INVALID_SIGNATURE', 'Message signature is invalid');
+      }
+
+      if (!isInsecure) {
+        this.assertNotReplayed(postInitMessage, socket, isReplayProtected);
+      }
+
+      const issues = validateSchema(requestParamSchemas[postInitMessage.event_name], postInitMessage.params, 'params');
+      if (issues.length > 0) {
+        throw new WebSocketRequestError(
+          'INVALID_PARAMS',
+          `Invalid params: ${issues.map(issue => `${issue.path} ${issue.message}`).join('; ')}`,
+          issues
+        );
       }
 
       switch (postInitMessage.event_name) {
         case 'read_file': {
-          const res = this.fileSystemApi.readFile(postInitMessage.params.filePath);
-          socket.send(
+          const res = this.fileSystemApi.readFile(postInitMessage.params.filePath, postInitMessage.params.encoding);
+          send(
             this.serializeResponseMessage(postInitMessage, {
               filePath: postInitMessage.params.filePath,
               response: res
@@ -631,12 +1152,20 @@ export class WebSocketService {
         }
 
         case 'write_file': {
+          const snapshot = this.fileHistory.capture(postInitMessage.params.filePath);
           const res = this.fileSystemApi.writeToFile(
             postInitMessage.params.filePath,
             postInitMessage.params.content,
-            postInitMessage.params.encoding
+            postInitMessage.params.encoding,
+            {
+              expectedHash: postInitMessage.params.expectedHash,
+              expectedMtime: postInitMessage.params.expectedMtime
+            }
           );
-          socket.send(
+          if (res.success) {
+            this.fileHistory.record('write_file', changeId, [snapshot]);
+          }
+          send(
             this.serializeResponseMessage(postInitMessage, {
               filePath: postInitMessage.params.filePath,
               response: res
@@ -647,7 +1176,7 @@ export class WebSocketService {
 
         case 'exists': {
           const res = this.fileSystemApi.exists(postInitMessage.params.filePath);
-          socket.send(
+          send(
             this.serializeResponseMessage(postInitMessage, {
               filePath: postInitMessage.params.filePath,
               response: res
@@ -661,7 +1190,7 @@ export class WebSocketService {
             postInitMessage.params.dirPath,
             postInitMessage.params.options
           );
-          socket.send(
+          send(
             this.serializeResponseMessage(postInitMessage, {
               filePath: postInitMessage.params.dirPath,
               response: res
@@ -671,8 +1200,12 @@ export class WebSocketService {
         }
 
         case 'rm': {
+          const snapshot = this.fileHistory.capture(postInitMessage.params.path);
           const res = this.fileSystemApi.rm(postInitMessage.params.path);
-          socket.send(
+          if (res.success) {
+            this.fileHistory.record('rm', changeId, [snapshot]);
+          }
+          send(
             this.serializeResponseMessage(postInitMessage, {
               path: postInitMessage.params.path,
               response: res
@@ -683,9 +1216,10 @@ export class WebSocketService {
 
         case 'tree': {
           const res = this.fileSystemApi.tree(
-            postInitMessage.params.filePath
+            postInitMessage.params.filePath,
+            { respectIgnore: postInitMessage.params.respectIgnore }
           );
-          socket.send(
+          send(
             this.serializeResponseMessage(postInitMessage, {
               filePath: postInitMessage.params.filePath,
               response: res
@@ -695,7 +1229,7 @@ export class WebSocketService {
         }
         case 'read_file_many': {
           const res = this.fileSystemApi.readFileMany(postInitMessage.params.files);
-          socket.send(
+          send(
             this.serializeResponseMessage(postInitMessage, {
               files: postInitMessage.params.files,
               responses: res
@@ -705,8 +1239,10 @@ export class WebSocketService {
         }
 
         case 'write_file_many': {
+          const snapshots = postInitMessage.params.files.map(({ filePath }) => this.fileHistory.capture(filePath));
           const res = this.fileSystemApi.writeToFileMany(postInitMessage.params.files);
-          socket.send(
+          this.fileHistory.record('write_file_many', changeId, snapshots.filter((_, index) => res[index].success));
+          send(
             this.serializeResponseMessage(postInitMessage, {
               files: postInitMessage.params.files,
               responses: res
@@ -717,7 +1253,7 @@ export class WebSocketService {
 
         case 'exists_many': {
           const res = this.fileSystemApi.existsMany(postInitMessage.params.paths);
-          socket.send(
+          send(
             this.serializeResponseMessage(postInitMessage, {
               paths: postInitMessage.params.paths,
               responses: res
@@ -728,7 +1264,7 @@ export class WebSocketService {
 
         case 'ls_many': {
           const res = this.fileSystemApi.lsMany(postInitMessage.params.dirs);
-          socket.send(
+          send(
             this.serializeResponseMessage(postInitMessage, {
               dirs: postInitMessage.params.dirs,
               responses: res
@@ -738,8 +1274,10 @@ export class WebSocketService {
         }
 
         case 'rm_many': {
+          const snapshots = postInitMessage.params.paths.map(({ path }) => this.fileHistory.capture(path));
           const res = this.fileSystemApi.rmMany(postInitMessage.params.paths);
-          socket.send(
+          this.fileHistory.record('rm_many', changeId, snapshots.filter((_, index) => res[index].success));
+          send(
             this.serializeResponseMessage(postInitMessage, {
               paths: postInitMessage.params.paths,
               responses: res
@@ -749,8 +1287,8 @@ export class WebSocketService {
         }
 
         case 'tree_many': {
-          const res = this.fileSystemApi.treeMany(postInitMessage.params.dirPaths);
-          socket.send(
+          const res = this.fileSystemApi.treeMany(postInitMessage.params.dirPaths, { respectIgnore: postInitMessage.params.respectIgnore });
+          send(
             this.serializeResponseMessage(postInitMessage, {
               dirPaths: postInitMessage.params.dirPaths,
               responses: res
@@ -764,21 +1302,170 @@ export class WebSocketService {
             postInitMessage.params.sourcePaths,
             postInitMessage.params.targetDirectory
           );
-          socket.send(
+          this.fileHistory.recordMoves('move_items', changeId, res.movedPaths ?? []);
+          send(
             this.serializeResponseMessage(postInitMessage, res)
           );
           break;
         }
 
+        case 'mkdir': {
+          const res = this.fileSystemApi.mkdir(postInitMessage.params.path);
+          send(this.serializeResponseMessage(postInitMessage, { path: postInitMessage.params.path, response: res }));
+          break;
+        }
+
+        case 'rm_dir': {
+          const { path, recursive = false, confirm = false } = postInitMessage.params;
+          const snapshots = this.fileSystemApi.checkRmDir(path, recursive, confirm).success
+            ? this.fileHistory.captureDirectory(path)
+            : [];
+          const res = this.fileSystemApi.rmDir(path, recursive, confirm);
+          if (res.success) {
+            this.fileHistory.record('rm_dir', changeId, snapshots);
+          }
+          send(this.serializeResponseMessage(postInitMessage, { path, response: res }));
+          break;
+        }
+
+        case 'rename_item': {
+          const res = this.fileSystemApi.renameItem(postInitMessage.params.sourcePath, postInitMessage.params.newPath);
+          if (res.success) {
+            this.fileHistory.recordMoves('rename_item', changeId, [{ from: res.from!, to: res.to! }]);
+          }
+          send(this.serializeResponseMessage(postInitMessage, res));
+          break;
+        }
+
+        case 'copy_items': {
+          const res = this.fileSystemApi.copyItems(postInitMessage.params.sourcePaths, postInitMessage.params.targetDirectory);
+          this.fileHistory.record('copy_items', changeId, (res.copiedPaths ?? []).map(({ to }) => ({ filePath: to, existed: false })));
+          send(this.serializeResponseMessage(postInitMessage, res));
+          break;
+        }
+
+        case 'apply_text_edits': {
+          const { filePath, edits, expectedHash, expectedMtime } = postInitMessage.params;
+          const snapshot = this.fileHistory.capture(filePath);
+          const res = this.fileSystemApi.applyTextEdits(filePath, edits, { expectedHash, expectedMtime });
+          if (res.success) {
+            this.fileHistory.record('apply_text_edits', changeId, [snapshot]);
+          }
+          send(this.serializeResponseMessage(postInitMessage, { filePath, response: res }));
+          break;
+        }
+
+        case 'apply_patch': {
+          const { patch, fuzz } = postInitMessage.params;
+          const snapshots = this.fileSystemApi.getPatchTargets(patch).map(filePath => this.fileHistory.capture(filePath));
+          const res = this.fileSystemApi.applyPatch(patch, fuzz);
+          if (res.success) {
+            this.fileHistory.record('apply_patch', changeId, snapshots);
+          }
+          send(this.serializeResponseMessage(postInitMessage, res));
+          break;
+        }
+
+        case 'write_transaction': {
+          const { operations } = postInitMessage.params;
+          const snapshots = operations.map(operation =>
+            operation.type === 'rename' ? null : this.fileHistory.capture(operation.filePath)
+          );
+          const res = this.fileTransactions.run(operations);
+          if (res.success) {
+            operations.forEach((operation, index) => {
+              if (operation.type === 'rename') {
+                this.fileHistory.recordMoves('write_transaction', changeId, [{ from: this.paths.resolve(operation.fromPath), to: this.paths.resolve(operation.toPath) }]);
+              } else {
+                this.fileHistory.record('write_transaction', changeId, [snapshots[index]]);
+              }
+            });
+          }
+          send(this.serializeResponseMessage(postInitMessage, res));
+          break;
+        }
+
+        case 'read_file_chunk': {
+          const { filePath, offset, length } = postInitMessage.params;
+          send(this.serializeResponseMessage(postInitMessage, this.fileTransfers.readChunk(filePath, offset, length)));
+          break;
+        }
+
+        case 'write_file_chunk': {
+          const snapshot = postInitMessage.params.done ? this.fileHistory.capture(postInitMessage.params.filePath) : null;
+          const res = this.fileTransfers.writeChunk(postInitMessage.params);
+          if (res.success && res.done) {
+            this.fileHistory.record('write_file_chunk', changeId, [snapshot]);
+          }
+          send(this.serializeResponseMessage(postInitMessage, res));
+          break;
+        }
+
+        case 'abort_upload': {
+          send(this.serializeResponseMessage(postInitMessage, this.fileTransfers.abort(postInitMessage.params.uploadId)));
+          break;
+        }
+
+        case 'read_file_range': {
+          send(this.serializeResponseMessage(postInitMessage, this.fileSystemApi.readFileRange(postInitMessage.params)));
+          break;
+        }
+
+        case 'stat': {
+          const res = this.fileSystemApi.stat(postInitMessage.params.path);
+          send(
+            this.serializeResponseMessage(postInitMessage, {
+              path: postInitMessage.params.path,
+              response: res
+            })
+          );
+          break;
+        }
+
+        case 'stat_many': {
+          const res = this.fileSystemApi.statMany(postInitMessage.params.paths);
+          send(
+            this.serializeResponseMessage(postInitMessage, {
+              paths: postInitMessage.params.paths,
+              responses: res
+            })
+          );
+          break;
+        }
+
+        case 'list_file_history': {
+          const res = this.fileHistory.list(postInitMessage.params.filePath, postInitMessage.params.limit);
+          send(this.serializeResponseMessage(postInitMessage, res));
+          break;
+        }
+
+        case 'read_file_history_entry': {
+          const res = this.fileHistory.read(postInitMessage.params.id, postInitMessage.params.encoding);
+          send(this.serializeResponseMessage(postInitMessage, res));
+          break;
+        }
+
+        case 'restore_file_history_entry': {
+          const res = this.fileHistory.restore(postInitMessage.params.id, changeId);
+          send(this.serializeResponseMessage(postInitMessage, res));
+          break;
+        }
+
+        case 'undo_last_change': {
+          const res = this.fileHistory.undoLastChange(changeId);
+          send(this.serializeResponseMessage(postInitMessage, res));
+          break;
+        }
+
         case 'copy_to_clipboard': {
           if (this.hasHostClient()) {
             const result = await this.sendToHost(postInitMessage);
-            socket.send(
+            send(
               this.serializeResponseMessage(postInitMessage, result)
             );
           } else {
             const res = this.fileSystemApi.copyToClipboard(postInitMessage.params.paths);
-            socket.send(
+            send(
               this.serializeResponseMessage(postInitMessage, res)
             );
           }
@@ -788,7 +1475,7 @@ export class WebSocketService {
         case 'import_items': {
           if (this.hasHostClient()) {
             const result = await this.sendToHost(postInitMessage);
-            socket.send(
+            send(
               this.serializeResponseMessage(postInitMessage, result)
             );
           } else {
@@ -796,7 +1483,7 @@ export class WebSocketService {
               postInitMessage.params.sourcePaths,
               postInitMessage.params.targetDirectory
             );
-            socket.send(
+            send(
               this.serializeResponseMessage(postInitMessage, res)
             );
           }
@@ -815,7 +1502,7 @@ export class WebSocketService {
 
         case 'get_project_info': {
           const projectInfo = this.fileSystemApi.projectInfo();
-          socket.send(
+          send(
             this.serializeResponseMessage(postInitMessage, {
               projectInfo
             })
@@ -824,7 +1511,7 @@ export class WebSocketService {
         }
 
         case 'get_unix_client_info': {
-          socket.send(
+          send(
             this.serializeResponseMessage(postInitMessage, {
               unixConnectionCount: this.desktopClientRegistryService.count(),
               utilizedApis: this.desktopClientRegistryService.utilizedApis()
@@ -834,7 +1521,7 @@ export class WebSocketService {
         }
 
         case 'get_prompt_rules': {
-          socket.send(
+          send(
             this.serializeResponseMessage(postInitMessage, {
               rules: this.config.getPromptRules()
             })
@@ -843,7 +1530,7 @@ export class WebSocketService {
         }
 
         case 'get_version': {
-          socket.send(
+          send(
             this.serializeResponseMessage(postInitMessage, {
               version: VERSION
             })
@@ -851,14 +1538,61 @@ export class WebSocketService {
           break;
         }
 
+        case 'subscribe': {
+          const subscription = this.subscriptions.subscribe(
+            socket,
+            postInitMessage.params.topic,
+            postInitMessage.params.filter
+          );
+          send(
+            this.serializeResponseMessage(postInitMessage, {
+              subscription_id: subscription.id,
+              topic: subscription.topic
+            })
+          );
+          break;
+        }
+
+        case 'unsubscribe': {
+          send(
+            this.serializeResponseMessage(postInitMessage, {
+              subscription_id: postInitMessage.params.subscription_id,
+              unsubscribed: this.subscriptions.unsubscribe(socket, postInitMessage.params.subscription_id)
+            })
+          );
+          break;
+        }
+
+        case 'batch': {
+          const responses = await this.runBatch(postInitMessage, socket);
+          send(
+            this.serializeResponseMessage(postInitMessage, { responses })
+          );
+          break;
+        }
+
+        case 'get_connection_health': {
+          send(
+            this.serializeResponseMessage(postInitMessage, this.getConnectionHealth(socket))
+          );
+          break;
+        }
+
+        case 'get_capabilities': {
+          send(
+            this.serializeResponseMessage(postInitMessage, this.getCapabilities())
+          );
+          break;
+        }
+
         case 'get_proxy_info': {
           const { noProxy, proxyHost, proxyPort, proxyProtocol, serverHost, serverPort, serverProtocol } = this.config.getConfig();
           if (noProxy && !this.config.isViteInstallation) {
-            socket.send(
+            send(
               this.serializeResponseMessage(postInitMessage, null)
             );
           }
-          socket.send(
+          send(
             this.serializeResponseMessage(postInitMessage, {
               serverUrl: `${serverProtocol}://${serverHost}:${serverPort}`,
               proxyUrl: `${proxyProtocol}://${proxyHost}:${proxyPort}`,
@@ -873,7 +1607,7 @@ export class WebSocketService {
           if (this.config.isViteInstallation) {
             this.config.fullReload();
           }
-          socket.send(
+          send(
             this.serializeResponseMessage(postInitMessage, {
               shouldModifyNextObjectCounter: this.config.shouldModifyNextObjectCounter
             })
@@ -882,22 +1616,26 @@ export class WebSocketService {
         }
 
         case 'lsp_request': {
-          const response = await this.lspWorkerManager.handleJsonRpc(postInitMessage.params);
-          socket.send(this.serializeResponseMessage(postInitMessage, response));
+          const response = await this.runCancellable(postInitMessage, socket, async (signal) =>
+            await this.lspWorkerManager.handleJsonRpc(postInitMessage.params, signal)
+          );
+          send(this.serializeResponseMessage(postInitMessage, response));
           break;
         }
 
         case 'open_files': {
           await this.lspWorkerManager.initializeOpenFiles(postInitMessage.params.files);
-          socket.send(
+          send(
             this.serializeResponseMessage(postInitMessage, {})
           );
           break;
         }
 
         case 'check_diagnostics': {
-          const result = await this.lspWorkerManager.checkDiagnostics(postInitMessage.params.files);
-          socket.send(
+          const result = await this.runCancellable(postInitMessage, socket, async (signal) =>
+            await this.lspWorkerManager.checkDiagnostics(postInitMessage.params.files, signal)
+          );
+          send(
             this.serializeResponseMessage(postInitMessage, result)
           );
           break;
@@ -906,36 +1644,192 @@ export class WebSocketService {
         case 'get_git_status': {
           if (this.hasHostClient()) {
             const result = await this.sendToHost(postInitMessage);
-            socket.send(
+            send(
               this.serializeResponseMessage(postInitMessage, result)
             );
           } else {
             const result = this.fileSystemApi.gitStatus();
-            socket.send(
+            send(
               this.serializeResponseMessage(postInitMessage, result)
             );
           }
           break;
         }
 
+        case 'git_diff': {
+          const { filePath, staged, contextLines } = postInitMessage.params;
+          const result = this.hasHostClient()
+            ? await this.sendToHost(postInitMessage)
+            : this.git.diff(filePath, staged, contextLines);
+          send(this.serializeResponseMessage(postInitMessage, result));
+          break;
+        }
+
+        case 'git_stage': {
+          const result = this.hasHostClient()
+            ? await this.sendToHost(postInitMessage)
+            : this.git.stage(postInitMessage.params.paths);
+          send(this.serializeResponseMessage(postInitMessage, result));
+          break;
+        }
+
+        case 'git_unstage': {
+          const result = this.hasHostClient()
+            ? await this.sendToHost(postInitMessage)
+            : this.git.unstage(postInitMessage.params.paths);
+          send(this.serializeResponseMessage(postInitMessage, result));
+          break;
+        }
+
+        case 'git_discard': {
+          // the host discards in its own checkout, which the local history cannot snapshot
+          if (this.hasHostClient()) {
+            send(this.serializeResponseMessage(postInitMessage, await this.sendToHost(postInitMessage)));
+            break;
+          }
+          // discarding overwrites the working copy, so keep the files it changes in the file history
+          const snapshots = this.git.listDiscardable(postInitMessage.params.paths).map(path => this.fileHistory.capture(path));
+          const result = this.git.discard(postInitMessage.params.paths);
+          if (result.success) {
+            this.fileHistory.record('git_discard', changeId, snapshots);
+          }
+          send(this.serializeResponseMessage(postInitMessage, result));
+          break;
+        }
+
+        case 'git_commit': {
+          const { message, amend } = postInitMessage.params;
+          const result = this.hasHostClient()
+            ? await this.sendToHost(postInitMessage)
+            : this.git.commit(message, amend);
+          send(this.serializeResponseMessage(postInitMessage, result));
+          break;
+        }
+
+        case 'git_show_file': {
+          const { filePath, ref, encoding } = postInitMessage.params;
+          const result = this.hasHostClient()
+            ? await this.sendToHost(postInitMessage)
+            : this.git.showFile(filePath, ref, encoding);
+          send(this.serializeResponseMessage(postInitMessage, result));
+          break;
+        }
+
+        case 'git_log_file': {
+          const { filePath, limit } = postInitMessage.params;
+          const result = this.hasHostClient()
+            ? await this.sendToHost(postInitMessage)
+            : this.git.logFile(filePath, limit);
+          send(this.serializeResponseMessage(postInitMessage, result));
+          break;
+        }
+
+        case 'git_blame': {
+          const { filePath, startLine, endLine } = postInitMessage.params;
+          const result = this.hasHostClient()
+            ? await this.sendToHost(postInitMessage)
+            : this.git.blame(filePath, startLine, endLine);
+          send(this.serializeResponseMessage(postInitMessage, result));
+          break;
+        }
+
+        case 'get_conflicts': {
+          const result = this.hasHostClient()
+            ? await this.sendToHost(postInitMessage)
+            : this.git.getConflicts(postInitMessage.params.filePath);
+          send(this.serializeResponseMessage(postInitMessage, result));
+          break;
+        }
+
+        case 'resolve_conflict': {
+          const { filePath, regionIndex, choice, customText } = postInitMessage.params;
+          if ((choice === undefined) === (customText === undefined)) {
+            send(this.serializeResponseMessage(postInitMessage, { success: false, error: 'Pass either choice or customText' }));
+            break;
+          }
+          if (this.hasHostClient()) {
+            send(this.serializeResponseMessage(postInitMessage, await this.sendToHost(postInitMessage)));
+            break;
+          }
+          const snapshot = this.fileHistory.capture(filePath);
+          const result = this.git.resolveConflict(filePath, regionIndex, choice ?? { text: customText! });
+          if (result.success) {
+            this.fileHistory.record('resolve_conflict', changeId, [snapshot]);
+          }
+          send(this.serializeResponseMessage(postInitMessage, result));
+          break;
+        }
+
         case 'search': {
-          const result = await this.ripgrepService.search(
-            postInitMessage.params.pattern,
-            postInitMessage.params.options
+          const result = await this.runCancellable(postInitMessage, socket, async (signal) =>
+            await this.ripgrepService.search(
+              postInitMessage.params.pattern,
+              postInitMessage.params.options,
+              signal
+            )
           );
-          socket.send(
+          send(
             this.serializeResponseMessage(postInitMessage, result)
           );
           break;
         }
 
+        case 'search_stream': {
+          const batchSize = Math.max(1, postInitMessage.params.batchSize ?? 100);
+          const summary = await this.runCancellable(postInitMessage, socket, async (signal) =>
+            await this.ripgrepService.searchStream(
+              postInitMessage.params.pattern,
+              postInitMessage.params.options ?? {},
+              {
+                onMatches: (root, matches) => {
+                  for (let i = 0; i < matches.length; i += batchSize) {
+                    const event: SearchStreamMatchesEvent = {
+                      event_name: 'search_stream_matches',
+                      message_id: postInitMessage.message_id,
+                      root,
+                      matches: matches.slice(i, i + batchSize)
+                    };
+                    socket.send(JSON.stringify(event));
+                  }
+                },
+                onRootComplete: (root, rootIndex, rootCount, matchCount) => {
+                  const event: SearchStreamProgressEvent = {
+                    event_name: 'search_stream_progress',
+                    message_id: postInitMessage.message_id,
+                    root,
+                    root_index: rootIndex,
+                    root_count: rootCount,
+                    match_count: matchCount
+                  };
+                  socket.send(JSON.stringify(event));
+                }
+              },
+              signal
+            )
+          );
+          send(
+            this.serializeResponseMessage(postInitMessage, summary)
+          );
+          break;
+        }
+
+        case 'cancel_request': {
+          const controller = this.inFlightRequests.get(socket)?.get(postInitMessage.params.message_id);
+          controller?.abort();
+          send(
+            this.serializeResponseMessage(postInitMessage, {
+              message_id: postInitMessage.params.message_id,
+              cancelled: controller !== undefined
+            })
+          );
+          break;
+        }
+
         case 'create_terminal_session': {
-          if (!this.verifyTerminalSecret(postInitMessage.params.secret)) {
-            return;
-          }
+          this.assertTerminalSecret(postInitMessage.params.secret);
           if (this.hasHostClient()) {
             const payload = await this.sendToHost(postInitMessage);
-            socket.send(this.serializeResponseMessage(postInitMessage, payload));
+            send(this.serializeResponseMessage(postInitMessage, payload));
           } else {
             const sessionId = this.terminalManager.createSession(
               process.platform === 'win32' ? 'cmd.exe' : process.env.SHELL || '/bin/zsh',
@@ -943,7 +1837,7 @@ export class WebSocketService {
               postInitMessage.params.cols || 80,
               postInitMessage.params.rows || 24
             );
-            socket.send(
+            send(
               this.serializeResponseMessage(postInitMessage, {
                 session_id: sessionId
               })
@@ -953,18 +1847,16 @@ export class WebSocketService {
         }
 
         case 'send_terminal_key_strokes': {
-          if (!this.verifyTerminalSecret(postInitMessage.params.secret)) {
-            return;
-          }
+          this.assertTerminalSecret(postInitMessage.params.secret);
           if (this.hasHostClient()) {
             const payload = await this.sendToHost(postInitMessage);
-            socket.send(this.serializeResponseMessage(postInitMessage, payload));
+            send(this.serializeResponseMessage(postInitMessage, payload));
           } else {
             this.terminalManager.write(
               postInitMessage.params.session_id,
               postInitMessage.params.data
             );
-            socket.send(
+            send(
               this.serializeResponseMessage(postInitMessage, null)
             );
           }
@@ -972,18 +1864,16 @@ export class WebSocketService {
         }
 
         case 'pull_terminal_changes': {
-          if (!this.verifyTerminalSecret(postInitMessage.params.secret)) {
-            return;
-          }
+          this.assertTerminalSecret(postInitMessage.params.secret);
           if (this.hasHostClient()) {
             const payload = await this.sendToHost(postInitMessage);
-            socket.send(this.serializeResponseMessage(postInitMessage, payload));
+            send(this.serializeResponseMessage(postInitMessage, payload));
           } else {
             const { logs, nextCursor } = this.terminalManager.getLogs(
               postInitMessage.params.session_id,
               postInitMessage.params.cursor
             );
-            socket.send(
+            send(
               this.serializeResponseMessage(postInitMessage, {
                 changes: logs,
                 new_cursor: nextCursor
@@ -994,15 +1884,13 @@ export class WebSocketService {
         }
 
         case 'kill_terminal_session': {
-          if (!this.verifyTerminalSecret(postInitMessage.params.secret)) {
-            return;
-          }
+          this.assertTerminalSecret(postInitMessage.params.secret);
           if (this.hasHostClient()) {
             const payload = await this.sendToHost(postInitMessage);
-            socket.send(this.serializeResponseMessage(postInitMessage, payload));
+            send(this.serializeResponseMessage(postInitMessage, payload));
           } else {
             this.terminalManager.kill(postInitMessage.params.session_id);
-            socket.send(
+            send(
               this.serializeResponseMessage(postInitMessage, null)
             );
           }
@@ -1010,15 +1898,13 @@ export class WebSocketService {
         }
 
         case 'fetch_terminal_sessions': {
-          if (!this.verifyTerminalSecret(postInitMessage.params.secret)) {
-            return;
-          }
+          this.assertTerminalSecret(postInitMessage.params.secret);
           if (this.hasHostClient()) {
             const payload = await this.sendToHost(postInitMessage);
-            socket.send(this.serializeResponseMessage(postInitMessage, payload));
+            send(this.serializeResponseMessage(postInitMessage, payload));
           } else {
             const sessions = this.terminalManager.getSessions();
-            socket.send(
+            send(
               this.serializeResponseMessage(postInitMessage, {
                 sessions
               })
@@ -1028,17 +1914,15 @@ export class WebSocketService {
         }
 
         case 'run_single_terminal_command': {
-          if (!this.verifyTerminalSecret(postInitMessage.params.secret)) {
-            return;
-          }
+          this.assertTerminalSecret(postInitMessage.params.secret);
           if (this.hasHostClient()) {
             const payload = await this.sendToHost(postInitMessage);
-            socket.send(this.serializeResponseMessage(postInitMessage, payload));
+            send(this.serializeResponseMessage(postInitMessage, payload));
           } else {
             const output = await this.terminalManager.runOneOffCommand(
               postInitMessage.params.command
             );
-            socket.send(
+            send(
               this.serializeResponseMessage(postInitMessage, {
                 output
               })
@@ -1050,7 +1934,7 @@ export class WebSocketService {
         case 'set_terminal_secret': {
           const terminalSecretPath = this.config.getTerminalSecretPath();
           if (this.fileSystemApi.exists(terminalSecretPath).exists) {
-            socket.send(
+            send(
               this.serializeResponseMessage(postInitMessage, {
                 success: false,
                 error: 'Terminal secret already set'
@@ -1063,14 +1947,14 @@ export class WebSocketService {
           const res = this.fileSystemApi.writeToFile(terminalSecretPath, postInitMessage.params.secret);
 
           if (!res.success) {
-            socket.send(
+            send(
               this.serializeResponseMessage(postInitMessage, {
                 success: false,
                 error: 'Failed to set terminal secret'
               })
             );
           } else {
-            socket.send(
+            send(
               this.serializeResponseMessage(postInitMessage, {
                 success: true
               })
@@ -1085,7 +1969,7 @@ export class WebSocketService {
           if (terminalSecretPath) {
             hasSecret = this.fileSystemApi.exists(terminalSecretPath).exists;
           }
-          socket.send(
+          send(
             this.serializeResponseMessage(postInitMessage, {
               hasSecret
             })
@@ -1095,7 +1979,7 @@ export class WebSocketService {
 
         case 'check_terminal_secret': {
           const isMatching = this.verifyTerminalSecret(postInitMessage.params.secret);
-          socket.send(
+          send(
             this.serializeResponseMessage(postInitMessage, {
               isMatching
             })
@@ -1104,10 +1988,120 @@ export class WebSocketService {
         }
       }
     } catch (err) {
-      this.logger.error(
-        `Failed to parse WebSocket message: ${err instanceof Error ? err.message : 'unknown error'
-        }`
-      );
+      const reason = err instanceof Error ? err.message : 'unknown error';
+
+      const code = err instanceof WebSocketRequestError ? err.code : 'HANDLER_FAILED';
+      if (code === 'HANDLER_FAILED') {
+        this.logger.error(`Failed to handle ${postInitMessage.event_name}: ${reason}`);
+      } else {
+        this.logger.warn(`Rejected ${postInitMessage.event_name} (${code}): ${reason}`);
+      }
+
+      const details = err instanceof WebSocketRequestError ? err.details : undefined;
+      send(this.serializeErrorMessage(postInitMessage, code, reason, details));
+    }
+  }
+
+  private handleHandshake (message: HandshakeMessage, socket: WebSocket): void {
+    const clientProtocolVersion = message.protocol_version;
+
+    // a newer client would assume events and payloads this server does not have
+    if (!Number.isInteger(clientProtocolVersion) ||
+      clientProtocolVersion < MIN_CLIENT_PROTOCOL_VERSION ||
+      clientProtocolVersion > PROTOCOL_VERSION) {
+      const reason = clientProtocolVersion > PROTOCOL_VERSION
+        ? `Client protocol version ${clientProtocolVersion} is newer than this server supports ` +
+          `(server speaks ${PROTOCOL_VERSION}); update the dev server`
+        : `Client protocol version ${String(clientProtocolVersion)} is not supported ` +
+          `(server speaks ${PROTOCOL_VERSION}, minimum ${MIN_CLIENT_PROTOCOL_VERSION})`;
+      this.logger.warn(`Handshake rejected: ${reason}`);
+
+      const rejection: HandshakeRejectedMessage = {
+        event_name: 'handshake_rejected',
+        code: 'UNSUPPORTED_PROTOCOL',
+        reason,
+        protocol_version: PROTOCOL_VERSION,
+        min_client_protocol_version: MIN_CLIENT_PROTOCOL_VERSION
+      };
+      socket.send(JSON.stringify(rejection));
+      socket.close(HANDSHAKE_REJECTED_CLOSE_CODE, 'Incompatible protocol version');
+      return;
+    }
+
+    this.clientHandshakes.set(socket, {
+      protocolVersion: clientProtocolVersion,
+      clientVersion: message.client_version
+    });
+    this.logger.debug(
+      `Handshake accepted (protocol ${clientProtocolVersion}, client ${message.client_version ?? 'unknown'})`
+    );
+
+    const ack: HandshakeAckMessage = {
+      event_name: 'handshake_ack',
+      protocol_version: PROTOCOL_VERSION,
+      server_version: VERSION,
+      capabilities: this.getCapabilities()
+    };
+    socket.send(JSON.stringify(ack));
+  }
+
+  getCapabilities (): ServerCapabilities {
+    const lspCapabilities = this.lspWorkerManager.getCapabilities();
+
+    return {
+      events: Array.from(signedEvents),
+      subsystems: {
+        terminal: this.terminalManager.isAvailable(),
+        eslint: lspCapabilities.eslint,
+        prettier: lspCapabilities.prettier,
+        tailwind: lspCapabilities.tailwind,
+        git: this.fileSystemApi.isGitAvailable(),
+        hostClient: this.hasHostClient()
+      },
+      limits: {
+        maxPayloadBytes: MAX_PAYLOAD_BYTES,
+        hostRequestTimeoutMs: HOST_REQUEST_TIMEOUT_MS,
+        lspRequestTimeoutMs: LSP_REQUEST_TIMEOUT_MS,
+        replayWindowMs: REPLAY_WINDOW_MS,
+        heartbeatIntervalMs: this.config.getConfig().heartbeatIntervalMs,
+        maxBatchSize: MAX_BATCH_SIZE,
+        maxChunkBytes: MAX_TRANSFER_CHUNK_BYTES
+      }
+    };
+  }
+
+  private async runCancellable<T> (
+    request: WebSocketPostInitMessage,
+    socket: WebSocket,
+    task: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    const controller = new AbortController();
+    let socketRequests = this.inFlightRequests.get(socket);
+    if (!socketRequests) {
+      socketRequests = new Map();
+      this.inFlightRequests.set(socket, socketRequests);
+    }
+    socketRequests.set(request.message_id, controller);
+
+    try {
+      const result = await task(controller.signal);
+      if (controller.signal.aborted) {
+        throw new WebSocketRequestError('CANCELLED', 'Request was cancelled');
+      }
+      return result;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new WebSocketRequestError('CANCELLED', 'Request was cancelled');
+      }
+      throw error;
+    } finally {
+      // a later request reusing the id owns the entry now
+      if (socketRequests.get(request.message_id) === controller) {
+        socketRequests.delete(request.message_id);
+      }
+      if (socketRequests.size === 0 && this.inFlightRequests.get(socket) === socketRequests) {
+        this.inFlightRequests.delete(socket);
+      }
     }
   }
 
@@ -1175,11 +2169,89 @@ export class WebSocketService {
     }
   }
 
+  private startHeartbeat (): void {
+    const { heartbeatIntervalMs } = this.config.getConfig();
+    if (!heartbeatIntervalMs || this.heartbeatTimer) return;
+
+    this.heartbeatTimer = setInterval(() => {
+      this.checkHeartbeats();
+    }, heartbeatIntervalMs);
+  }
+
+  // Terminates clients whose last ping went unanswered for longer than the timeout,
+  // and pings everyone else that is not already awaiting a pong
+  private checkHeartbeats (now: number = Date.now()): void {
+    const { heartbeatTimeoutMs } = this.config.getConfig();
+
+    this.clients.forEach((client) => {
+      const heartbeat = this.heartbeats.get(client);
+      if (!heartbeat || client.readyState !== WebSocket.OPEN) return;
+
+      const awaitingPong = heartbeat.lastPingAt !== null &&
+        (heartbeat.lastPongAt === null || heartbeat.lastPongAt < heartbeat.lastPingAt);
+
+      if (awaitingPong) {
+        if (now - heartbeat.lastPingAt! >= heartbeatTimeoutMs) {
+          this.logger.warn(`Terminating unresponsive ${client === this.hostClient ? 'host client' : 'WebSocket client'}`);
+          client.terminate();
+        }
+        return;
+      }
+
+      heartbeat.lastPingAt = now;
+      client.ping();
+    });
+  }
+
+  private recordPong (client: WebSocket, now: number = Date.now()): void {
+    const heartbeat = this.heartbeats.get(client);
+    if (!heartbeat) return;
+
+    heartbeat.lastPongAt = now;
+    if (heartbeat.lastPingAt !== null) {
+      heartbeat.rttMs = now - heartbeat.lastPingAt;
+    }
+  }
+
+  private handleHostDisconnected (): void {
+    this.hostClient = null;
+
+    for (const [requestUuid, pending] of this.pendingHostRequests.entries()) {
+      clearTimeout(pending.timeout);
+      pending.reject(new WebSocketRequestError('HOST_UNAVAILABLE', 'Host client disconnected'));
+      this.pendingHostRequests.delete(requestUuid);
+    }
+
+    this.broadcast(JSON.stringify({
+      event_name: 'host_disconnected'
+    }));
+  }
+
+  getConnectionHealth (client: WebSocket): EventPayloadMap['get_connection_health'] {
+    const { heartbeatIntervalMs, heartbeatTimeoutMs } = this.config.getConfig();
+    const toHealth = (socket: WebSocket): ConnectionHealth => {
+      const heartbeat = this.heartbeats.get(socket);
+      return {
+        last_pong_at: heartbeat?.lastPongAt ?? null,
+        rtt_ms: heartbeat?.rttMs ?? null
+      };
+    };
+
+    return {
+      client: toHealth(client),
+      host: this.hostClient
+        ? { connected: this.hasHostClient(), ...toHealth(this.hostClient) }
+        : null,
+      heartbeat_interval_ms: heartbeatIntervalMs,
+      heartbeat_timeout_ms: heartbeatTimeoutMs
+    };
+  }
+
   private async sendToHost<K extends ForwardableEvents>(
     request: WebSocketInboundRequest<K>
   ): Promise<EventPayloadMap[K]> {
     if (!this.hostClient || this.hostClient.readyState !== WebSocket.OPEN) {
-      throw new Error('Host client not available');
+      throw new WebSocketRequestError('HOST_UNAVAILABLE', 'Host client not available');
     }
 
     return await new Promise<EventPayloadMap[K]>((resolve, reject) => {
@@ -1187,8 +2259,8 @@ export class WebSocketService {
 
       const timeout = setTimeout(() => {
         this.pendingHostRequests.delete(requestUuid);
-        reject(new Error('Host request timeout (10s)'));
-      }, 10000);
+        reject(new WebSocketRequestError('HOST_UNAVAILABLE', `Host request timeout (${HOST_REQUEST_TIMEOUT_MS / 1000}s)`));
+      }, HOST_REQUEST_TIMEOUT_MS);
 
       this.pendingHostRequests.set(requestUuid, {
         resolve,
@@ -1221,6 +2293,15 @@ export class WebSocketService {
     clearTimeout(pending.timeout);
     this.pendingHostRequests.delete(message.request_uuid);
 
+    if ('error' in message.wrapped_response) {
+      pending.reject(new WebSocketRequestError(
+        message.wrapped_response.error.code,
+        message.wrapped_response.error.message
+      ));
+      this.logger.debug(`Host request ${message.request_uuid} failed: ${message.wrapped_response.error.message}`);
+      return;
+    }
+
     pending.resolve(message.wrapped_response.payload);
     this.logger.debug(`Completed host request ${message.request_uuid}`);
   }
@@ -1239,6 +2320,32 @@ export class WebSocketService {
     return JSON.stringify(msg);
   }
 
+  private serializeErrorMessage<
+    K extends keyof RequestParamMap,
+  >(
+    req: Pick<WebSocketInboundRequest<K>, 'event_name' | 'message_id'>,
+    code: WebSocketErrorCode,
+    message: string,
+    details?: SchemaIssue[]
+  ): string {
+    return JSON.stringify(this.createErrorResponse(req, code, message, details));
+  }
+
+  private createErrorResponse<
+    K extends keyof RequestParamMap,
+  >(
+    req: Pick<WebSocketInboundRequest<K>, 'event_name' | 'message_id'>,
+    code: WebSocketErrorCode,
+    message: string,
+    details?: SchemaIssue[]
+  ): WebSocketErrorResponseEvent<K> {
+    return {
+      message_id: req.message_id,
+      event_response: req.event_name,
+      error: details ? { code, message, details } : { code, message }
+    };
+  }
+
   private handleKeyRegistered (message: { event_name: 'key_registered', uuid: string, [key: string]: any }, socket: WebSocket): void {
     if (!message.uuid) {
       this.logger.error('Key registered event missing UUID');
@@ -1264,6 +2371,32 @@ export class WebSocketService {
     });
   }
 
+  // Sends a topic event only to clients subscribed to it, narrowed to their filters
+  private publish (event: TopicBroadcastEvent): void {
+    const message = JSON.stringify(event);
+    this.clients.forEach((c) => {
+      if (c.readyState !== WebSocket.OPEN) return;
+      const selected = this.subscriptions.select(c, event);
+      if (selected === null) return;
+      c.send(selected === event ? message : JSON.stringify(selected));
+    });
+  }
+
+  private relayHostBroadcast (wrappedBroadcast: string): void {
+    let event: { event_name?: unknown } | null = null;
+    try {
+      event = JSON.parse(wrappedBroadcast);
+    } catch {
+      // not JSON; relay as-is
+    }
+
+    if (event && isTopicBroadcastEvent(event)) {
+      this.publish(event);
+    } else {
+      this.broadcast(wrappedBroadcast);
+    }
+  }
+
   public broadcastKeyReady () {
     this.broadcast(JSON.stringify({
       event_name: 'key_ready'
@@ -1271,21 +2404,13 @@ export class WebSocketService {
   }
 
   public broadcastUnixConnectionsChanged () {
-    this.broadcast(this.getUnixClientInfoEvent());
-  }
-
-  private getUnixClientInfoEvent () {
-    return JSON.stringify({
+    this.publish({
       event_name: 'updated_unix_client_info'
     });
   }
 
   public broadcastProjectInfoChanged (fileChanges: FileChangeEvent[]) {
-    this.broadcast(this.getProjectInfo(fileChanges));
-  }
-
-  private getProjectInfo (fileChanges: FileChangeEvent[]) {
-    return JSON.stringify({
+    this.publish({
       event_name: 'updated_project_info',
       file_changes: fileChanges ?? []
     });
@@ -1329,6 +2454,90 @@ export class WebSocketService {
     };
   }
 
+  // Each item is a complete signed request and goes through the same verification as a
+  // top-level message. With stopOnError, sequential batches skip the remaining items and
+  // parallel batches cancel the items still in flight.
+  private async runBatch (
+    batch: WebSocketInboundRequest<'batch'>,
+    socket: WebSocket
+  ): Promise<BatchItemResponse[]> {
+    const { requests, mode = 'sequential', stopOnError = false } = batch.params;
+    const responses: BatchItemResponse[] = new Array(requests.length);
+    let failed = false;
+
+    const runItem = async (request: WebSocketPostInitMessage, index: number): Promise<void> => {
+      if (failed && stopOnError) {
+        responses[index] = this.createErrorResponse(request, 'SKIPPED', 'Skipped after an earlier batch item failed');
+        return;
+      }
+
+      const response = await this.runBatchItem(request, socket, batch.message_id);
+      responses[index] = response;
+
+      if (isFailedBatchItem(response)) {
+        failed = true;
+        if (stopOnError && mode === 'parallel') {
+          requests.forEach((sibling) => { this.inFlightRequests.get(socket)?.get(sibling.message_id)?.abort(); });
+        }
+      }
+    };
+
+    if (mode === 'parallel') {
+      await Promise.all(requests.map(runItem));
+    } else {
+      for (const [index, request] of requests.entries()) {
+        await runItem(request, index);
+      }
+    }
+
+    return responses;
+  }
+
+  private async runBatchItem (request: WebSocketPostInitMessage, socket: WebSocket, changeId: string): Promise<BatchItemResponse> {
+    if (request.event_name === 'batch') {
+      return this.createErrorResponse(request, 'INVALID_PARAMS', 'Batches cannot be nested');
+    }
+
+    let response: BatchItemResponse | null = null;
+    await this.handleRequest(request, socket, (message) => {
+      response = JSON.parse(message);
+    }, changeId);
+
+    return response ?? {
+      event_response: request.event_name as Exclude<keyof RequestParamMap, keyof EventPayloadMap>,
+      message_id: request.message_id,
+      payload: null
+    };
+  }
+
+  private assertNotReplayed (request: WebSocketPostInitMessage, socket: WebSocket, isReplayProtected: boolean): void {
+    if (!isReplayProtected && !this.acceptsLegacySignatures(socket)) {
+      throw new WebSocketRequestError(
+        'INVALID_SIGNATURE',
+        'Signed messages must include a nonce and timestamp'
+      );
+    }
+
+    const result = this.replayGuard.check(
+      request.message_id,
+      isReplayProtected ? request.timestamp : undefined,
+      isReplayProtected ? request.nonce : undefined
+    );
+    if (!result.accepted) {
+      throw new WebSocketRequestError(result.code, result.reason);
+    }
+  }
+
+  // Clients predating replay protection sign only {event_name, params, message_id}. They are
+  // still deduplicated by message_id, but cannot be checked for staleness.
+  private acceptsLegacySignatures (socket: WebSocket): boolean {
+    if (this.config.getConfig().requireReplayProtection) {
+      return false;
+    }
+    const handshake = this.clientHandshakes.get(socket);
+    return !handshake || handshake.protocolVersion < REPLAY_PROTECTED_PROTOCOL_VERSION;
+  }
+
   private verifyTerminalSecret (secret: string): boolean {
     const terminalSecretPath = this.config.getTerminalSecretPath();
     if (!terminalSecretPath) return false;
@@ -1338,4 +2547,10 @@ export class WebSocketService {
 
     return result.data.trim() === secret.trim();
   }
+
+  private assertTerminalSecret (secret: string): void {
+    if (!this.verifyTerminalSecret(secret)) {
+      throw new WebSocketRequestError('TERMINAL_SECRET_MISMATCH', 'Terminal secret does not match');
+    }
+  }
 }
@@ -1,3 +1,5 @@
+import type { FileAccessRules } from '../utils/file-access-policy';
+
 export interface JSXToolConfig {
   serverPort: number
   serverHost: string
@@ -20,6 +22,16 @@ export interface JSXToolConfig {
 
   insecure?: boolean
   logging?: boolean
+  requireReplayProtection?: boolean
+
+  heartbeatIntervalMs: number
+  heartbeatTimeoutMs: number
+
+  historyMaxBytes: number
+  historyMaxAgeMs: number
+
+  // allow/deny globs layered over DEFAULT_FILE_ACCESS_RULES
+  fileAccess?: FileAccessRules
 }
 
 export const DEFAULT_CONFIG: JSXToolConfig = {
@@ -40,5 +52,11 @@ export const DEFAULT_CONFIG: JSXToolConfig = {
   nodeModulesDir: undefined,
   debug: false,
   logging: false,
-  injectAt: '</head>'
+  injectAt: '</head>',
+
+  heartbeatIntervalMs: 15000,
+  heartbeatTimeoutMs: 30000,
+
+  historyMaxBytes: 50 * 1024 * 1024,
+  historyMaxAgeMs: 7 * 24 * 60 * 60 * 1000
 };
@@ -0,0 +1,108 @@
+// Parsing and resolving the conflict markers git writes into a file during a merge, rebase or
+// cherry-pick, including the base section of the diff3 and zdiff3 conflict styles.
+export interface ConflictRegion {
+  index: number
+  // 1-based lines of the <<<<<<< and >>>>>>> markers
+  startLine: number
+  endLine: number
+  // the labels after the markers, e.g. "HEAD" and the merged branch
+  oursLabel: string
+  theirsLabel: string
+  ours: string
+  theirs: string
+  // only with the diff3 and zdiff3 conflict styles
+  base?: string
+}
+
+export type ConflictChoice = 'ours' | 'theirs' | 'both' | 'base';
+
+const OURS_MARKER = /^<{7}(?: (.*))?$/;
+const BASE_MARKER = /^\|{7}(?: .*)?$/;
+const SEPARATOR = /^={7}$/;
+const THEIRS_MARKER = /^>{7}(?: (.*))?$/;
+
+interface RegionLines {
+  startLine: number
+  endLine: number
+  oursLabel: string
+  theirsLabel: string
+  ours: string[]
+  base?: string[]
+  theirs: string[]
+}
+
+export function parseConflicts (content: string): ConflictRegion[] {
+  return findRegions(content.split('\n')).map((region, index) => ({
+    index,
+    startLine: region.startLine,
+    endLine: region.endLine,
+    oursLabel: region.oursLabel,
+    theirsLabel: region.theirsLabel,
+    ours: joinLines(region.ours),
+    theirs: joinLines(region.theirs),
+    ...(region.base ? { base: joinLines(region.base) } : {})
+  }));
+}
+
+// Replaces one region, markers included, with the chosen side or with custom text
+export function resolveConflictRegion (content: string, regionIndex: number, resolution: ConflictChoice | { text: string }): string {
+  const lines = content.split('\n');
+  const region = findRegions(lines)[regionIndex];
+  if (!region) {
+    throw new Error(`Conflict region ${regionIndex} does not exist`);
+  }
+
+  let replacement: string[];
+  if (typeof resolution === 'object') {
+    replacement = resolution.text === '' ? [] : resolution.text.replace(/\r?\n$/, '').split('\n');
+  } else if (resolution === 'base') {
+    if (!region.base) {
+      throw new Error('The conflict has no base section; enable the diff3 conflict style to resolve to the base');
+    }
+    replacement = region.base;
+  } else {
+    replacement = {
+      ours: region.ours,
+      theirs: region.theirs,
+      both: [...region.ours, ...region.theirs]
+    }[resolution];
+  }
+
+  lines.splice(region.startLine - 1, region.endLine - region.startLine + 1, ...replacement);
+  return lines.join('\n');
+}
+
+function findRegions (lines: string[]): RegionLines[] {
+  const regions: RegionLines[] = [];
+  let current: (RegionLines & { section: 'ours' | 'base' | 'theirs' }) | null = null;
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.replace(/\r$/, '');
+    const ours = OURS_MARKER.exec(line);
+    if (ours) {
+      // an unterminated region is not a conflict; start over from the newer marker
+      current = { startLine: index + 1, endLine: 0, oursLabel: ours[1] ?? '', theirsLabel: '', ours: [], theirs: [], section: 'ours' };
+      return;
+    }
+    if (!current) return;
+
+    if (current.section === 'ours' && BASE_MARKER.test(line)) {
+      current.base = [];
+      current.section = 'base';
+    } else if (current.section !== 'theirs' && SEPARATOR.test(line)) {
+      current.section = 'theirs';
+    } else if (current.section === 'theirs' && THEIRS_MARKER.test(line)) {
+      const { section: _section, ...region } = current;
+      regions.push({ ...region, endLine: index + 1, theirsLabel: THEIRS_MARKER.exec(line)?.[1] ?? '' });
+      current = null;
+    } else {
+      (current.section === 'base' ? current.base! : current[current.section]).push(rawLine);
+    }
+  });
+
+  return regions;
+}
+
+function joinLines (lines: string[]): string {
+  return lines.length === 0 ? '' : `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,56 @@
+import { matchesGlob, toPosixPath } from './glob';
+
+export interface FileAccessRules {
+  allow?: string[]
+  deny?: string[]
+}
+
+export type FileAccessDecision =
+  | { allowed: true }
+  // `rule` is the deny glob that matched; without it the file simply matched no allow glob
+  | { allowed: false, rule?: string };
+
+export const DEFAULT_FILE_ACCESS_RULES: Required<FileAccessRules> = {
+  allow: [
+    '*.{js,jsx,ts,tsx,mjs,cjs,mts,cts}',
+    '*.{json,jsonc,json5,xml,html,htm}',
+    '*.{css,scss,sass,less,styl,pcss}',
+    '*.{vue,svelte,astro,mdx,graphql,gql,prisma}',
+    '*.{png,jpg,jpeg,gif,webp,avif,svg,ico}',
+    '*.{woff,woff2,ttf,otf,eot}',
+    '*.{mp4,webm,ogg,mp3,wav}',
+    '*.{txt,md,yml,yaml,toml,map}',
+    '.*'
+  ],
+  deny: [
+    '.env*',
+    '*.pem',
+    '*.key',
+    '*.p12',
+    '*.pfx',
+    'id_rsa*',
+    'id_dsa*',
+    'id_ecdsa*',
+    'id_ed25519*',
+    '.npmrc',
+    '.netrc'
+  ]
+};
+
+// Rules are matched case-insensitively against the path relative to its project root.
+// Precedence: configured deny, configured allow, default deny, default allow. So a project can
+// re-allow a file the defaults deny (e.g. `.env.example`) but never loses the defaults by adding rules.
+export function checkFileAccess (relativePath: string, rules: FileAccessRules = {}): FileAccessDecision {
+  const path = toPosixPath(relativePath).toLowerCase();
+  const firstMatch = (globs: string[] = []) => globs.find(glob => matchesGlob(path, glob.toLowerCase()));
+
+  const configuredDeny = firstMatch(rules.deny);
+  if (configuredDeny) return { allowed: false, rule: configuredDeny };
+  if (firstMatch(rules.allow)) return { allowed: true };
+
+  const defaultDeny = firstMatch(DEFAULT_FILE_ACCESS_RULES.deny);
+  if (defaultDeny) return { allowed: false, rule: defaultDeny };
+  if (firstMatch(DEFAULT_FILE_ACCESS_RULES.allow)) return { allowed: true };
+
+  return { allowed: false };
+}
@@ -0,0 +1,72 @@
+import { closeSync, openSync, readSync } from 'fs';
+import { createHash } from 'crypto';
+
+// Helpers that walk a file in fixed-size blocks, so large files never have to fit in memory
+const BLOCK_BYTES = 64 * 1024;
+const NEWLINE = 0x0a;
+
+// Calls `visit` with each block and its byte position until the file ends or `visit` returns false
+export function forEachBlock (absolutePath: string, visit: (block: Buffer, position: number) => boolean | undefined): void {
+  const buffer = Buffer.alloc(BLOCK_BYTES);
+  const fd = openSync(absolutePath, 'r');
+  try {
+    let position = 0;
+    let bytesRead: number;
+    while ((bytesRead = readSync(fd, buffer, 0, buffer.length, position)) > 0) {
+      if (visit(buffer.subarray(0, bytesRead), position) === false) break;
+      position += bytesRead;
+    }
+  } finally {
+    closeSync(fd);
+  }
+}
+
+// sha256 of the raw bytes; equals hashContent() of the file read in any lossless encoding
+export function hashFile (absolutePath: string): string {
+  const hash = createHash('sha256');
+  forEachBlock(absolutePath, block => { hash.update(block); return undefined; });
+  return hash.digest('hex');
+}
+
+export function readBytes (absolutePath: string, position: number, length: number): Buffer {
+  const buffer = Buffer.alloc(Math.max(length, 0));
+  if (buffer.length === 0) return buffer;
+
+  const fd = openSync(absolutePath, 'r');
+  try {
+    return buffer.subarray(0, readSync(fd, buffer, 0, buffer.length, position));
+  } finally {
+    closeSync(fd);
+  }
+}
+
+// Finds the byte span of 1-based lines startLine..endLine (inclusive, with the trailing newline) and counts
+// every line in the file. A final line without a newline still counts; an empty file has no lines.
+export function locateLines (
+  absolutePath: string,
+  startLine: number,
+  endLine: number
+): { totalLines: number, startByte: number, endByte: number } {
+  let newlines = 0;
+  let size = 0;
+  let lastByte = NEWLINE;
+  let startByte = startLine <= 1 ? 0 : -1;
+  let endByte = -1;
+
+  forEachBlock(absolutePath, (block, position) => {
+    for (let index = block.indexOf(NEWLINE); index !== -1; index = block.indexOf(NEWLINE, index + 1)) {
+      newlines++;
+      if (newlines === startLine - 1) startByte = position + index + 1;
+      if (newlines === endLine) endByte = position + index + 1;
+    }
+    size = position + block.length;
+    lastByte = block[block.length - 1];
+    return undefined;
+  });
+
+  return {
+    totalLines: newlines + (lastByte !== NEWLINE ? 1 : 0),
+    startByte: startByte === -1 ? size : startByte,
+    endByte: endByte === -1 ? size : endByte
+  };
+}
@@ -0,0 +1,69 @@
+// Small glob matcher supporting `*`, `**`, `?`, `[...]` and `{a,b}`. Paths use `/` separators.
+const cache = new Map<string, RegExp>();
+
+export function globToRegExp (glob: string): RegExp {
+  const cached = cache.get(glob);
+  if (cached) return cached;
+
+  let source = '';
+  let inGroup = false;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const atSegmentStart = i === 0 || glob[i - 1] === '/';
+        if (atSegmentStart && glob[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const body = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+        source += body.startsWith('!') ? `[^${body.slice(1)}]` : `[${body}]`;
+        i = end;
+      }
+    } else if (char === '{' && !inGroup) {
+      inGroup = true;
+      source += '(?:';
+    } else if (char === '}' && inGroup) {
+      inGroup = false;
+      source += ')';
+    } else if (char === ',' && inGroup) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|\\{}]/g, '\\$&');
+    }
+  }
+
+  const regex = new RegExp(`^${source}$`);
+  cache.set(glob, regex);
+  return regex;
+}
+
+export function toPosixPath (path: string): string {
+  return path.replace(/\\/g, '/');
+}
+
+// Globs without a `/` match against the basename, so `*.tsx` matches files in any directory
+export function matchesGlob (path: string, glob: string): boolean {
+  const normalized = toPosixPath(path);
+  const target = glob.includes('/') ? normalized : normalized.slice(normalized.lastIndexOf('/') + 1);
+  return globToRegExp(glob).test(target);
+}
+
+export function matchesAnyGlob (path: string, globs: string[]): boolean {
+  return globs.some(glob => matchesGlob(path, glob));
+}
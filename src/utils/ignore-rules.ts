@@ -0,0 +1,124 @@
+import { existsSync, readFileSync, statSync } from 'fs';
+import { dirname, join, relative, sep } from 'path';
+import { globToRegExp, toPosixPath } from './glob';
+
+export const IGNORE_FILE_NAMES = ['.gitignore', '.jsxtoolignore'];
+
+interface IgnoreRule {
+  regex: RegExp
+  negated: boolean
+  directoryOnly: boolean
+}
+
+// Parses .gitignore syntax: comments, `!` negations, trailing `/` for directories, and patterns
+// anchored to the ignore file's directory when they contain a `/` anywhere but the end
+export function parseIgnoreRules (content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (line === '' || line.startsWith('#')) continue;
+
+    const negated = line.startsWith('!');
+    if (negated) line = line.slice(1);
+    if (line.startsWith('\\#') || line.startsWith('\\!')) line = line.slice(1);
+
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) line = line.slice(0, -1);
+    if (line === '') continue;
+
+    const anchored = line.includes('/');
+    const glob = anchored ? line.replace(/^\//, '') : `**/${line}`;
+    rules.push({ regex: globToRegExp(glob), negated, directoryOnly });
+  }
+
+  return rules;
+}
+
+// Answers whether a path under `root` is ignored by the .gitignore and .jsxtoolignore files between
+// the root and the path. Ignore files are read once per directory; call reset() when one changes.
+export class IgnoreMatcher {
+  private readonly rulesByDir = new Map<string, IgnoreRule[]>();
+  private readonly ignoredDirs = new Map<string, boolean>();
+
+  constructor (private readonly root: string) {}
+
+  isIgnored (absolutePath: string, isDirectory?: boolean): boolean {
+    const relativePath = relative(this.root, absolutePath);
+    if (relativePath === '' || relativePath.startsWith('..')) {
+      return false;
+    }
+
+    // git never tracks its own directory, and nothing below an ignored directory can be re-included
+    const segments = relativePath.split(sep);
+    if (segments.includes('.git')) {
+      return true;
+    }
+    if (segments.length > 1 && this.isDirectoryIgnored(dirname(absolutePath))) {
+      return true;
+    }
+
+    const directory = isDirectory ?? isExistingDirectory(absolutePath);
+    return directory ? this.isDirectoryIgnored(absolutePath) : this.matches(absolutePath, false);
+  }
+
+  reset (): void {
+    this.rulesByDir.clear();
+    this.ignoredDirs.clear();
+  }
+
+  private isDirectoryIgnored (absolutePath: string): boolean {
+    if (absolutePath === this.root || relative(this.root, absolutePath).startsWith('..')) {
+      return false;
+    }
+
+    let ignored = this.ignoredDirs.get(absolutePath);
+    if (ignored === undefined) {
+      ignored = this.isDirectoryIgnored(dirname(absolutePath)) || this.matches(absolutePath, true);
+      this.ignoredDirs.set(absolutePath, ignored);
+    }
+    return ignored;
+  }
+
+  // Rules from deeper ignore files come later, and the last matching rule wins
+  private matches (absolutePath: string, isDirectory: boolean): boolean {
+    for (let dir = dirname(absolutePath); ; dir = dirname(dir)) {
+      const rulePath = toPosixPath(relative(dir, absolutePath));
+      const rules = this.getRules(dir);
+      for (let i = rules.length - 1; i >= 0; i--) {
+        const rule = rules[i];
+        if ((!rule.directoryOnly || isDirectory) && rule.regex.test(rulePath)) {
+          return !rule.negated;
+        }
+      }
+      if (dir === this.root || dir === dirname(dir)) break;
+    }
+
+    return false;
+  }
+
+  private getRules (dir: string): IgnoreRule[] {
+    let rules = this.rulesByDir.get(dir);
+    if (!rules) {
+      rules = IGNORE_FILE_NAMES.flatMap(name => {
+        const ignoreFile = join(dir, name);
+        try {
+          return existsSync(ignoreFile) ? parseIgnoreRules(readFileSync(ignoreFile, 'utf8')) : [];
+        } catch {
+          return [];
+        }
+      });
+      this.rulesByDir.set(dir, rules);
+    }
+    return rules;
+  }
+}
+
+// A path that no longer exists is matched as a file; its parent directories are still checked
+function isExistingDirectory (absolutePath: string): boolean {
+  try {
+    return statSync(absolutePath).isDirectory();
+  } catch {
+    return false;
+  }
+}
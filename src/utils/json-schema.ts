@@ -0,0 +1,117 @@
+// Minimal JSON Schema (draft-07 subset) used to validate inbound WebSocket params.
+// Schemas written with this type are plain JSON Schema and can be published as-is.
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[]
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean
+  items?: JsonSchema
+  maxItems?: number
+  enum?: Array<string | number | boolean | null>
+  const?: string | number | boolean | null
+  anyOf?: JsonSchema[]
+  minimum?: number
+  minLength?: number
+  description?: string
+}
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface SchemaIssue {
+  path: string
+  message: string
+}
+
+function typeOf (value: unknown): JsonSchemaType | 'undefined' {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  if (typeof value === 'string' || typeof value === 'boolean' || typeof value === 'object') {
+    return typeof value as JsonSchemaType;
+  }
+  return 'undefined';
+}
+
+function matchesType (actual: JsonSchemaType | 'undefined', expected: JsonSchemaType): boolean {
+  return actual === expected || (expected === 'number' && actual === 'integer');
+}
+
+function describe (value: unknown): string {
+  const type = typeOf(value);
+  return type === 'integer' ? 'number' : type;
+}
+
+export function validateSchema (schema: JsonSchema, value: unknown, path: string): SchemaIssue[] {
+  if (schema.anyOf) {
+    const branches = schema.anyOf.map(branch => validateSchema(branch, value, path));
+    if (branches.some(issues => issues.length === 0)) {
+      return [];
+    }
+    // Prefer a branch whose type matched and failed deeper, so nested field errors surface
+    const nested = branches.filter(issues => issues.some(issue => issue.path !== path));
+    if (nested.length > 0) {
+      return nested.reduce((best, issues) => issues.length < best.length ? issues : best);
+    }
+    return [{ path, message: branches.map(issues => issues[0].message).join('; ') }];
+  }
+
+  if (schema.type) {
+    const expected = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const actual = typeOf(value);
+    if (!expected.some(type => matchesType(actual, type))) {
+      return [{ path, message: `Expected ${expected.join(' or ')}, received ${describe(value)}` }];
+    }
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    return [{ path, message: `Expected ${JSON.stringify(schema.const)}` }];
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean | null)) {
+    return [{ path, message: `Expected one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}` }];
+  }
+
+  const issues: SchemaIssue[] = [];
+
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    issues.push({ path, message: `Must be >= ${schema.minimum}` });
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    issues.push({ path, message: `Must be at least ${schema.minLength} characters` });
+  }
+
+  if (Array.isArray(value) && schema.maxItems !== undefined && value.length > schema.maxItems) {
+    issues.push({ path, message: `Must contain at most ${schema.maxItems} items` });
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    const items = schema.items;
+    value.forEach((item, index) => {
+      issues.push(...validateSchema(items, item, `${path}[${index}]`));
+    });
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) {
+        issues.push({ path: `${path}.${key}`, message: 'Required' });
+      }
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+      if (record[key] !== undefined) {
+        issues.push(...validateSchema(propertySchema, record[key], `${path}.${key}`));
+      }
+    }
+    if (schema.additionalProperties === false) {
+      for (const key of Object.keys(record)) {
+        if (!schema.properties || !(key in schema.properties)) {
+          issues.push({ path: `${path}.${key}`, message: 'Unknown property' });
+        }
+      }
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,169 @@
+import { extname } from 'path';
+
+export interface ImageDimensions {
+  width: number
+  height: number
+}
+
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.cjs': 'text/javascript',
+  '.jsx': 'text/javascript',
+  '.ts': 'text/typescript',
+  '.mts': 'text/typescript',
+  '.cts': 'text/typescript',
+  '.tsx': 'text/typescript',
+  '.json': 'application/json',
+  '.map': 'application/json',
+  '.xml': 'application/xml',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.css': 'text/css',
+  '.scss': 'text/x-scss',
+  '.sass': 'text/x-sass',
+  '.less': 'text/x-less',
+  '.md': 'text/markdown',
+  '.mdx': 'text/markdown',
+  '.txt': 'text/plain',
+  '.yml': 'application/yaml',
+  '.yaml': 'application/yaml',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.ico': 'image/x-icon',
+  '.bmp': 'image/bmp',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'font/ttf',
+  '.otf': 'font/otf',
+  '.eot': 'application/vnd.ms-fontobject',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.ogg': 'audio/ogg',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav'
+};
+
+// For binary extensions the magic number wins, so a renamed asset still reports what it contains
+const SIGNATURES: Array<{ mimeType: string, bytes: Array<number | null>, offset?: number }> = [
+  { mimeType: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimeType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { mimeType: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { mimeType: 'image/webp', bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50] },
+  { mimeType: 'audio/wav', bytes: [0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x41, 0x56, 0x45] },
+  { mimeType: 'image/avif', bytes: [0x66, 0x74, 0x79, 0x70, 0x61, 0x76, 0x69, 0x66], offset: 4 },
+  { mimeType: 'image/bmp', bytes: [0x42, 0x4d] },
+  { mimeType: 'image/x-icon', bytes: [0x00, 0x00, 0x01, 0x00] },
+  { mimeType: 'font/woff', bytes: [0x77, 0x4f, 0x46, 0x46] },
+  { mimeType: 'font/woff2', bytes: [0x77, 0x4f, 0x46, 0x32] },
+  { mimeType: 'font/otf', bytes: [0x4f, 0x54, 0x54, 0x4f] },
+  { mimeType: 'font/ttf', bytes: [0x00, 0x01, 0x00, 0x00, 0x00] },
+  { mimeType: 'video/webm', bytes: [0x1a, 0x45, 0xdf, 0xa3] },
+  { mimeType: 'audio/ogg', bytes: [0x4f, 0x67, 0x67, 0x53] },
+  { mimeType: 'audio/mpeg', bytes: [0x49, 0x44, 0x33] },
+  { mimeType: 'video/mp4', bytes: [0x66, 0x74, 0x79, 0x70], offset: 4 }
+];
+
+export function detectMimeType (filePath: string, head: Buffer): string {
+  const byExtension = MIME_TYPES_BY_EXTENSION[extname(filePath).toLowerCase()] as string | undefined;
+  if (byExtension && isTextMimeType(byExtension)) {
+    return byExtension;
+  }
+
+  const signature = SIGNATURES.find(({ bytes, offset = 0 }) =>
+    head.length >= offset + bytes.length && bytes.every((byte, i) => byte === null || head[offset + i] === byte)
+  );
+  if (signature) {
+    return signature.mimeType;
+  }
+
+  return byExtension ??
+    (head.subarray(0, 8000).includes(0) ? 'application/octet-stream' : 'text/plain');
+}
+
+export function isTextMimeType (mimeType: string): boolean {
+  return mimeType.startsWith('text/') || mimeType === 'image/svg+xml' ||
+    ['application/json', 'application/xml', 'application/yaml'].includes(mimeType);
+}
+
+// Reads the size from the image header; `bytes` only needs to hold the start of the file, except for JPEG
+// where the size frame can come after large metadata blocks
+export function getImageDimensions (bytes: Buffer, mimeType: string): ImageDimensions | undefined {
+  try {
+    switch (mimeType) {
+      case 'image/png':
+        return bytes.length >= 24 ? { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) } : undefined;
+      case 'image/gif':
+        return bytes.length >= 10 ? { width: bytes.readUInt16LE(6), height: bytes.readUInt16LE(8) } : undefined;
+      case 'image/bmp':
+        return bytes.length >= 26 ? { width: bytes.readInt32LE(18), height: Math.abs(bytes.readInt32LE(22)) } : undefined;
+      case 'image/x-icon':
+        // 0 means 256 in the first directory entry
+        return bytes.length >= 8 ? { width: bytes[6] || 256, height: bytes[7] || 256 } : undefined;
+      case 'image/webp':
+        return getWebpDimensions(bytes);
+      case 'image/jpeg':
+        return getJpegDimensions(bytes);
+      case 'image/svg+xml':
+        return getSvgDimensions(bytes.toString('utf8'));
+      default:
+        return undefined;
+    }
+  } catch {
+    return undefined;
+  }
+}
+
+function getWebpDimensions (bytes: Buffer): ImageDimensions | undefined {
+  const chunk = bytes.toString('ascii', 12, 16);
+  if (chunk === 'VP8 ' && bytes.length >= 30) {
+    return { width: bytes.readUInt16LE(26) & 0x3fff, height: bytes.readUInt16LE(28) & 0x3fff };
+  }
+  if (chunk === 'VP8L' && bytes.length >= 25) {
+    const bits = bytes.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === 'VP8X' && bytes.length >= 30) {
+    return { width: bytes.readUIntLE(24, 3) + 1, height: bytes.readUIntLE(27, 3) + 1 };
+  }
+  return undefined;
+}
+
+function getJpegDimensions (bytes: Buffer): ImageDimensions | undefined {
+  let offset = 2;
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return undefined;
+    const marker = bytes[offset + 1];
+    // start-of-frame markers, excluding DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: bytes.readUInt16BE(offset + 7), height: bytes.readUInt16BE(offset + 5) };
+    }
+    offset += 2 + bytes.readUInt16BE(offset + 2);
+  }
+  return undefined;
+}
+
+function getSvgDimensions (svg: string): ImageDimensions | undefined {
+  const tag = /<svg\b[^>]*>/i.exec(svg)?.[0];
+  if (!tag) return undefined;
+
+  const attribute = (name: string) => new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, 'i').exec(tag)?.[1];
+  // percentages and other relative units say nothing about the intrinsic size
+  const length = (name: string) => /^\s*(\d+(?:\.\d+)?)(?:px)?\s*$/.exec(attribute(name) ?? '')?.[1];
+  const width = Number(length('width'));
+  const height = Number(length('height'));
+  if (width > 0 && height > 0) {
+    return { width, height };
+  }
+
+  const viewBox = attribute('viewBox')?.trim().split(/[\s,]+/).map(Number);
+  if (viewBox?.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+    return { width: viewBox[2], height: viewBox[3] };
+  }
+  return undefined;
+}
@@ -0,0 +1,52 @@
+import { lstatSync, readlinkSync, realpathSync } from 'fs';
+import { basename, dirname, isAbsolute, join, relative, resolve } from 'path';
+
+// Matches the loop limit most platforms apply to symlink chains
+const MAX_LINK_DEPTH = 40;
+
+// Follows every symlink in the path. A path that does not exist yet resolves through its deepest
+// existing ancestor, and a dangling link through its target, so creating it cannot land anywhere else.
+export function realpathDeep (absolutePath: string, depth: number = 0): string {
+  try {
+    return realpathSync(absolutePath);
+  } catch {
+  }
+
+  const parent = dirname(absolutePath);
+  if (parent === absolutePath || depth > MAX_LINK_DEPTH) {
+    return absolutePath;
+  }
+
+  const candidate = join(realpathDeep(parent, depth), basename(absolutePath));
+  try {
+    if (lstatSync(candidate).isSymbolicLink()) {
+      return realpathDeep(resolve(dirname(candidate), readlinkSync(candidate)), depth + 1);
+    }
+  } catch {
+  }
+  return candidate;
+}
+
+export function isWithin (root: string, target: string, caseInsensitive: boolean = false): boolean {
+  const relativePath = caseInsensitive
+    ? relative(root.toLowerCase(), target.toLowerCase())
+    : relative(root, target);
+  return !relativePath.startsWith('..') && !isAbsolute(relativePath);
+}
+
+// Probes by looking the directory up with its case flipped; only the part of the path that has
+// letters says anything, so a directory without any falls back to the platform default
+export function isCaseInsensitiveFs (directory: string): boolean {
+  const flipped = directory.replace(/[a-z]/gi, char => char === char.toLowerCase() ? char.toUpperCase() : char.toLowerCase());
+  if (flipped === directory) {
+    return process.platform === 'darwin' || process.platform === 'win32';
+  }
+
+  try {
+    const original = lstatSync(directory);
+    const other = lstatSync(flipped);
+    return original.ino === other.ino && original.dev === other.dev;
+  } catch {
+    return false;
+  }
+}
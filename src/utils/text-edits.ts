@@ -0,0 +1,58 @@
+import type { TextEdit } from '../services/lsp.service';
+
+// Applies LSP-style edits (zero-based lines, UTF-16 characters) against the original content.
+// Every range is validated first; edits may not overlap, and inserts at the same position keep their order.
+export function applyTextEdits (content: string, edits: TextEdit[]): string {
+  const lineStarts = getLineStarts(content);
+
+  const resolved = edits.map((edit, index) => {
+    const start = toOffset(content, lineStarts, edit.range.start, index);
+    const end = toOffset(content, lineStarts, edit.range.end, index);
+    if (end < start) {
+      throw new Error(`Edit ${index} ends before it starts`);
+    }
+    return { start, end, newText: edit.newText, index };
+  });
+
+  resolved.sort((a, b) => a.start - b.start || a.end - b.end || a.index - b.index);
+
+  let result = '';
+  let cursor = 0;
+  for (const edit of resolved) {
+    if (edit.start < cursor) {
+      throw new Error(`Edit ${edit.index} overlaps another edit`);
+    }
+    result += content.slice(cursor, edit.start) + edit.newText;
+    cursor = edit.end;
+  }
+
+  return result + content.slice(cursor);
+}
+
+function getLineStarts (content: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+function toOffset (content: string, lineStarts: number[], position: { line: number, character: number }, index: number): number {
+  if (position.line >= lineStarts.length) {
+    throw new Error(`Edit ${index} refers to line ${position.line}, but the document has ${lineStarts.length} lines`);
+  }
+
+  const lineStart = lineStarts[position.line];
+  let lineEnd = position.line + 1 < lineStarts.length ? lineStarts[position.line + 1] - 1 : content.length;
+  if (lineEnd > lineStart && content[lineEnd - 1] === '\r') {
+    lineEnd--;
+  }
+
+  if (position.character > lineEnd - lineStart) {
+    throw new Error(`Edit ${index} refers to character ${position.character} on line ${position.line}, which has ${lineEnd - lineStart} characters`);
+  }
+
+  return lineStart + position.character;
+}
@@ -0,0 +1,217 @@
+// Unified diff parsing and fuzzy hunk application, in the spirit of `patch -p1`.
+export interface DiffHunk {
+  oldStart: number
+  oldLines: number
+  newStart: number
+  newLines: number
+  lines: Array<{ type: ' ' | '-' | '+', text: string }>
+  oldNoNewlineAtEnd: boolean
+  newNoNewlineAtEnd: boolean
+}
+
+export interface FilePatch {
+  // null for /dev/null, i.e. a created or deleted file
+  oldPath: string | null
+  newPath: string | null
+  hunks: DiffHunk[]
+}
+
+export interface AppliedHunk {
+  // 1-based line in the original content where the hunk matched
+  line: number
+  // how far the match drifted from the line stated in the hunk header
+  offset: number
+  // context lines ignored at each end to find a match
+  fuzz: number
+}
+
+export const DEFAULT_PATCH_FUZZ = 2;
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+export function parseUnifiedDiff (patch: string): FilePatch[] {
+  const lines = patch.split(/\r?\n/);
+  const files: FilePatch[] = [];
+  let current: FilePatch | null = null;
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      current = {
+        oldPath: parsePath(line.slice(4)),
+        newPath: parsePath(lines[i + 1].slice(4)),
+        hunks: []
+      };
+      files.push(current);
+      i += 2;
+      continue;
+    }
+
+    const header = HUNK_HEADER.exec(line);
+    if (header) {
+      if (!current) {
+        throw new Error(`Hunk without file header at line ${i + 1}`);
+      }
+      const hunk: DiffHunk = {
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        lines: [],
+        oldNoNewlineAtEnd: false,
+        newNoNewlineAtEnd: false
+      };
+      i = readHunkBody(lines, i + 1, hunk);
+      current.hunks.push(hunk);
+      continue;
+    }
+
+    i++;
+  }
+
+  if (files.length === 0) {
+    throw new Error('Patch does not contain any file headers');
+  }
+
+  return files;
+}
+
+function readHunkBody (lines: string[], start: number, hunk: DiffHunk): number {
+  let oldRemaining = hunk.oldLines;
+  let newRemaining = hunk.newLines;
+  let i = start;
+
+  while (i < lines.length && (oldRemaining > 0 || newRemaining > 0 || lines[i].startsWith('\\'))) {
+    const line = lines[i];
+    const type = line[0];
+
+    if (type === '\\') {
+      const previous = hunk.lines[hunk.lines.length - 1];
+      if (previous?.type !== '+') hunk.oldNoNewlineAtEnd = true;
+      if (previous?.type !== '-') hunk.newNoNewlineAtEnd = true;
+    } else if (type === ' ' || type === '-' || type === '+' || line === '') {
+      const lineType = line === '' ? ' ' : type as ' ' | '-' | '+';
+      hunk.lines.push({ type: lineType, text: line.slice(1) });
+      if (lineType !== '+') oldRemaining--;
+      if (lineType !== '-') newRemaining--;
+    } else {
+      break;
+    }
+    i++;
+  }
+
+  if (oldRemaining !== 0 || newRemaining !== 0) {
+    throw new Error(`Hunk @@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@ does not match its line counts`);
+  }
+
+  return i;
+}
+
+function parsePath (raw: string): string | null {
+  const path = raw.split('\t')[0].trim();
+  if (path === '/dev/null') {
+    return null;
+  }
+  // strip the a/ and b/ prefixes written by git
+  return path.startsWith('a/') || path.startsWith('b/') ? path.slice(2) : path;
+}
+
+// Applies the hunks in order. Each hunk is matched at its stated line (adjusted for earlier hunks),
+// then at the nearest line above or below, then again with up to `fuzz` context lines ignored at each end.
+export function applyHunks (
+  content: string,
+  hunks: DiffHunk[],
+  fuzz: number = DEFAULT_PATCH_FUZZ
+): { content: string, applied: AppliedHunk[] } {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content === '' ? [] : content.split(eol);
+  let endsWithNewline = content === '' || content.endsWith(eol);
+  if (content !== '' && endsWithNewline) {
+    lines.pop();
+  }
+
+  const applied: AppliedHunk[] = [];
+  let drift = 0;
+  let minLine = 0;
+
+  hunks.forEach((hunk, index) => {
+    // a hunk that only inserts lines names the line it inserts after
+    const expectedStart = (hunk.oldLines === 0 ? hunk.oldStart : hunk.oldStart - 1) + drift;
+    const match = findHunk(lines, hunk, expectedStart, minLine, fuzz);
+    if (!match) {
+      throw new Error(`Hunk ${index + 1} (@@ -${hunk.oldStart},${hunk.oldLines} @@) does not match the current content`);
+    }
+
+    const body = hunk.lines.slice(match.lead, hunk.lines.length - match.trail);
+    const oldLines = body.filter(line => line.type !== '+').length;
+    const newLines = body.filter(line => line.type !== '-').map(line => line.text);
+    const reachesEnd = match.start + oldLines === lines.length;
+
+    lines.splice(match.start, oldLines, ...newLines);
+
+    if (reachesEnd && match.trail === 0) {
+      if (hunk.newNoNewlineAtEnd) {
+        endsWithNewline = false;
+      } else if (hunk.oldNoNewlineAtEnd) {
+        endsWithNewline = true;
+      }
+    }
+
+    applied.push({
+      line: match.start - match.lead - drift + 1,
+      offset: match.start - match.lead - expectedStart,
+      fuzz: Math.max(match.lead, match.trail)
+    });
+    drift += newLines.length - oldLines;
+    minLine = match.start + newLines.length;
+  });
+
+  const joined = lines.join(eol);
+  return { content: lines.length > 0 && endsWithNewline ? joined + eol : joined, applied };
+}
+
+function findHunk (
+  lines: string[],
+  hunk: DiffHunk,
+  expectedStart: number,
+  minLine: number,
+  maxFuzz: number
+): { start: number, lead: number, trail: number } | null {
+  const leading = leadingContext(hunk.lines);
+  const trailing = leadingContext([...hunk.lines].reverse());
+
+  for (let fuzz = 0; fuzz <= maxFuzz; fuzz++) {
+    const lead = Math.min(fuzz, leading);
+    const trail = Math.min(fuzz, trailing);
+    if (fuzz > 0 && lead < fuzz && trail < fuzz) {
+      break;
+    }
+
+    const expected = hunk.lines
+      .slice(lead, hunk.lines.length - trail)
+      .filter(line => line.type !== '+')
+      .map(line => line.text);
+    const target = Math.max(expectedStart + lead, minLine);
+
+    for (let distance = 0; distance <= lines.length; distance++) {
+      for (const start of distance === 0 ? [target] : [target - distance, target + distance]) {
+        if (start >= minLine && start + expected.length <= lines.length && matchesAt(lines, expected, start)) {
+          return { start, lead, trail };
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+function leadingContext (lines: DiffHunk['lines']): number {
+  const index = lines.findIndex(line => line.type !== ' ');
+  return index === -1 ? lines.length : index;
+}
+
+function matchesAt (lines: string[], expected: string[], start: number): boolean {
+  return expected.every((text, i) => lines[start + i].replace(/\r$/, '') === text.replace(/\r$/, ''));
+}
@@ -10,10 +10,27 @@ let lspService: LspService;
 let diagnosticChecker: DiagnosticCheckerService;
 let logger: Logger;
 let isInitialized = false;
+const activeRequests = new Map<string, AbortController>();
 
 process.send!({ type: 'ready' });
 
 process.on('message', async (message: any) => {
+  if (message.type === 'cancel') {
+    activeRequests.get(message.requestId)?.abort();
+    return;
+  }
+
+  const controller = new AbortController();
+  if (message.requestId) {
+    activeRequests.set(message.requestId, controller);
+  }
+
+  const reply = (response: any) => {
+    if (!controller.signal.aborted) {
+      process.send!(response);
+    }
+  };
+
   try {
     switch (message.type) {
       case 'init_worker': {
@@ -33,7 +50,7 @@ process.on('message', async (message: any) => {
           break;
         }
         await lspService.initialize();
-        process.send!({ type: 'initialized' });
+        process.send!({ type: 'initialized', capabilities: lspService.getCapabilities() });
         break;
 
       case 'jsonrpc':
@@ -46,8 +63,10 @@ process.on('message', async (message: any) => {
           break;
         }
         {
-          const response = await lspService.handleJsonRpc(message.payload);
-          process.send!({
+          // a cancel sent right after the request is still queued; let it land before the work starts
+          await new Promise<void>(resolve => setImmediate(resolve));
+          const response = await lspService.handleJsonRpc(message.payload, controller.signal);
+          reply({
             type: 'jsonrpc_response',
             requestId: message.requestId,
             payload: response
@@ -93,8 +112,8 @@ process.on('message', async (message: any) => {
           break;
         }
         {
-          const result = await diagnosticChecker.checkFiles(message.files);
-          process.send!({
+          const result = await diagnosticChecker.checkFiles(message.files, controller.signal);
+          reply({
             type: 'diagnostics_result',
             requestId: message.requestId,
             payload: result
@@ -110,11 +129,15 @@ process.on('message', async (message: any) => {
     }
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    process.send!({
+    reply({
       type: 'error',
       requestId: message.requestId,
       error: errorMessage
     });
+  } finally {
+    if (message.requestId) {
+      activeRequests.delete(message.requestId);
+    }
   }
 });
 